@@ -21,6 +21,64 @@ export const config = {
 
   // Payment Providers config
   returnUrl: process.env.RETURN_URL,
+
+  // Briqpay HTTP transport
+  briqpayRequestTimeout: parseInt(process.env.BRIQPAY_REQUEST_TIMEOUT || '10000'),
+  briqpayMaxRetries: parseInt(process.env.BRIQPAY_MAX_RETRIES || '2'),
+  briqpayRetryBaseDelay: parseInt(process.env.BRIQPAY_RETRY_BASE_DELAY || '200'),
+  briqpayCircuitBreakerThreshold: parseInt(process.env.BRIQPAY_CIRCUIT_BREAKER_THRESHOLD || '5'),
+  briqpayCircuitBreakerCooldown: parseInt(process.env.BRIQPAY_CIRCUIT_BREAKER_COOLDOWN || '30000'),
+
+  // Authorization expiry job: how far ahead to look, and whether to auto-capture or only alert
+  authorizationExpiryWindowHours: parseInt(process.env.BRIQPAY_AUTHORIZATION_EXPIRY_WINDOW_HOURS || '48'),
+  authorizationExpiryPolicy: (process.env.BRIQPAY_AUTHORIZATION_EXPIRY_POLICY || 'alert') as 'alert' | 'capture',
+
+  // Webhook inbox: processing attempts before an event is dead-lettered, and the backoff between them
+  webhookMaxAttempts: parseInt(process.env.BRIQPAY_WEBHOOK_MAX_ATTEMPTS || '3'),
+  webhookRetryBaseDelay: parseInt(process.env.BRIQPAY_WEBHOOK_RETRY_BASE_DELAY || '1000'),
+
+  // Opt-in Briqpay hooks recorded on the cart: session completion and payment-module UI (funnel) progress
+  sessionStatusHookEnabled: process.env.BRIQPAY_SESSION_STATUS_HOOK === 'true',
+  moduleUiStatusHookEnabled: process.env.BRIQPAY_MODULE_UI_STATUS_HOOK === 'true',
+
+  // Product thumbnails on Briqpay order lines: the variant image with this label, else the first one
+  lineItemImagesEnabled: process.env.BRIQPAY_LINE_ITEM_IMAGES !== 'false',
+  lineItemImageLabel: process.env.BRIQPAY_LINE_ITEM_IMAGE_LABEL,
+
+  // VAT on gift card lines: 'exempt' sends them at 0%, 'commercetools' keeps the tax CT calculated
+  giftCardVat: (process.env.BRIQPAY_GIFT_CARD_VAT || 'exempt') as 'exempt' | 'commercetools',
+  // Gift card lines that redeem a gift card rather than sell one: by product type (ID or key) or product key
+  giftCardRedemptionProductTypes: (process.env.BRIQPAY_GIFT_CARD_REDEMPTION_PRODUCT_TYPES || '')
+    .split(',')
+    .map((productType) => productType.trim())
+    .filter(Boolean),
+  giftCardRedemptionKeys: (process.env.BRIQPAY_GIFT_CARD_REDEMPTION_KEYS || '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean),
+
+  // Sales-tax mode (e.g. US): lines are sent net with the cart's tax in a single sales_tax line, for carts
+  // shipping to one of these countries or using one of these CT tax modes
+  salesTaxCountries: (process.env.BRIQPAY_SALES_TAX_COUNTRIES || '')
+    .split(',')
+    .map((country) => country.trim())
+    .filter(Boolean),
+  salesTaxModes: (process.env.BRIQPAY_SALES_TAX_MODES || '')
+    .split(',')
+    .map((taxMode) => taxMode.trim())
+    .filter(Boolean),
+
+  // Outbound merchant events: normalized events signed with the secret and POSTed to each endpoint after a CT change
+  merchantEventUrls: (process.env.BRIQPAY_MERCHANT_EVENT_URLS || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean),
+  merchantEventSecret: process.env.BRIQPAY_MERCHANT_EVENT_SECRET,
+  merchantEventMaxAttempts: parseInt(process.env.BRIQPAY_MERCHANT_EVENT_MAX_ATTEMPTS || '5'),
+  merchantEventRetryBaseDelay: parseInt(process.env.BRIQPAY_MERCHANT_EVENT_RETRY_BASE_DELAY || '1000'),
+
+  // Webhook replay protection: per-process memory, or CT custom objects shared by all instances
+  webhookReplayStore: (process.env.BRIQPAY_WEBHOOK_REPLAY_STORE || 'memory') as 'memory' | 'commercetools',
 }
 
 export const getConfig = () => {
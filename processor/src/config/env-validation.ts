@@ -1,4 +1,5 @@
 import { appLogger } from '../payment-sdk'
+import { parseWebhookSecrets } from '../libs/briqpay/webhook-verification'
 
 /**
  * Environment variable validation for security-critical configuration.
@@ -78,6 +79,10 @@ const REQUIRED_ENV_VARS: EnvVarConfig[] = [
     name: 'BRIQPAY_WEBHOOK_SECRET',
     required: true,
     sensitive: true,
+    // One secret, or current and previous secrets during a rotation: `current,previous|<ISO 8601 expiry>`
+    validator: (value) => parseWebhookSecrets(value) !== undefined,
+    errorMessage:
+      'BRIQPAY_WEBHOOK_SECRET must be a comma-separated list of secrets, each optionally followed by |<ISO 8601 expiry>',
   },
 
   // URLs
@@ -116,6 +121,100 @@ const OPTIONAL_ENV_VARS: EnvVarConfig[] = [
     validator: (value) => value.startsWith('https://'),
     errorMessage: 'BRIQPAY_EXTERNAL_WEBHOOK_URL must use HTTPS',
   },
+  // Authorization expiry job
+  {
+    name: 'BRIQPAY_AUTHORIZATION_EXPIRY_POLICY',
+    required: false,
+    validator: (value) => ['alert', 'capture'].includes(value),
+    errorMessage: "BRIQPAY_AUTHORIZATION_EXPIRY_POLICY must be 'alert' or 'capture'",
+  },
+  {
+    name: 'BRIQPAY_AUTHORIZATION_EXPIRY_WINDOW_HOURS',
+    required: false,
+    validator: (value) => /^\d+$/.test(value) && parseInt(value) > 0,
+    errorMessage: 'BRIQPAY_AUTHORIZATION_EXPIRY_WINDOW_HOURS must be a positive integer',
+  },
+  // Webhook inbox
+  {
+    name: 'BRIQPAY_WEBHOOK_MAX_ATTEMPTS',
+    required: false,
+    validator: (value) => /^\d+$/.test(value) && parseInt(value) > 0,
+    errorMessage: 'BRIQPAY_WEBHOOK_MAX_ATTEMPTS must be a positive integer',
+  },
+  {
+    name: 'BRIQPAY_WEBHOOK_RETRY_BASE_DELAY',
+    required: false,
+    validator: (value) => /^\d+$/.test(value),
+    errorMessage: 'BRIQPAY_WEBHOOK_RETRY_BASE_DELAY must be a non-negative integer',
+  },
+  {
+    name: 'BRIQPAY_WEBHOOK_REPLAY_STORE',
+    required: false,
+    validator: (value) => ['memory', 'commercetools'].includes(value),
+    errorMessage: "BRIQPAY_WEBHOOK_REPLAY_STORE must be 'memory' or 'commercetools'",
+  },
+  // Outbound merchant events
+  {
+    name: 'BRIQPAY_MERCHANT_EVENT_URLS',
+    required: false,
+    validator: (value) => value.split(',').every((url) => url.trim().startsWith('https://')),
+    errorMessage: 'BRIQPAY_MERCHANT_EVENT_URLS must be a comma-separated list of HTTPS URLs',
+  },
+  { name: 'BRIQPAY_MERCHANT_EVENT_SECRET', required: false, sensitive: true },
+  {
+    name: 'BRIQPAY_MERCHANT_EVENT_MAX_ATTEMPTS',
+    required: false,
+    validator: (value) => /^\d+$/.test(value) && parseInt(value) > 0,
+    errorMessage: 'BRIQPAY_MERCHANT_EVENT_MAX_ATTEMPTS must be a positive integer',
+  },
+  {
+    name: 'BRIQPAY_MERCHANT_EVENT_RETRY_BASE_DELAY',
+    required: false,
+    validator: (value) => /^\d+$/.test(value),
+    errorMessage: 'BRIQPAY_MERCHANT_EVENT_RETRY_BASE_DELAY must be a non-negative integer',
+  },
+  // Opt-in session hooks
+  {
+    name: 'BRIQPAY_SESSION_STATUS_HOOK',
+    required: false,
+    validator: (value) => ['true', 'false'].includes(value),
+    errorMessage: "BRIQPAY_SESSION_STATUS_HOOK must be 'true' or 'false'",
+  },
+  {
+    name: 'BRIQPAY_MODULE_UI_STATUS_HOOK',
+    required: false,
+    validator: (value) => ['true', 'false'].includes(value),
+    errorMessage: "BRIQPAY_MODULE_UI_STATUS_HOOK must be 'true' or 'false'",
+  },
+  // Product images on order lines
+  {
+    name: 'BRIQPAY_LINE_ITEM_IMAGES',
+    required: false,
+    validator: (value) => ['true', 'false'].includes(value),
+    errorMessage: "BRIQPAY_LINE_ITEM_IMAGES must be 'true' or 'false'",
+  },
+  // Gift card lines
+  {
+    name: 'BRIQPAY_GIFT_CARD_VAT',
+    required: false,
+    validator: (value) => ['exempt', 'commercetools'].includes(value),
+    errorMessage: "BRIQPAY_GIFT_CARD_VAT must be 'exempt' or 'commercetools'",
+  },
+  // Sales-tax mode
+  {
+    name: 'BRIQPAY_SALES_TAX_COUNTRIES',
+    required: false,
+    validator: (value) => value.split(',').every((country) => /^[A-Z]{2}$/.test(country.trim())),
+    errorMessage: 'BRIQPAY_SALES_TAX_COUNTRIES must be a comma-separated list of ISO 3166-1 alpha-2 country codes',
+  },
+  {
+    name: 'BRIQPAY_SALES_TAX_MODES',
+    required: false,
+    validator: (value) =>
+      value.split(',').every((taxMode) => ['Platform', 'External', 'ExternalAmount'].includes(taxMode.trim())),
+    errorMessage:
+      "BRIQPAY_SALES_TAX_MODES must be a comma-separated list of 'Platform', 'External' or 'ExternalAmount'",
+  },
 ]
 
 export class EnvValidationError extends Error {
@@ -4,6 +4,7 @@ import {
   briqpayCustomTypeKey,
   type BriqpayFieldDefinition,
   briqpayFieldDefinitions,
+  briqpayPaymentFieldDefinitions,
 } from '../custom-types/custom-types'
 
 // Lazy getter for apiClient to avoid initialization issues in tests
@@ -185,12 +186,16 @@ function resolveFieldConflicts(
   })
 }
 
-async function createType(key: string): Promise<Type> {
-  const fieldDefinitions = briqpayFieldDefinitions.map(toFieldDefinition)
+async function createType(
+  key: string,
+  resourceTypeId: 'order' | 'payment' = 'order',
+  fields: BriqpayFieldDefinition[] = briqpayFieldDefinitions,
+): Promise<Type> {
+  const fieldDefinitions = fields.map(toFieldDefinition)
 
   appLogger.info(
-    { key, resourceTypeIds: ['order'], fieldCount: fieldDefinitions.length },
-    `Creating new custom type with key "${key}" for resourceTypeId "order"`,
+    { key, resourceTypeIds: [resourceTypeId], fieldCount: fieldDefinitions.length },
+    `Creating new custom type with key "${key}" for resourceTypeId "${resourceTypeId}"`,
   )
 
   return withErrorLogging(
@@ -203,7 +208,7 @@ async function createType(key: string): Promise<Type> {
             name: {
               en: 'Briqpay Data',
             },
-            resourceTypeIds: ['order'],
+            resourceTypeIds: [resourceTypeId],
             fieldDefinitions,
           },
         })
@@ -290,11 +295,15 @@ async function addMissingFieldDefinitions(customType: Type, missingFields: Briqp
  * as that filtering should be done by `findTypeByKeyAndResourceType`.
  *
  * @param customType - The existing custom type to check and update
+ * @param fields - The Briqpay fields the type must contain
  * @returns The custom type (updated if fields were added)
  */
-async function ensureFieldDefinitions(customType: Type): Promise<Type> {
+async function ensureFieldDefinitions(
+  customType: Type,
+  fields: BriqpayFieldDefinition[] = briqpayFieldDefinitions,
+): Promise<Type> {
   const existingFieldNames = new Set(customType.fieldDefinitions.map((f) => f.name))
-  const missingFields = briqpayFieldDefinitions.filter((field) => !existingFieldNames.has(field.name))
+  const missingFields = fields.filter((field) => !existingFieldNames.has(field.name))
 
   if (missingFields.length === 0) {
     appLogger.info(
@@ -386,6 +395,26 @@ export async function createBriqpayCustomType(key: string): Promise<Type> {
   return type
 }
 
+/**
+ * Creates or updates the Briqpay custom type for payments, which holds the authorization expiry.
+ *
+ * Unlike the order type, an existing payment type of another connector is never extended: the
+ * Briqpay payment fields are only written to payments created by this connector.
+ *
+ * @param key - The custom type key to use
+ * @returns The created or updated custom type
+ */
+export async function createBriqpayPaymentCustomType(key: string): Promise<Type> {
+  const existingType = await findTypeByKeyAndResourceType(key, 'payment')
+
+  if (existingType) {
+    return ensureFieldDefinitions(existingType, briqpayPaymentFieldDefinitions)
+  }
+
+  appLogger.info({ key }, `No Briqpay custom type found for "payment" resource type, creating "${key}"`)
+  return createType(key, 'payment', briqpayPaymentFieldDefinitions)
+}
+
 /**
  * Gets the actual custom type key that contains Briqpay fields.
  *
@@ -445,6 +474,30 @@ export async function getBriqpayTypeKey(): Promise<string> {
   return cachedBriqpayTypeKey
 }
 
+/**
+ * Lists the Briqpay field definitions missing from the order type resolved by `getBriqpayTypeKey`.
+ *
+ * A field prefixed with "briqpay-" by `resolveFieldConflicts` counts as present. When the type
+ * itself does not exist, every field is reported missing.
+ *
+ * @returns The resolved type key, whether the type exists, and the names of the missing fields
+ */
+export async function findMissingBriqpayFieldDefinitions(): Promise<{
+  typeKey: string
+  typeExists: boolean
+  missingFields: string[]
+}> {
+  const typeKey = await getBriqpayTypeKey()
+  const orderType = await findTypeByKeyAndResourceType(typeKey, 'order')
+  const existingFieldNames = new Set(orderType?.fieldDefinitions.map((field) => field.name) ?? [])
+
+  const missingFields = briqpayFieldDefinitions
+    .map((field) => field.name)
+    .filter((name) => !existingFieldNames.has(name) && !existingFieldNames.has(`briqpay-${name}`))
+
+  return { typeKey, typeExists: !!orderType, missingFields }
+}
+
 /**
  * Clears the cached Briqpay type key.
  * Useful for testing or when the type configuration changes.
@@ -1,11 +1,12 @@
 import 'dotenv/config'
-import { createBriqpayCustomType } from './actions'
+import { createBriqpayCustomType, createBriqpayPaymentCustomType } from './actions'
 import { appLogger } from '../payment-sdk'
 
 // ============================================================================
 // Configuration - read directly from environment variables
 // ============================================================================
 const customTypeKey = process.env.BRIQPAY_SESSION_CUSTOM_TYPE_KEY || 'briqpay-session-id'
+const paymentCustomTypeKey = process.env.BRIQPAY_PAYMENT_CUSTOM_TYPE_KEY || 'briqpay-payment'
 
 // ============================================================================
 // Main Post-Deploy Logic
@@ -19,6 +20,9 @@ async function createOrUpdateCustomType(): Promise<void> {
   // 3. Resolving field conflicts via prefixing
   // 4. Creating a new type if none exist
   await createBriqpayCustomType(customTypeKey)
+
+  appLogger.info({ paymentCustomTypeKey }, 'Running post-deploy: Ensuring Briqpay payment custom type exists')
+  await createBriqpayPaymentCustomType(paymentCustomTypeKey)
 }
 
 // ============================================================================
@@ -24,6 +24,24 @@ export const briqpayFutureOrderNumberFieldName =
 export const briqpayCheckoutTransactionItemIdFieldName =
   process.env.BRIQPAY_CHECKOUT_TRANSACTION_ITEM_ID_KEY || 'briqpay-checkout-transaction-item-id'
 
+// Custom type on the CT Payment (not the order) holding the Briqpay authorization expiry, so
+// expiring authorizations can be queried per payment by the authorization expiry job.
+export const briqpayPaymentCustomTypeKey = process.env.BRIQPAY_PAYMENT_CUSTOM_TYPE_KEY || 'briqpay-payment'
+
+export const briqpayAuthorizationExpiresAtFieldName =
+  process.env.BRIQPAY_AUTHORIZATION_EXPIRES_AT_KEY || 'briqpay-authorization-expires-at'
+
+// The expiry the authorization expiry job last alerted on, so each expiry is alerted once
+export const briqpayAuthorizationExpiryAlertedFieldName =
+  process.env.BRIQPAY_AUTHORIZATION_EXPIRY_ALERTED_KEY || 'briqpay-authorization-expiry-alerted'
+
+// Fields on the cart (copied to the order) written by the opt-in session_status and
+// module_ui_status webhooks, so abandoned checkouts can be analysed per cart.
+export const briqpaySessionCompletedAtFieldName =
+  process.env.BRIQPAY_SESSION_COMPLETED_AT_KEY || 'briqpay-session-completed-at'
+
+export const briqpayModuleUiStatusFieldName = process.env.BRIQPAY_MODULE_UI_STATUS_KEY || 'briqpay-module-ui-status'
+
 export const briqpaySessionIdCustomType = {
   name: briqpaySessionIdFieldName,
 }
@@ -31,7 +49,7 @@ export const briqpaySessionIdCustomType = {
 export interface BriqpayFieldDefinition {
   name: string
   label: string
-  type: 'String' | 'Boolean'
+  type: 'String' | 'Boolean' | 'DateTime'
   required: boolean
 }
 
@@ -64,6 +82,21 @@ export const briqpayFieldDefinitions: BriqpayFieldDefinition[] = [
     required: false,
   },
 
+  // Session funnel — written by the opt-in session_status / module_ui_status webhooks.
+  // The module UI status is a JSON object of the last status per module, e.g. {"billing":"completed"}.
+  {
+    name: briqpaySessionCompletedAtFieldName,
+    label: 'Briqpay Session Completed At',
+    type: 'DateTime',
+    required: false,
+  },
+  {
+    name: briqpayModuleUiStatusFieldName,
+    label: 'Briqpay Module UI Status',
+    type: 'String',
+    required: false,
+  },
+
   // PSP Meta Data fields
   {
     name:
@@ -147,3 +180,18 @@ export const briqpayFieldDefinitions: BriqpayFieldDefinition[] = [
     required: false,
   },
 ]
+
+export const briqpayPaymentFieldDefinitions: BriqpayFieldDefinition[] = [
+  {
+    name: briqpayAuthorizationExpiresAtFieldName,
+    label: 'Briqpay Authorization Expires At',
+    type: 'DateTime',
+    required: false,
+  },
+  {
+    name: briqpayAuthorizationExpiryAlertedFieldName,
+    label: 'Briqpay Authorization Expiry Alerted',
+    type: 'DateTime',
+    required: false,
+  },
+]
@@ -36,6 +36,7 @@ export enum BRIQPAY_WEBHOOK_EVENT {
   ORDER_STATUS = 'order_status',
   CAPTURE_STATUS = 'capture_status',
   REFUND_STATUS = 'refund_status',
+  MODULE_UI_STATUS = 'module_ui_status',
 }
 export enum BRIQPAY_WEBHOOK_STATUS {
   // Orders
@@ -50,6 +51,27 @@ export enum BRIQPAY_WEBHOOK_STATUS {
   REJECTED = 'rejected',
 }
 
+// Statuses of the opt-in session_status and module_ui_status events
+export enum BRIQPAY_SESSION_WEBHOOK_STATUS {
+  COMPLETED = 'completed',
+}
+export enum BRIQPAY_MODULE_UI_WEBHOOK_STATUS {
+  LOCKED_BY_MERCHANT = 'locked_by_merchant',
+  HIDDEN = 'hidden',
+  NOT_YET_REACHED = 'not_yet_reached',
+  NOT_YET_REACHED_LOCKED = 'not_yet_reached_locked',
+  VISIBLE = 'visible',
+  VISIBLE_OPTIONAL = 'visible_optional',
+  VISIBLE_REQUIRED = 'visible_required',
+  COMPLETED = 'completed',
+}
+export enum BRIQPAY_WEBHOOK_MODULE {
+  COMPANY_LOOKUP = 'company_lookup',
+  BILLING = 'billing',
+  SHIPPING = 'shipping',
+  PAYMENT = 'payment',
+}
+
 export const PaymentResponseSchema = Type.Object({
   paymentReference: Type.String(),
 })
@@ -96,6 +118,64 @@ export const DecisionResponseSchema = Type.Object({
   decision: Type.Enum(BRIQPAY_DECISION),
 })
 
+export enum OrderSyncOutcome {
+  UPDATED = 'updated',
+  EXCEEDS_AUTHORIZATION = 'exceeds_authorization',
+}
+
+export const OrderSyncResponseSchema = Type.Object({
+  outcome: Type.Enum(OrderSyncOutcome),
+  orderId: Type.String(),
+  sessionId: Type.String(),
+  orderAmount: Type.Integer(),
+  // Briqpay transaction amountIncVat; absent when Briqpay does not report an authorization yet
+  authorizedAmount: Type.Optional(Type.Integer()),
+})
+
+export enum AuthorizationExpiryAction {
+  CAPTURED = 'captured',
+  ALERTED = 'alerted',
+  FAILED = 'failed',
+}
+
+export const AuthorizationExpiryResponseSchema = Type.Object({
+  windowEnd: Type.String(),
+  payments: Type.Array(
+    Type.Object({
+      paymentId: Type.String(),
+      expiresAt: Type.String(),
+      remainingAmount: Type.Integer(),
+      action: Type.Enum(AuthorizationExpiryAction),
+    }),
+  ),
+})
+
+export const ReconciliationRequestSchema = Type.Object({
+  // Only report the drift when true (the default); apply the missing CT transactions when false
+  dryRun: Type.Optional(Type.Boolean()),
+})
+
+const ReconciliationChangeSchema = Type.Object({
+  type: Type.Union([Type.Literal('Authorization'), Type.Literal('Charge'), Type.Literal('Refund')]),
+  interactionId: Type.String(),
+  amount: Type.Object({ centAmount: Type.Integer(), currencyCode: Type.String() }),
+  state: Type.String(),
+  // Absent when the CT transaction is missing and gets added
+  previousState: Type.Optional(Type.String()),
+})
+
+export const ReconciliationResponseSchema = Type.Object({
+  dryRun: Type.Boolean(),
+  payments: Type.Array(
+    Type.Object({
+      paymentId: Type.String(),
+      sessionId: Type.String(),
+      changes: Type.Array(ReconciliationChangeSchema),
+      error: Type.Optional(Type.String()),
+    }),
+  ),
+})
+
 const NotificationTransactionSchema = Type.Object({
   transactionId: Type.String(),
   status: Type.String(),
@@ -171,7 +251,11 @@ const NotificationRefundSchema = Type.Object({
 
 export const NotificationRequestSchema = Type.Object({
   event: Type.Enum(BRIQPAY_WEBHOOK_EVENT),
-  status: Type.Enum(BRIQPAY_WEBHOOK_STATUS),
+  status: Type.Union([
+    Type.Enum(BRIQPAY_WEBHOOK_STATUS),
+    Type.Enum(BRIQPAY_SESSION_WEBHOOK_STATUS),
+    Type.Enum(BRIQPAY_MODULE_UI_WEBHOOK_STATUS),
+  ]),
   sessionId: Type.String({
     minLength: 1,
     maxLength: 128,
@@ -195,6 +279,8 @@ export const NotificationRequestSchema = Type.Object({
       pattern: SessionIdPattern.source,
     }),
   ),
+  // Only on module_ui_status events
+  module: Type.Optional(Type.Enum(BRIQPAY_WEBHOOK_MODULE)),
   autoCaptured: Type.Optional(Type.Boolean()),
   isPreExistingCapture: Type.Optional(Type.Boolean()),
   transaction: Type.Optional(NotificationTransactionSchema),
@@ -202,9 +288,108 @@ export const NotificationRequestSchema = Type.Object({
   refund: Type.Optional(NotificationRefundSchema),
 })
 
+export enum WebhookInboxStatus {
+  PENDING = 'pending',
+  PROCESSED = 'processed',
+  DEAD_LETTER = 'dead_letter',
+}
+
+export const WebhookInboxEntrySchema = Type.Object({
+  key: Type.String(),
+  status: Type.Enum(WebhookInboxStatus),
+  attempts: Type.Integer(),
+  lastError: Type.Optional(Type.String()),
+  receivedAt: Type.String(),
+  updatedAt: Type.String(),
+  // Set while an instance is delivering the entry; other instances leave it alone until it lapses
+  claimedAt: Type.Optional(Type.String()),
+  data: NotificationRequestSchema,
+})
+
+export const WebhookInboxQuerySchema = Type.Object({
+  // Dead letters by default; pending entries older than a few minutes were interrupted mid-delivery
+  status: Type.Optional(
+    Type.Union([Type.Literal(WebhookInboxStatus.DEAD_LETTER), Type.Literal(WebhookInboxStatus.PENDING)]),
+  ),
+})
+
+export const WebhookInboxListResponseSchema = Type.Object({
+  entries: Type.Array(WebhookInboxEntrySchema),
+})
+
+export enum MerchantEventType {
+  PAYMENT_AUTHORIZED = 'payment.authorized',
+  PAYMENT_CAPTURED = 'payment.captured',
+  PAYMENT_REFUNDED = 'payment.refunded',
+  PAYMENT_CANCELLED = 'payment.cancelled',
+  AUTHORIZATION_EXPIRING = 'payment.authorization_expiring',
+}
+
+export const MerchantEventSchema = Type.Object({
+  id: Type.String(),
+  type: Type.Enum(MerchantEventType),
+  createdAt: Type.String(),
+  data: Type.Object({
+    paymentId: Type.String(),
+    orderId: Type.Optional(Type.String()),
+    briqpaySessionId: Type.Optional(Type.String()),
+    briqpayCaptureId: Type.Optional(Type.String()),
+    briqpayRefundId: Type.Optional(Type.String()),
+    // Only on payment.authorization_expiring, where amount is the uncaptured remainder
+    expiresAt: Type.Optional(Type.String()),
+    amount: Type.Object({ centAmount: Type.Integer(), currencyCode: Type.String() }),
+  }),
+})
+
+export enum MerchantEventDeliveryStatus {
+  PENDING = 'pending',
+  DELIVERED = 'delivered',
+  FAILED = 'failed',
+}
+
+export const MerchantEventDeliverySchema = Type.Object({
+  key: Type.String(),
+  url: Type.String(),
+  status: Type.Enum(MerchantEventDeliveryStatus),
+  attempts: Type.Integer(),
+  lastError: Type.Optional(Type.String()),
+  // HTTP status of the last response; absent when the endpoint could not be reached
+  responseStatus: Type.Optional(Type.Integer()),
+  createdAt: Type.String(),
+  updatedAt: Type.String(),
+  event: MerchantEventSchema,
+})
+
+export const MerchantEventDeliveryQuerySchema = Type.Object({
+  // Failed deliveries by default
+  status: Type.Optional(
+    Type.Union([
+      Type.Literal(MerchantEventDeliveryStatus.FAILED),
+      Type.Literal(MerchantEventDeliveryStatus.PENDING),
+      Type.Literal(MerchantEventDeliveryStatus.DELIVERED),
+    ]),
+  ),
+})
+
+export const MerchantEventDeliveryListResponseSchema = Type.Object({
+  deliveries: Type.Array(MerchantEventDeliverySchema),
+})
+
 export type PaymentRequestSchemaDTO = Static<typeof PaymentRequestSchema>
 export type PaymentResponseSchemaDTO = Static<typeof PaymentResponseSchema>
 export type DecisionRequestSchemaDTO = Static<typeof DecisionRequestSchema>
 export type NotificationRequestSchemaDTO = Static<typeof NotificationRequestSchema>
+export type OrderSyncResponseSchemaDTO = Static<typeof OrderSyncResponseSchema>
+export type AuthorizationExpiryResponseSchemaDTO = Static<typeof AuthorizationExpiryResponseSchema>
+export type ReconciliationRequestSchemaDTO = Static<typeof ReconciliationRequestSchema>
+export type ReconciliationChangeDTO = Static<typeof ReconciliationChangeSchema>
+export type ReconciliationResponseSchemaDTO = Static<typeof ReconciliationResponseSchema>
+export type WebhookInboxEntryDTO = Static<typeof WebhookInboxEntrySchema>
+export type WebhookInboxQuerySchemaDTO = Static<typeof WebhookInboxQuerySchema>
+export type WebhookInboxListResponseSchemaDTO = Static<typeof WebhookInboxListResponseSchema>
+export type MerchantEventDTO = Static<typeof MerchantEventSchema>
+export type MerchantEventDeliveryDTO = Static<typeof MerchantEventDeliverySchema>
+export type MerchantEventDeliveryQuerySchemaDTO = Static<typeof MerchantEventDeliveryQuerySchema>
+export type MerchantEventDeliveryListResponseSchemaDTO = Static<typeof MerchantEventDeliveryListResponseSchema>
 
 export const ConfigResponseSchema = Type.Any()
@@ -0,0 +1,115 @@
+import { Static, Type } from '@sinclair/typebox'
+
+const MoneySchema = Type.Object({
+  centAmount: Type.Integer(),
+  currencyCode: Type.String(),
+})
+
+// Fields shared by Briqpay transactions, captures and refunds; email and phoneNumber are masked
+const briqpayEntryProperties = {
+  status: Type.String(),
+  amountIncVat: Type.Integer(),
+  amountExVat: Type.Optional(Type.Integer()),
+  currency: Type.String(),
+  createdAt: Type.Optional(Type.String()),
+  pspDisplayName: Type.Optional(Type.String()),
+  email: Type.Optional(Type.String()),
+  phoneNumber: Type.Optional(Type.String()),
+}
+
+export const PaymentInspectionSessionSchema = Type.Object({
+  transactions: Type.Array(
+    Type.Object({
+      transactionId: Type.String(),
+      expiresAt: Type.Optional(Type.String()),
+      ...briqpayEntryProperties,
+    }),
+  ),
+  captures: Type.Array(
+    Type.Object({
+      captureId: Type.String(),
+      parentTransactionId: Type.Optional(Type.String()),
+      ...briqpayEntryProperties,
+    }),
+  ),
+  refunds: Type.Array(
+    Type.Object({
+      refundId: Type.String(),
+      parentCaptureId: Type.Optional(Type.String()),
+      parentTransactionId: Type.Optional(Type.String()),
+      ...briqpayEntryProperties,
+    }),
+  ),
+  moduleStatus: Type.Optional(
+    Type.Object({
+      payment: Type.Optional(
+        Type.Object({
+          uiStatus: Type.Optional(Type.String()),
+          orderStatus: Type.Optional(Type.String()),
+          captureStatus: Type.Optional(Type.String()),
+          refundStatus: Type.Optional(Type.String()),
+        }),
+      ),
+      order_info: Type.Optional(Type.Object({ uiStatus: Type.Optional(Type.String()) })),
+    }),
+  ),
+})
+
+export const PaymentInspectionDiffSchema = Type.Object({
+  type: Type.Union([Type.Literal('Authorization'), Type.Literal('Charge'), Type.Literal('Refund')]),
+  // Briqpay session, capture or refund ID, and the interactionId of the matching CT transaction
+  interactionId: Type.String(),
+  // Absent when only CT has the transaction
+  briqpay: Type.Optional(
+    Type.Object({
+      status: Type.String(),
+      // The CT transaction state the Briqpay status maps to
+      state: Type.String(),
+      amount: MoneySchema,
+    }),
+  ),
+  // Absent when only Briqpay has the transaction
+  commercetools: Type.Optional(
+    Type.Object({
+      id: Type.String(),
+      state: Type.String(),
+      amount: MoneySchema,
+    }),
+  ),
+  inSync: Type.Boolean(),
+})
+
+/**
+ * Payment inspection response schema.
+ *
+ * Example:
+ * {
+ *   "paymentId": "<CT payment id>",
+ *   "briqpaySessionId": "<Briqpay session id>",
+ *   "session": {
+ *     "transactions": [{ "transactionId": "tx-1", "status": "approved", "amountIncVat": 10000, "currency": "EUR", "email": "j***@example.com" }],
+ *     "captures": [],
+ *     "refunds": [],
+ *     "moduleStatus": { "payment": { "orderStatus": "order_approved_not_captured" } }
+ *   },
+ *   "diff": [
+ *     {
+ *       "type": "Authorization",
+ *       "interactionId": "<Briqpay session id>",
+ *       "briqpay": { "status": "approved", "state": "Success", "amount": { "centAmount": 10000, "currencyCode": "EUR" } },
+ *       "commercetools": { "id": "<CT transaction id>", "state": "Pending", "amount": { "centAmount": 10000, "currencyCode": "EUR" } },
+ *       "inSync": false
+ *     }
+ *   ]
+ * }
+ */
+export const PaymentInspectionResponseSchema = Type.Object({
+  paymentId: Type.String(),
+  briqpaySessionId: Type.String(),
+  session: PaymentInspectionSessionSchema,
+  diff: Type.Array(PaymentInspectionDiffSchema),
+})
+
+export type PaymentInspectionSessionDTO = Static<typeof PaymentInspectionSessionSchema>
+export type PaymentInspectionDiffDTO = Static<typeof PaymentInspectionDiffSchema>
+export type PaymentInspectionResponseSchemaDTO = Static<typeof PaymentInspectionResponseSchema>
@@ -5,6 +5,11 @@ export const AmountSchema = Type.Object({
   currencyCode: Type.String(),
 })
 
+export const LineItemQuantitySchema = Type.Object({
+  id: Type.String(),
+  quantity: Type.Integer({ minimum: 1 }),
+})
+
 export const ActionCapturePaymentSchema = Type.Composite([
   Type.Object({
     action: Type.Literal('capturePayment'),
@@ -12,6 +17,8 @@ export const ActionCapturePaymentSchema = Type.Composite([
   Type.Object({
     amount: AmountSchema,
     merchantReference: Type.Optional(Type.String()),
+    // Restricts a partial capture to these CT line items; the whole cart is captured when omitted
+    lineItems: Type.Optional(Type.Array(LineItemQuantitySchema, { minItems: 1 })),
   }),
 ])
 
@@ -22,6 +29,8 @@ export const ActionRefundPaymentSchema = Type.Composite([
   Type.Object({
     amount: AmountSchema,
     merchantReference: Type.Optional(Type.String()),
+    // Refunds exactly these CT Order return items (`returnInfo[].items[].id`) instead of the whole basket
+    returnItemIds: Type.Optional(Type.Array(Type.String(), { minItems: 1 })),
   }),
 ])
 
@@ -50,7 +59,8 @@ export const ActionReversePaymentSchema = Type.Composite([
  *    "amount": {
  *      "centAmount": 100,
  *      "currencyCode": "EUR"
- *    }
+ *    },
+ *    "lineItems": [{ "id": "line-item-id", "quantity": 1 }]
  *  ]
  * }
  */
@@ -83,3 +93,4 @@ export const PaymentIntentResponseSchema = Type.Object({
 export type PaymentIntentRequestSchemaDTO = Static<typeof PaymentIntentRequestSchema>
 export type PaymentIntentResponseSchemaDTO = Static<typeof PaymentIntentResponseSchema>
 export type AmountSchemaDTO = Static<typeof AmountSchema>
+export type LineItemQuantitySchemaDTO = Static<typeof LineItemQuantitySchema>
@@ -0,0 +1,43 @@
+import { Static, Type } from '@sinclair/typebox'
+
+/**
+ * Payment resync response schema.
+ *
+ * Example:
+ * {
+ *   "paymentId": "<CT payment id>",
+ *   "briqpaySessionId": "<Briqpay session id>",
+ *   "replayed": [
+ *     { "event": "order_status", "status": "approved" },
+ *     { "event": "capture_status", "status": "approved", "captureId": "<Briqpay capture id>" }
+ *   ],
+ *   "transactions": [
+ *     { "id": "<CT transaction id>", "type": "Authorization", "state": "Success", "interactionId": "<Briqpay session id>", "amount": { "centAmount": 10000, "currencyCode": "EUR" } }
+ *   ]
+ * }
+ */
+export const PaymentResyncResponseSchema = Type.Object({
+  paymentId: Type.String(),
+  briqpaySessionId: Type.String(),
+  // Briqpay statuses replayed through the webhook handlers, in order
+  replayed: Type.Array(
+    Type.Object({
+      event: Type.String(),
+      status: Type.String(),
+      captureId: Type.Optional(Type.String()),
+      refundId: Type.Optional(Type.String()),
+    }),
+  ),
+  // CT transactions of the payment after the resync
+  transactions: Type.Array(
+    Type.Object({
+      id: Type.String(),
+      type: Type.String(),
+      state: Type.String(),
+      interactionId: Type.Optional(Type.String()),
+      amount: Type.Object({ centAmount: Type.Integer(), currencyCode: Type.String() }),
+    }),
+  ),
+})
+
+export type PaymentResyncResponseSchemaDTO = Static<typeof PaymentResyncResponseSchema>
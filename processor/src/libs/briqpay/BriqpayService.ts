@@ -1,6 +1,7 @@
-import { Address, Cart, LineItem } from '@commercetools/platform-sdk'
+import { Address, Cart, CustomLineItem, LineItem, Order, ShippingInfo } from '@commercetools/platform-sdk'
 import { apiRoot } from '../commercetools/api-root'
 import { BriqpayDecisionRequest, PaymentOutcome } from '../../dtos/briqpay-payment.dto'
+import { LineItemQuantitySchemaDTO } from '../../dtos/operations/payment-intents.dto'
 import {
   CartItem,
   CreateSessionRequestBody,
@@ -11,15 +12,20 @@ import {
   ITEM_PRODUCT_TYPE,
   MediumBriqpayResponse,
   MODULE_TYPE,
+  MODULE_UI_STATUS,
   ORDER_STATUS,
   PAYMENT_TOOLS_PRODUCT,
   RegularCartItem,
+  SalesTaxCartItem,
   SESSION_INTENT,
+  SESSION_STATUS,
   TRANSACTION_STATUS,
 } from '../../services/types/briqpay-payment.type'
 import { Money } from '@commercetools/connect-payments-sdk'
 import { PaymentAmount } from '@commercetools/connect-payments-sdk/dist/commercetools/types/payment.type'
 import { appLogger } from '../../payment-sdk'
+import { BriqpayHttpClient } from './briqpay-http-client'
+import { getConfig } from '../../config/config'
 
 const mapBriqpayProductType = (item: LineItem) => {
   // Check if the product has a digital-related attribute
@@ -35,13 +41,76 @@ const mapBriqpayProductType = (item: LineItem) => {
   return ITEM_PRODUCT_TYPE.PHYSICAL
 }
 
-const getLocalizedName = (item: LineItem, locale: string): string => {
+/**
+ * Maps a custom line item (e.g. gift wrapping, an engraving fee or a service charge) to a Briqpay
+ * product type: negative amounts are discounts, a slug mentioning "digital" is a digital product
+ * and anything else is a surcharge.
+ */
+const mapCustomLineItemProductType = (item: CustomLineItem) => {
+  if (item.money.centAmount < 0) return ITEM_PRODUCT_TYPE.DISCOUNT
+  if (item.slug.toLowerCase().includes('digital')) return ITEM_PRODUCT_TYPE.DIGITAL
+  return ITEM_PRODUCT_TYPE.SURCHARGE
+}
+
+const getLocalizedName = (item: LineItem | CustomLineItem, locale: string): string => {
   const nameRecord = item.name as Record<string, string> | undefined
   if (nameRecord) {
     const localizedName = nameRecord[locale] || nameRecord['en'] || Object.values(nameRecord)[0]
     if (localizedName) return localizedName
   }
-  return item.productKey ?? item.productId ?? 'Item'
+  return 'slug' in item ? item.slug : (item.productKey ?? item.productId ?? 'Item')
+}
+
+/**
+ * Unit and total prices before discounts, from `money` on a custom line item or `price.value` on a
+ * line item. A price entered net (a tax rate not included in the price, as with US sales tax) is
+ * grossed up; a gross price is split into net and VAT.
+ */
+const getOriginalPrices = (item: LineItem | CustomLineItem) => {
+  const unitPrice = 'money' in item ? item.money.centAmount : item.price.value.centAmount
+  const taxMultiplier = 1 + (item.taxRate?.amount ?? 0)
+  const total = unitPrice * item.quantity
+
+  if (item.taxRate?.includedInPrice === false) {
+    return {
+      unitGross: Math.round(unitPrice * taxMultiplier),
+      grossTotal: Math.round(total * taxMultiplier),
+      netTotal: total,
+    }
+  }
+  return { unitGross: unitPrice, grossTotal: total, netTotal: Math.round(total / taxMultiplier) }
+}
+
+const isHttpsUrl = (url: string): boolean => {
+  try {
+    return new URL(url).protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Picks the product thumbnail shown in the Briqpay checkout and on invoices: the variant image
+ * labelled BRIQPAY_LINE_ITEM_IMAGE_LABEL, falling back to the first variant image. URLs that are
+ * not absolute HTTPS URLs are left out, as Briqpay cannot render them.
+ */
+const getLineItemImageUrl = (item: LineItem): string | undefined => {
+  const { lineItemImagesEnabled, lineItemImageLabel } = getConfig()
+  if (lineItemImagesEnabled === false) {
+    return undefined
+  }
+
+  const images = item.variant?.images ?? []
+  const image = (lineItemImageLabel && images.find((img) => img.label === lineItemImageLabel)) || images[0]
+  if (!image) {
+    return undefined
+  }
+
+  if (!isHttpsUrl(image.url)) {
+    appLogger.warn({ sku: item.variant?.sku, imageUrl: image.url }, 'Skipping line item image without an HTTPS URL')
+    return undefined
+  }
+  return image.url
 }
 
 const createDiscountLineItem = (item: LineItem, localeName: string, taxRate: number): RegularCartItem => {
@@ -63,7 +132,7 @@ const createDiscountLineItem = (item: LineItem, localeName: string, taxRate: num
     taxRate,
     totalAmount: item.taxedPrice?.totalGross?.centAmount ?? grossUnit * quantity,
     totalVatAmount: item.taxedPrice?.totalTax?.centAmount ?? 0,
-    imageUrl: item.variant?.images?.[0]?.url,
+    imageUrl: getLineItemImageUrl(item),
   }
 }
 
@@ -73,12 +142,13 @@ const createDiscountLineItem = (item: LineItem, localeName: string, taxRate: num
  */
 const createRegularLineItem = (item: LineItem, localeName: string, taxRate: number): RegularCartItem => {
   const quantity = item.quantity
-  const taxRateAmount = item.taxRate?.amount ?? 0
 
   // Use ORIGINAL price (before discounts) for the line item
-  const originalUnitGross = item.price.value.centAmount
-  const originalGrossTotal = originalUnitGross * quantity
-  const originalNetTotal = Math.round(originalGrossTotal / (1 + taxRateAmount))
+  const {
+    unitGross: originalUnitGross,
+    grossTotal: originalGrossTotal,
+    netTotal: originalNetTotal,
+  } = getOriginalPrices(item)
   const originalVatTotal = originalGrossTotal - originalNetTotal
 
   return {
@@ -93,7 +163,34 @@ const createRegularLineItem = (item: LineItem, localeName: string, taxRate: numb
     discountPercentage: 0, // No percentage - discounts are separate line items
     totalAmount: originalGrossTotal,
     totalVatAmount: originalVatTotal,
-    imageUrl: item.variant?.images?.[0]?.url,
+    imageUrl: getLineItemImageUrl(item),
+  }
+}
+
+/**
+ * Creates a line for a custom line item using its ORIGINAL unit price and its own tax rate, like
+ * `createRegularLineItem`. Per-item discounts are added as separate discount lines.
+ */
+const createCustomLineItem = (item: CustomLineItem, localeName: string, taxRate: number): RegularCartItem => {
+  const quantity = item.quantity
+  const {
+    unitGross: originalUnitGross,
+    grossTotal: originalGrossTotal,
+    netTotal: originalNetTotal,
+  } = getOriginalPrices(item)
+
+  return {
+    productType: mapCustomLineItemProductType(item),
+    reference: item.slug,
+    name: localeName,
+    quantity,
+    quantityUnit: 'pc',
+    unitPrice: Math.round(originalNetTotal / quantity),
+    unitPriceIncVat: originalUnitGross,
+    taxRate,
+    discountPercentage: 0,
+    totalAmount: originalGrossTotal,
+    totalVatAmount: originalGrossTotal - originalNetTotal,
   }
 }
 
@@ -144,7 +241,7 @@ const fetchCartDiscountNames = async (discountIds: string[], locale: string): Pr
  * Uses the exact discount amount from CommerceTools to avoid percentage rounding issues.
  */
 const createItemDiscountLineItem = (
-  item: LineItem,
+  item: LineItem | CustomLineItem,
   localeName: string,
   taxRate: number,
   discountNameMap: Map<string, string>,
@@ -154,12 +251,10 @@ const createItemDiscountLineItem = (
     return null
   }
 
-  const quantity = item.quantity
   const taxRateAmount = item.taxRate?.amount ?? 0
 
   // Calculate original total (before discount)
-  const originalUnitGross = item.price.value.centAmount
-  const originalGrossTotal = originalUnitGross * quantity
+  const originalGrossTotal = getOriginalPrices(item).grossTotal
 
   // Get actual discounted total from CommerceTools (what customer actually pays)
   const actualGrossTotal = item.taxedPrice?.totalGross?.centAmount ?? originalGrossTotal
@@ -207,9 +302,9 @@ const createItemDiscountLineItem = (
 }
 
 /**
- * Collects all unique discount IDs from line items.
+ * Collects all unique discount IDs from line items and custom line items.
  */
-const collectDiscountIds = (lineItems: LineItem[]): string[] => {
+const collectDiscountIds = (lineItems: (LineItem | CustomLineItem)[]): string[] => {
   const discountIds = lineItems.flatMap((item) =>
     (item.discountedPricePerQuantity ?? []).flatMap((dpq) =>
       dpq.discountedPrice.includedDiscounts.map((d) => d.discount.id),
@@ -218,6 +313,82 @@ const collectDiscountIds = (lineItems: LineItem[]): string[] => {
   return [...new Set(discountIds)]
 }
 
+/**
+ * A gift card line redeems a gift card against the cart when its product type (ID or key) is in
+ * BRIQPAY_GIFT_CARD_REDEMPTION_PRODUCT_TYPES or its product key is in BRIQPAY_GIFT_CARD_REDEMPTION_KEYS;
+ * any other gift card line sells one.
+ */
+const isGiftCardRedemption = (item: LineItem): boolean => {
+  const { giftCardRedemptionProductTypes = [], giftCardRedemptionKeys = [] } = getConfig()
+  const productTypeKey = item.productType.obj?.key
+  return (
+    giftCardRedemptionProductTypes.includes(item.productType.id) ||
+    (!!productTypeKey && giftCardRedemptionProductTypes.includes(productTypeKey)) ||
+    (!!item.productKey && giftCardRedemptionKeys.includes(item.productKey))
+  )
+}
+
+// Gift card lines are sent at 0% VAT unless BRIQPAY_GIFT_CARD_VAT is `commercetools`
+const isVatExemptGiftCard = (item: LineItem): boolean =>
+  item.lineItemMode === 'GiftCard' && getConfig().giftCardVat !== 'commercetools'
+
+/**
+ * The tax commercetools calculated on the VAT-exempt gift card lines. These lines are sent with
+ * net equal to gross, so the tax is added back to the net amount of the order.
+ */
+const getExemptGiftCardTax = (lineItems: LineItem[]): number =>
+  lineItems.filter(isVatExemptGiftCard).reduce((acc, item) => acc + (item.taxedPrice?.totalTax?.centAmount ?? 0), 0)
+
+/**
+ * The net amount of the order as sent to Briqpay: commercetools' net total, with VAT-exempt gift
+ * card lines counted at their gross. Undefined while the cart has no taxed price.
+ */
+const getOrderNetTotal = (source: Cart | Order): number | undefined =>
+  source.taxedPrice?.totalNet && source.taxedPrice.totalNet.centAmount + getExemptGiftCardTax(source.lineItems)
+
+/**
+ * Creates a gift card line for the sale or redemption of a gift card, at its final total. Selling
+ * a gift card is the sale of a voucher rather than a discount, and is usually VAT-exempt: unless
+ * BRIQPAY_GIFT_CARD_VAT is `commercetools`, the line is sent at 0% VAT, its net equal to its gross.
+ */
+const createGiftCardLineItem = (item: LineItem, localeName: string, taxRate: number): RegularCartItem => {
+  const quantity = item.quantity
+  const vatExempt = isVatExemptGiftCard(item)
+  const totalGross = item.taxedPrice?.totalGross?.centAmount ?? item.price.value.centAmount * quantity
+  const totalVat = vatExempt ? 0 : (item.taxedPrice?.totalTax?.centAmount ?? 0)
+
+  return {
+    productType: ITEM_PRODUCT_TYPE.GIFT_CARD,
+    reference: item.variant?.sku ?? item.key ?? localeName,
+    name: localeName,
+    quantity,
+    quantityUnit: 'pc',
+    unitPrice: Math.round((totalGross - totalVat) / quantity),
+    unitPriceIncVat: Math.round(totalGross / quantity),
+    taxRate: vatExempt ? 0 : taxRate,
+    discountPercentage: 0,
+    totalAmount: totalGross,
+    totalVatAmount: totalVat,
+    imageUrl: isGiftCardRedemption(item) ? undefined : getLineItemImageUrl(item),
+  }
+}
+
+const createLineItem = (item: LineItem, localeName: string, taxRate: number): RegularCartItem => {
+  if (item.lineItemMode === 'GiftCard') {
+    return createGiftCardLineItem(item, localeName, taxRate)
+  }
+  return item.priceMode === 'Discounted'
+    ? createDiscountLineItem(item, localeName, taxRate)
+    : createRegularLineItem(item, localeName, taxRate)
+}
+
+const getLineItemLogMessage = (item: LineItem): string => {
+  if (item.lineItemMode === 'GiftCard') {
+    return isGiftCardRedemption(item) ? 'Created gift card redemption line item:' : 'Created gift card line item:'
+  }
+  return item.priceMode === 'Discounted' ? 'Created discount line item:' : 'Created regular line item:'
+}
+
 /**
  * Maps a single line item to cart items (main item + optional discount line).
  */
@@ -228,11 +399,10 @@ const mapSingleLineItem = (
 ): CartItem[] => {
   const localeName = getLocalizedName(item, fallbackLocale)
   const taxRate = Math.round((item.taxRate?.amount ?? 0) * 10000)
-  const isDiscountLine = item.lineItemMode === 'GiftCard' || item.priceMode === 'Discounted'
+  // Gift card and discounted lines are sent at their final total, without a separate discount line
+  const isFinalTotalLine = item.lineItemMode === 'GiftCard' || item.priceMode === 'Discounted'
 
-  const cartItem = isDiscountLine
-    ? createDiscountLineItem(item, localeName, taxRate)
-    : createRegularLineItem(item, localeName, taxRate)
+  const cartItem = createLineItem(item, localeName, taxRate)
 
   appLogger.info(
     {
@@ -242,12 +412,12 @@ const mapSingleLineItem = (
       hasDiscountedPricePerQuantity: (item.discountedPricePerQuantity?.length ?? 0) > 0,
       taxedPrice: item.taxedPrice,
     },
-    isDiscountLine ? 'Created discount line item:' : 'Created regular line item:',
+    getLineItemLogMessage(item),
   )
 
   const result: CartItem[] = [cartItem]
 
-  if (!isDiscountLine) {
+  if (!isFinalTotalLine) {
     const itemDiscountLine = createItemDiscountLineItem(item, localeName, taxRate, discountNameMap)
     if (itemDiscountLine) {
       appLogger.info(
@@ -266,10 +436,32 @@ const mapSingleLineItem = (
   return result
 }
 
-const mapBriqpayCartItem = async (lineItems: LineItem[], locale: string | undefined): Promise<CartItem[]> => {
+/**
+ * Maps a single custom line item to cart items (the item + optional per-item discount line).
+ */
+const mapSingleCustomLineItem = (
+  item: CustomLineItem,
+  fallbackLocale: string,
+  discountNameMap: Map<string, string>,
+): CartItem[] => {
+  const localeName = getLocalizedName(item, fallbackLocale)
+  const taxRate = Math.round((item.taxRate?.amount ?? 0) * 10000)
+  const cartItem = createCustomLineItem(item, localeName, taxRate)
+
+  appLogger.info({ ...cartItem, slug: item.slug, taxedPrice: item.taxedPrice }, 'Created custom line item:')
+
+  const itemDiscountLine = createItemDiscountLineItem(item, localeName, taxRate, discountNameMap)
+  return itemDiscountLine ? [cartItem, itemDiscountLine] : [cartItem]
+}
+
+const mapBriqpayCartItem = async (
+  lineItems: LineItem[],
+  locale: string | undefined,
+  customLineItems: CustomLineItem[] = [],
+): Promise<CartItem[]> => {
   const fallbackLocale = locale || 'en-GB'
 
-  const allDiscountIds = collectDiscountIds(lineItems)
+  const allDiscountIds = collectDiscountIds([...lineItems, ...customLineItems])
   const discountNameMap = await fetchCartDiscountNames(allDiscountIds, fallbackLocale)
 
   appLogger.info(
@@ -277,12 +469,336 @@ const mapBriqpayCartItem = async (lineItems: LineItem[], locale: string | undefi
     'Fetched cart discount names:',
   )
 
-  const mappedItems = lineItems.flatMap((item) => mapSingleLineItem(item, fallbackLocale, discountNameMap))
+  const mappedItems = [
+    ...lineItems.flatMap((item) => mapSingleLineItem(item, fallbackLocale, discountNameMap)),
+    ...customLineItems.flatMap((item) => mapSingleCustomLineItem(item, fallbackLocale, discountNameMap)),
+  ]
 
   appLogger.info(mappedItems, 'Final mapped items:')
   return mappedItems
 }
 
+/**
+ * The address Briqpay ships to. Carts in `shippingMode: Multiple` have no cart-level shipping
+ * address, so the address of their first shipping entry is used.
+ */
+const getShippingAddress = (source: Cart | Order): Address | undefined =>
+  source.shippingAddress ?? source.shipping?.[0]?.shippingAddress
+
+/**
+ * Sales-tax mode, for carts shipping to a country in BRIQPAY_SALES_TAX_COUNTRIES or using a tax mode
+ * in BRIQPAY_SALES_TAX_MODES: lines are sent net and the tax is sent as a single sales_tax line,
+ * rather than as VAT on every line.
+ */
+const isSalesTaxMode = (source: Cart | Order): boolean => {
+  const { salesTaxCountries = [], salesTaxModes = [] } = getConfig()
+  const country = getShippingAddress(source)?.country || source.country
+  return (
+    (!!country && salesTaxCountries.includes(country)) || (!!source.taxMode && salesTaxModes.includes(source.taxMode))
+  )
+}
+
+const toNetCartItem = (item: RegularCartItem): RegularCartItem => ({
+  ...item,
+  unitPriceIncVat: item.unitPrice,
+  taxRate: 0,
+  totalAmount: item.totalAmount - item.totalVatAmount,
+  totalVatAmount: 0,
+})
+
+/**
+ * Sends the mapped lines sales-tax style when the cart is in sales-tax mode: every line net at 0%,
+ * followed by one sales_tax line carrying the tax of exactly those lines, so a capture or refund that
+ * leaves out lines (shipping, unselected items) leaves out their tax too. Other carts are returned
+ * unchanged.
+ */
+const applySalesTaxMode = (cartItems: CartItem[], source: Cart | Order): CartItem[] => {
+  if (!isSalesTaxMode(source)) {
+    return cartItems
+  }
+
+  const salesTaxItem: SalesTaxCartItem = {
+    productType: ITEM_PRODUCT_TYPE.SALES_TAX,
+    reference: 'sales-tax',
+    name: 'Sales tax',
+    totalTaxAmount: cartItems.reduce((acc, item) => acc + ('unitPrice' in item ? item.totalVatAmount : 0), 0),
+  }
+  return [...cartItems.map((item) => ('unitPrice' in item ? toNetCartItem(item) : item)), salesTaxItem]
+}
+
+const scaleMoney = <T extends { centAmount: number }>(money: T, ratio: number): T => ({
+  ...money,
+  centAmount: Math.round(money.centAmount * ratio),
+})
+
+/**
+ * Returns a copy of the line item reduced to `quantity` units. Totals (including per-item
+ * discounts, which live in taxedPrice) are scaled pro rata so the mapped Briqpay lines match
+ * the portion being captured.
+ */
+const scaleLineItem = (item: LineItem, quantity: number): LineItem => {
+  if (quantity === item.quantity) {
+    return item
+  }
+
+  const ratio = quantity / item.quantity
+  return {
+    ...item,
+    quantity,
+    totalPrice: scaleMoney(item.totalPrice, ratio),
+    ...(item.taxedPrice && {
+      taxedPrice: {
+        ...item.taxedPrice,
+        totalNet: scaleMoney(item.taxedPrice.totalNet, ratio),
+        totalGross: scaleMoney(item.taxedPrice.totalGross, ratio),
+        ...(item.taxedPrice.totalTax && { totalTax: scaleMoney(item.taxedPrice.totalTax, ratio) }),
+      },
+    }),
+  }
+}
+
+/**
+ * Picks the selected line items from the cart, scaled to the selected quantities.
+ * Callers are expected to have validated the selection against the cart.
+ */
+const selectLineItems = (lineItems: LineItem[], selection: LineItemQuantitySchemaDTO[]): LineItem[] =>
+  selection.flatMap(({ id, quantity }) => {
+    const item = lineItems.find((lineItem) => lineItem.id === id)
+    return item ? [scaleLineItem(item, quantity)] : []
+  })
+
+// VAT-exempt gift card lines are sent with net equal to gross
+const getLineItemNetTotal = (item: LineItem): number => {
+  if (isVatExemptGiftCard(item)) {
+    return item.taxedPrice?.totalGross?.centAmount ?? item.totalPrice.centAmount
+  }
+  return (
+    item.taxedPrice?.totalNet?.centAmount ?? Math.round(item.totalPrice.centAmount / (1 + (item.taxRate?.amount ?? 0)))
+  )
+}
+
+type PartialModification = 'capture' | 'refund'
+
+/**
+ * Creates a cart line used for an amount-only partial capture or refund. When the amount is split
+ * across several tax rates, each line's reference and name carry its rate.
+ */
+const createPartialLineItem = (
+  modification: PartialModification,
+  amountIncVat: number,
+  amountExVat: number,
+  taxRate: number,
+  perTaxRate = false,
+): RegularCartItem => ({
+  productType: ITEM_PRODUCT_TYPE.PHYSICAL,
+  reference: `partial-${modification}${perTaxRate ? `-${Math.round(taxRate * 10000)}` : ''}`,
+  name: `${modification === 'capture' ? 'Partial capture' : 'Partial refund'}${perTaxRate ? ` (${Math.round(taxRate * 10000) / 100}% VAT)` : ''}`,
+  quantity: 1,
+  quantityUnit: 'pc',
+  unitPrice: amountExVat,
+  unitPriceIncVat: amountIncVat,
+  taxRate: Math.round(taxRate * 10000),
+  discountPercentage: 0,
+  totalAmount: amountIncVat,
+  totalVatAmount: amountIncVat - amountExVat,
+})
+
+/**
+ * The CT resource capture and refund payloads are built from: the Order linked to the payment,
+ * which reflects order edits, or the Cart while no order exists yet.
+ */
+export type BriqpayModificationSource = Cart | Order
+
+/**
+ * Builds an order containing only the selected lines, scaled to the selected quantities, so
+ * their discounted totals and tax carry over unchanged.
+ */
+const buildLineItemSelectionOrder = async (
+  source: BriqpayModificationSource,
+  amount: Omit<PaymentAmount, 'fractionDigits'>,
+  selection: LineItemQuantitySchemaDTO[],
+) => {
+  const selectedLineItems = selectLineItems(source.lineItems, selection)
+  return {
+    currency: amount.currencyCode,
+    amountIncVat: amount.centAmount,
+    amountExVat: selectedLineItems.reduce((acc, item) => acc + getLineItemNetTotal(item), 0),
+    cart: applySalesTaxMode(await mapBriqpayCartItem(selectedLineItems, source.locale), source),
+  }
+}
+
+/**
+ * The net amount sent with a capture or refund of the whole order, falling back to the line items'
+ * net totals and then to the amount itself when the order has no taxed price.
+ */
+const getFullOrderAmountExVat = (
+  source: BriqpayModificationSource,
+  amount: Omit<PaymentAmount, 'fractionDigits'>,
+): number =>
+  getOrderNetTotal(source) ??
+  (source.lineItems.reduce(
+    (acc, item) => acc + Number(item.taxedPrice?.totalNet?.centAmount || item.price.value.centAmount) * item.quantity,
+    0,
+  ) ||
+    amount.centAmount)
+
+const isPartialAmount = (source: BriqpayModificationSource, amount: Omit<PaymentAmount, 'fractionDigits'>): boolean =>
+  amount.centAmount < (source.taxedPrice?.totalGross?.centAmount ?? source.totalPrice.centAmount)
+
+export type BriqpayCaptureOptions = {
+  idempotencyKey?: string
+  lineItems?: LineItemQuantitySchemaDTO[]
+}
+
+export type BriqpayRefundOptions = {
+  idempotencyKey?: string
+  lineItems?: LineItemQuantitySchemaDTO[]
+}
+
+type ShippingFee = {
+  reference: string
+  name: string
+  discountReference: string
+  discountName: string
+  shippingInfo: ShippingInfo
+}
+
+/**
+ * The shipping fees of a cart: its `shippingInfo` in `shippingMode: Single`, or one fee per
+ * `shipping[]` entry, named after its shipping method, in `shippingMode: Multiple`.
+ */
+const getShippingFees = (source: Cart | Order): ShippingFee[] => {
+  if (source.shippingMode === 'Multiple') {
+    return (source.shipping ?? []).map(({ shippingKey, shippingInfo }) => ({
+      reference: `shippingfee-${shippingKey}`,
+      name: shippingInfo.shippingMethodName,
+      discountReference: `shipping-discount-${shippingKey}`,
+      discountName: `Shipping Discount: ${shippingInfo.shippingMethodName}`,
+      shippingInfo,
+    }))
+  }
+
+  return source.shippingInfo
+    ? [
+        {
+          reference: 'shippingfee',
+          name: 'Shipping fee',
+          discountReference: 'shipping-discount',
+          discountName: 'Shipping Discount',
+          shippingInfo: source.shippingInfo,
+        },
+      ]
+    : []
+}
+
+/**
+ * Creates the shipping fee line at its ORIGINAL price with the shipping's own tax rate, followed by
+ * a separate discount line when the shipping is discounted.
+ */
+const createShippingItems = (fee: ShippingFee, fallbackTaxRate: number): RegularCartItem[] => {
+  const { shippingInfo } = fee
+  const shippingTaxRateAmount = shippingInfo.taxRate?.amount ?? fallbackTaxRate
+  const taxMultiplier = 1 + shippingTaxRateAmount
+  const shippingTaxRate = Math.round(shippingTaxRateAmount * 10000)
+
+  // A shipping price entered net (tax not included, as with US sales tax) is grossed up
+  const pricedNet = shippingInfo.taxRate?.includedInPrice === false
+  const toGross = (centAmount: number) => (pricedNet ? Math.round(centAmount * taxMultiplier) : centAmount)
+
+  const originalShippingGross = toGross(shippingInfo.price.centAmount)
+  const originalShippingNet = pricedNet
+    ? shippingInfo.price.centAmount
+    : Math.round(originalShippingGross / taxMultiplier)
+
+  const shippingItem: RegularCartItem = {
+    productType: ITEM_PRODUCT_TYPE.SHIPPING_FEE,
+    reference: fee.reference,
+    name: fee.name,
+    quantity: 1,
+    quantityUnit: 'pc',
+    unitPrice: originalShippingNet,
+    unitPriceIncVat: originalShippingGross,
+    taxRate: shippingTaxRate,
+    discountPercentage: 0, // No percentage - discounts are separate line items
+    totalAmount: originalShippingGross,
+    totalVatAmount: originalShippingGross - originalShippingNet,
+  }
+
+  const discountedPrice = shippingInfo.discountedPrice && toGross(shippingInfo.discountedPrice.value.centAmount)
+  if (discountedPrice === undefined || discountedPrice >= originalShippingGross) {
+    return [shippingItem]
+  }
+
+  const shippingDiscountGross = originalShippingGross - discountedPrice
+  const shippingDiscountNet = Math.round(shippingDiscountGross / taxMultiplier)
+  const shippingDiscountVat = shippingDiscountGross - shippingDiscountNet
+
+  return [
+    shippingItem,
+    {
+      productType: ITEM_PRODUCT_TYPE.DISCOUNT,
+      reference: fee.discountReference,
+      name: fee.discountName,
+      quantity: 1,
+      quantityUnit: 'pc',
+      unitPrice: -shippingDiscountNet, // Negative for discount
+      unitPriceIncVat: -shippingDiscountGross, // Negative for discount
+      taxRate: shippingTaxRate,
+      discountPercentage: 0,
+      totalAmount: -shippingDiscountGross, // Negative for discount
+      totalVatAmount: -shippingDiscountVat, // Negative for discount
+      imageUrl: undefined,
+    },
+  ]
+}
+
+/**
+ * The gross total at each tax rate of the lines an order is made of: line items, custom line items
+ * and shipping. Undefined when a line has no tax rate, as the split cannot be known then.
+ */
+const getGrossByTaxRate = (source: Cart | Order): Map<number, number> | undefined => {
+  const lines = [
+    ...[...source.lineItems, ...(source.customLineItems ?? [])].map((item) => ({
+      taxRate: item.taxRate,
+      gross: item.taxedPrice?.totalGross?.centAmount ?? item.totalPrice.centAmount,
+    })),
+    ...getShippingFees(source).map(({ shippingInfo }) => ({
+      taxRate: shippingInfo.taxRate,
+      gross: shippingInfo.taxedPrice?.totalGross?.centAmount ?? shippingInfo.price.centAmount,
+    })),
+  ]
+  if (lines.some((line) => !line.taxRate)) {
+    return undefined
+  }
+
+  const grossByTaxRate = new Map<number, number>()
+  for (const { taxRate, gross } of lines) {
+    const rate = taxRate?.amount ?? 0
+    grossByTaxRate.set(rate, (grossByTaxRate.get(rate) ?? 0) + gross)
+  }
+  return grossByTaxRate
+}
+
+/**
+ * Splits an amount-only partial capture or refund across the order's tax rates, pro rata to the
+ * gross total at each rate, so a cart with mixed rates gets the right VAT. The last rate takes the
+ * rounding remainder.
+ */
+const splitAmountByTaxRate = (
+  amountIncVat: number,
+  grossByTaxRate: Map<number, number>,
+): { taxRate: number; amountIncVat: number }[] => {
+  const rates = [...grossByTaxRate].filter(([, gross]) => gross > 0)
+  const orderGross = rates.reduce((acc, [, gross]) => acc + gross, 0)
+
+  let remaining = amountIncVat
+  return rates.map(([taxRate, gross], index) => {
+    const share = index === rates.length - 1 ? remaining : Math.round((amountIncVat * gross) / orderGross)
+    remaining -= share
+    return { taxRate, amountIncVat: share }
+  })
+}
+
 const mapBriqpayAddress = (address: Address): IAddressSchema => ({
   companyName: address.company,
   streetAddress: address.streetName,
@@ -298,19 +814,28 @@ const mapBriqpayAddress = (address: Address): IAddressSchema => ({
 })
 
 class BriqpayService {
-  private username: string
-  private secret: string
-  private baseUrl: string
+  protected client: BriqpayHttpClient
 
   constructor(username: string, secret: string, baseUrl: string) {
-    this.username = username
-    this.secret = secret
-    this.baseUrl = baseUrl
+    this.client = new BriqpayHttpClient({ username, secret, baseUrl })
   }
 
+  /**
+   * Makes an authenticated call against the configured base URL. Briqpay has no dedicated health
+   * endpoint, so an unknown session is looked up: a 404 still proves Briqpay is reachable and
+   * accepted the credentials, while 401/403 and 5xx responses fail the check.
+   */
   async healthCheck() {
-    const response = await fetch('https://api.briqpay.com/')
-    if (!response.ok) {
+    const response = await this.client.request({
+      method: 'GET',
+      path: '/session/connector-health-check',
+      retryable: false,
+      timeoutMs: getConfig().healthCheckTimeout,
+    })
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`Briqpay rejected the configured credentials with status ${response.status}`)
+    }
+    if (response.status >= 500) {
       throw new Error(`Health check failed with status ${response.status}`)
     }
     return response
@@ -361,8 +886,9 @@ class BriqpayService {
     return undefined
   }
 
-  private async getEffectiveTaxRate(ctCart: Cart): Promise<number> {
-    const country = ctCart.shippingAddress?.country || ctCart.country
+  private async getEffectiveTaxRate(ctCart: Cart | Order): Promise<number> {
+    const shippingAddress = getShippingAddress(ctCart)
+    const country = shippingAddress?.country || ctCart.country
 
     // Try to get tax rate from line items first
     if (ctCart.lineItems && ctCart.lineItems.length > 0) {
@@ -372,7 +898,7 @@ class BriqpayService {
       }
 
       if (firstItem.productId && country) {
-        const rate = await this.getTaxRateFromProduct(firstItem.productId, country, ctCart.shippingAddress?.state)
+        const rate = await this.getTaxRateFromProduct(firstItem.productId, country, shippingAddress?.state)
         if (rate !== undefined) {
           return rate
         }
@@ -380,8 +906,10 @@ class BriqpayService {
     }
 
     // Fallback to shipping tax rate
-    if (ctCart.shippingInfo?.taxRate?.amount) {
-      return ctCart.shippingInfo.taxRate.amount
+    const shippingTaxRate = getShippingFees(ctCart).find((fee) => fee.shippingInfo.taxRate?.amount)?.shippingInfo
+      .taxRate
+    if (shippingTaxRate) {
+      return shippingTaxRate.amount
     }
 
     const errorMessage = `Could not determine effective tax rate for cart ${ctCart.id}. Country: ${country}`
@@ -389,6 +917,38 @@ class BriqpayService {
     throw new Error(errorMessage)
   }
 
+  /**
+   * Opt-in hooks recorded on the cart: session completion (BRIQPAY_SESSION_STATUS_HOOK) and
+   * the UI status of the modules a consumer passes through (BRIQPAY_MODULE_UI_STATUS_HOOK).
+   */
+  private getSessionStatusHooks(hookUrl: string): Hooks {
+    const { sessionStatusHookEnabled, moduleUiStatusHookEnabled } = getConfig()
+    const hooks: Hooks = []
+
+    if (sessionStatusHookEnabled) {
+      hooks.push({
+        eventType: EVENT_HOOK.SESSION_STATUS,
+        statuses: [SESSION_STATUS.COMPLETED],
+        method: 'POST',
+        url: hookUrl,
+      })
+    }
+
+    if (moduleUiStatusHookEnabled) {
+      for (const module of [MODULE_TYPE.BILLING, MODULE_TYPE.SHIPPING, MODULE_TYPE.PAYMENT] as const) {
+        hooks.push({
+          eventType: EVENT_HOOK.MODULE_UI_STATUS,
+          module,
+          statuses: Object.values(MODULE_UI_STATUS),
+          method: 'POST',
+          url: hookUrl,
+        })
+      }
+    }
+
+    return hooks
+  }
+
   private async generateSessionRequestBody(
     ctCart: Cart,
     amountPlanned: PaymentAmount,
@@ -397,7 +957,7 @@ class BriqpayService {
   ): Promise<CreateSessionRequestBody> {
     const effectiveTaxRate = await this.getEffectiveTaxRate(ctCart)
     const taxMultiplier = 1 + effectiveTaxRate
-    const cartItems = await mapBriqpayCartItem(ctCart.lineItems, ctCart.locale)
+    const cartItems = await mapBriqpayCartItem(ctCart.lineItems, ctCart.locale, ctCart.customLineItems)
 
     return {
       product: {
@@ -438,6 +998,7 @@ class BriqpayService {
           method: 'POST',
           url: hookUrl,
         },
+        ...this.getSessionStatusHooks(hookUrl),
         ...(process.env.BRIQPAY_EXTERNAL_WEBHOOK_URL
           ? ([
               {
@@ -467,13 +1028,16 @@ class BriqpayService {
       },
       data: {
         ...(ctCart.billingAddress && { billing: mapBriqpayAddress(ctCart.billingAddress) }),
-        ...((ctCart.billingAddress || ctCart.shippingAddress) && {
-          shipping: mapBriqpayAddress(ctCart.shippingAddress! || ctCart.billingAddress!),
+        ...((ctCart.billingAddress || getShippingAddress(ctCart)) && {
+          shipping: mapBriqpayAddress(getShippingAddress(ctCart) || ctCart.billingAddress!),
+        }),
+        ...(ctCart.shippingMode === 'Multiple' && {
+          shippingAddresses: ctCart.shipping.map(({ shippingAddress }) => mapBriqpayAddress(shippingAddress)),
         }),
         order: {
           currency: ctCart.totalPrice.currencyCode,
           amountIncVat: amountPlanned.centAmount,
-          amountExVat: ctCart.taxedPrice?.totalNet?.centAmount ?? Math.round(amountPlanned.centAmount / taxMultiplier),
+          amountExVat: getOrderNetTotal(ctCart) ?? Math.round(amountPlanned.centAmount / taxMultiplier),
           cart: cartItems,
         },
       },
@@ -539,70 +1103,16 @@ class BriqpayService {
   }
 
   private async addShippingItem(briqpayCreateSession: CreateSessionRequestBody, ctCart: Cart): Promise<void> {
-    if (!briqpayCreateSession.data?.order?.cart || !ctCart.shippingInfo?.price) {
+    const shippingFees = getShippingFees(ctCart).filter((fee) => fee.shippingInfo.price)
+    if (!briqpayCreateSession.data?.order?.cart || shippingFees.length === 0) {
       return
     }
 
-    const shippingPrice = ctCart.shippingInfo.price
     const effectiveTaxRate = await this.getEffectiveTaxRate(ctCart)
-    const shippingTaxRateAmount = ctCart.shippingInfo.taxRate?.amount ?? effectiveTaxRate
-    const taxMultiplier = 1 + shippingTaxRateAmount
-    const shippingTaxRate = Math.round(shippingTaxRateAmount * 10000)
-
-    // Always use ORIGINAL shipping price (before discounts)
-    const originalShippingGross = shippingPrice.centAmount
-    const originalShippingNet = Math.round(originalShippingGross / taxMultiplier)
-
-    // Add shipping item at original price
-    const shippingItem: RegularCartItem = {
-      productType: ITEM_PRODUCT_TYPE.SHIPPING_FEE,
-      reference: 'shippingfee',
-      name: 'Shipping fee',
-      quantity: 1,
-      quantityUnit: 'pc',
-      unitPrice: originalShippingNet,
-      unitPriceIncVat: originalShippingGross,
-      taxRate: shippingTaxRate,
-      discountPercentage: 0, // No percentage - discounts are separate line items
-      totalAmount: originalShippingGross,
-      totalVatAmount: originalShippingGross - originalShippingNet,
-    }
-
-    briqpayCreateSession.data.order.cart.push(shippingItem)
-    appLogger.info({ shippingItem }, 'Added shipping fee item:')
-
-    // If shipping has a discount, add a separate discount line item
-    const discountedPrice = ctCart.shippingInfo.discountedPrice?.value.centAmount
-    if (discountedPrice !== undefined && discountedPrice < originalShippingGross) {
-      const shippingDiscountGross = originalShippingGross - discountedPrice
-      const shippingDiscountNet = Math.round(shippingDiscountGross / taxMultiplier)
-      const shippingDiscountVat = shippingDiscountGross - shippingDiscountNet
-
-      const shippingDiscountItem: RegularCartItem = {
-        productType: ITEM_PRODUCT_TYPE.DISCOUNT,
-        reference: 'shipping-discount',
-        name: 'Shipping Discount',
-        quantity: 1,
-        quantityUnit: 'pc',
-        unitPrice: -shippingDiscountNet, // Negative for discount
-        unitPriceIncVat: -shippingDiscountGross, // Negative for discount
-        taxRate: shippingTaxRate,
-        discountPercentage: 0,
-        totalAmount: -shippingDiscountGross, // Negative for discount
-        totalVatAmount: -shippingDiscountVat, // Negative for discount
-        imageUrl: undefined,
-      }
-
-      briqpayCreateSession.data.order.cart.push(shippingDiscountItem)
-      appLogger.info(
-        {
-          shippingDiscountItem,
-          originalShippingGross,
-          discountedPrice,
-          discountAmount: shippingDiscountGross,
-        },
-        'Added shipping discount line item:',
-      )
+    for (const fee of shippingFees) {
+      const shippingItems = createShippingItems(fee, effectiveTaxRate)
+      briqpayCreateSession.data.order.cart.push(...shippingItems)
+      appLogger.info({ shippingItems }, 'Added shipping fee item:')
     }
   }
 
@@ -683,6 +1193,9 @@ class BriqpayService {
 
     await this.addDiscountItem(briqpayCreateSession, ctCart)
     await this.addShippingItem(briqpayCreateSession, ctCart)
+    if (briqpayCreateSession.data?.order?.cart) {
+      briqpayCreateSession.data.order.cart = applySalesTaxMode(briqpayCreateSession.data.order.cart, ctCart)
+    }
     this.logFinalAmounts(briqpayCreateSession)
 
     appLogger.info(
@@ -692,13 +1205,10 @@ class BriqpayService {
       'Final Briqpay session request prepared',
     )
 
-    const response = await fetch(`${this.baseUrl}/session`, {
+    const response = await this.client.request({
       method: 'POST',
-      headers: {
-        Authorization: `Basic ${btoa(this.username + ':' + this.secret)}`,
-        'content-type': 'application/json',
-      },
-      body: JSON.stringify(briqpayCreateSession),
+      path: '/session',
+      body: briqpayCreateSession,
     })
 
     if (!response.ok) {
@@ -726,109 +1236,169 @@ class BriqpayService {
     return responseData
   }
 
+  /**
+   * Builds the order for an amount below the order total. An order with a single tax rate gets one
+   * line split into net and VAT using the effective tax rate; an order with mixed rates gets one line
+   * per rate, each carrying its share of the amount.
+   */
+  private async buildPartialOrder(
+    source: BriqpayModificationSource,
+    amount: Omit<PaymentAmount, 'fractionDigits'>,
+    modification: PartialModification,
+  ) {
+    const grossByTaxRate = getGrossByTaxRate(source)
+    const shares =
+      grossByTaxRate && grossByTaxRate.size > 1
+        ? splitAmountByTaxRate(amount.centAmount, grossByTaxRate)
+        : [{ taxRate: await this.getEffectiveTaxRate(source), amountIncVat: amount.centAmount }]
+
+    const cart = shares.map(({ taxRate, amountIncVat }) =>
+      createPartialLineItem(
+        modification,
+        amountIncVat,
+        Math.round(amountIncVat / (1 + taxRate)),
+        taxRate,
+        shares.length > 1,
+      ),
+    )
+    return {
+      currency: amount.currencyCode,
+      amountIncVat: amount.centAmount,
+      amountExVat: cart.reduce((acc, item) => acc + item.unitPrice, 0),
+      cart: applySalesTaxMode(cart, source),
+    }
+  }
+
+  /**
+   * Builds the order sent with a capture. A line-item selection captures exactly those lines;
+   * an amount below the order total without a selection is sent as a single partial-capture line
+   * so the Briqpay cart always adds up to the captured amount. The whole order is sent with the
+   * session's lines, shipping and order discount included.
+   */
+  private async buildCaptureOrder(
+    source: BriqpayModificationSource,
+    amount: Omit<PaymentAmount, 'fractionDigits'>,
+    lineItems?: LineItemQuantitySchemaDTO[],
+  ) {
+    if (lineItems?.length) {
+      return buildLineItemSelectionOrder(source, amount, lineItems)
+    }
+
+    if (isPartialAmount(source, amount)) {
+      return this.buildPartialOrder(source, amount, 'capture')
+    }
+
+    return {
+      currency: amount.currencyCode,
+      amountIncVat: amount.centAmount,
+      amountExVat: getFullOrderAmountExVat(source, amount),
+      cart: applySalesTaxMode(await this.buildOrderCart(source), source),
+    }
+  }
+
   async capture(
-    ctCart: Cart,
-    amountPlanned: Omit<PaymentAmount, 'fractionDigits'>,
+    source: BriqpayModificationSource,
+    amount: Omit<PaymentAmount, 'fractionDigits'>,
     sessionId: string,
+    options: BriqpayCaptureOptions = {},
   ): Promise<{ captureId: string; status: PaymentOutcome } & Record<string, unknown>> {
-    const cartItems = await mapBriqpayCartItem(ctCart.lineItems, ctCart.locale)
     const briqpayCaptureRequest: Pick<CreateSessionRequestBody, 'data'> = {
       data: {
-        order: {
-          currency: amountPlanned.currencyCode,
-          amountIncVat: amountPlanned.centAmount,
-          amountExVat:
-            ctCart.taxedPrice?.totalNet?.centAmount ??
-            (ctCart.lineItems.reduce(
-              (acc, item) =>
-                acc + Number(item.taxedPrice?.totalNet?.centAmount || item.price.value.centAmount) * item.quantity,
-              0,
-            ) ||
-              amountPlanned.centAmount),
-          cart: cartItems,
-        },
+        order: await this.buildCaptureOrder(source, amount, options.lineItems),
         // Temporary cast
       } as unknown as Record<string, string | number>,
     }
-    return fetch(`${this.baseUrl}/session/${sessionId}/order/capture`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Basic ${btoa(this.username + ':' + this.secret)}`,
-        'content-type': 'application/json',
-      },
-      body: JSON.stringify(briqpayCaptureRequest),
-    }).then(async (res) => {
-      if (!res.ok) {
-        const errorText = await res.text()
-        appLogger.error(
-          {
-            status: res.status,
-            data: errorText,
-          },
-          'Briqpay capture error details:',
-        )
-        throw new Error(`Briqpay capture error: ${errorText}`)
-      }
-      return res.json()
-    })
+    return this.client
+      .request({
+        method: 'POST',
+        path: `/session/${sessionId}/order/capture`,
+        body: briqpayCaptureRequest,
+        idempotencyKey: options.idempotencyKey,
+      })
+      .then(async (res) => {
+        if (!res.ok) {
+          const errorText = await res.text()
+          appLogger.error(
+            {
+              status: res.status,
+              data: errorText,
+            },
+            'Briqpay capture error details:',
+          )
+          throw new Error(`Briqpay capture error: ${errorText}`)
+        }
+        return res.json()
+      })
+  }
+
+  /**
+   * Builds the order sent with a refund. A line-item selection (e.g. the items of a CT return)
+   * refunds exactly those lines; refunding less than the order total otherwise sends a single
+   * partial-refund line so the Briqpay cart adds up to the refunded amount. The whole order is
+   * sent with the session's lines, shipping and order discount included.
+   */
+  private async buildRefundOrder(
+    source: BriqpayModificationSource,
+    amount: Omit<PaymentAmount, 'fractionDigits'>,
+    options: BriqpayRefundOptions,
+  ) {
+    if (options.lineItems?.length) {
+      return buildLineItemSelectionOrder(source, amount, options.lineItems)
+    }
+
+    if (isPartialAmount(source, amount)) {
+      return this.buildPartialOrder(source, amount, 'refund')
+    }
+
+    return {
+      currency: source.totalPrice.currencyCode,
+      amountIncVat: amount.centAmount,
+      amountExVat: getFullOrderAmountExVat(source, amount),
+      cart: applySalesTaxMode(await this.buildOrderCart(source), source),
+    }
   }
 
   async refund(
-    ctCart: Cart,
-    amountPlanned: Omit<PaymentAmount, 'fractionDigits'>,
+    source: BriqpayModificationSource,
+    amount: Omit<PaymentAmount, 'fractionDigits'>,
     sessionId: string,
     captureId?: string,
+    options: BriqpayRefundOptions = {},
   ): Promise<{ refundId: string; status: PaymentOutcome } & Record<string, unknown>> {
-    const cartItems = await mapBriqpayCartItem(ctCart.lineItems, ctCart.locale)
     const briqpayRefundRequest: Pick<CreateSessionRequestBody, 'data'> & { captureId?: string } = {
       ...(captureId && { captureId }),
       data: {
-        order: {
-          currency: ctCart.totalPrice.currencyCode,
-          amountIncVat: amountPlanned.centAmount,
-          amountExVat:
-            ctCart.taxedPrice?.totalNet?.centAmount ??
-            (ctCart.lineItems.reduce(
-              (acc, item) =>
-                acc + Number(item.taxedPrice?.totalNet?.centAmount || item.price.value.centAmount) * item.quantity,
-              0,
-            ) ||
-              amountPlanned.centAmount),
-          cart: cartItems,
-        },
-      },
+        order: await this.buildRefundOrder(source, amount, options),
+      } as unknown as Record<string, string | number>,
     }
-    return fetch(`${this.baseUrl}/session/${sessionId}/order/refund`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Basic ${btoa(this.username + ':' + this.secret)}`,
-        'content-type': 'application/json',
-      },
-      body: JSON.stringify(briqpayRefundRequest),
-    }).then(async (res) => {
-      if (!res.ok) {
-        const errorText = await res.text()
-        appLogger.error(
-          {
-            status: res.status,
-            data: errorText,
-          },
-          'Briqpay refund error details:',
-        )
-        throw new Error(`Briqpay refund error: ${errorText}`)
-      }
-      return res.json()
-    })
+    return this.client
+      .request({
+        method: 'POST',
+        path: `/session/${sessionId}/order/refund`,
+        body: briqpayRefundRequest,
+        idempotencyKey: options.idempotencyKey,
+      })
+      .then(async (res) => {
+        if (!res.ok) {
+          const errorText = await res.text()
+          appLogger.error(
+            {
+              status: res.status,
+              data: errorText,
+            },
+            'Briqpay refund error details:',
+          )
+          throw new Error(`Briqpay refund error: ${errorText}`)
+        }
+        return res.json()
+      })
   }
 
   makeDecision(sessionId: string, decisionRequest: BriqpayDecisionRequest) {
-    return fetch(`${this.baseUrl}/session/${sessionId}/decision`, {
+    return this.client.request({
       method: 'POST',
-      headers: {
-        Authorization: `Basic ${btoa(this.username + ':' + this.secret)}`,
-        'content-type': 'application/json',
-      },
-      body: JSON.stringify(decisionRequest),
+      path: `/session/${sessionId}/decision`,
+      body: decisionRequest,
     })
   }
 
@@ -844,48 +1414,42 @@ class BriqpayService {
     // Fetch moduleStatus, captures, and refunds to get actual status from Briqpay
     // This is critical for security until HMAC webhook validation is implemented
     // Request both 'snippet' and 'htmlSnippet' field names to handle API naming inconsistency
-    return fetch(
-      `${this.baseUrl}/session/${sessionId}?fields=data,snippet,htmlSnippet,sessionId,moduleStatus,captures,refunds`,
-      {
+    return this.client
+      .request({
         method: 'GET',
-        headers: {
-          Authorization: `Basic ${btoa(this.username + ':' + this.secret)}`,
-          'content-type': 'application/json',
-        },
-      },
-    ).then(async (response) => {
-      if (!response.ok) {
-        const errorText = await response.text()
-        appLogger.error(
-          {
-            status: response.status,
-            data: errorText,
-          },
-          'Briqpay API error details:',
+        path: `/session/${sessionId}?fields=data,snippet,htmlSnippet,sessionId,moduleStatus,captures,refunds`,
+      })
+      .then(async (response) => {
+        if (!response.ok) {
+          const errorText = await response.text()
+          appLogger.error(
+            {
+              status: response.status,
+              data: errorText,
+            },
+            'Briqpay API error details:',
+          )
+          throw new Error(`Briqpay API error: ${errorText}`)
+        }
+        const json = await response.json()
+        // Briqpay's GET /session may return the HTML snippet as 'snippet' instead of 'htmlSnippet'.
+        // Normalize to 'htmlSnippet' to match our MediumBriqpayResponse type and createSession response.
+        if (!json.htmlSnippet && json.snippet) {
+          json.htmlSnippet = json.snippet
+        }
+        appLogger.info(
+          { sessionId, hasHtmlSnippet: !!json.htmlSnippet, hasSnippet: !!json.snippet },
+          'getSession response snippet check',
         )
-        throw new Error(`Briqpay API error: ${errorText}`)
-      }
-      const json = await response.json()
-      // Briqpay's GET /session may return the HTML snippet as 'snippet' instead of 'htmlSnippet'.
-      // Normalize to 'htmlSnippet' to match our MediumBriqpayResponse type and createSession response.
-      if (!json.htmlSnippet && json.snippet) {
-        json.htmlSnippet = json.snippet
-      }
-      appLogger.info(
-        { sessionId, hasHtmlSnippet: !!json.htmlSnippet, hasSnippet: !!json.snippet },
-        'getSession response snippet check',
-      )
-      return json
-    })
+        return json
+      })
   }
 
-  async cancel(sessionId: string): Promise<{ status: PaymentOutcome }> {
-    const response = await fetch(`${this.baseUrl}/session/${sessionId}/order/cancel`, {
+  async cancel(sessionId: string, idempotencyKey?: string): Promise<{ status: PaymentOutcome }> {
+    const response = await this.client.request({
       method: 'POST',
-      headers: {
-        Authorization: `Basic ${btoa(this.username + ':' + this.secret)}`,
-        'content-type': 'application/json',
-      },
+      path: `/session/${sessionId}/order/cancel`,
+      idempotencyKey,
     })
 
     if (!response.ok) {
@@ -904,71 +1468,29 @@ class BriqpayService {
     return { status: PaymentOutcome.APPROVED }
   }
 
-  private async addShippingItemToCart(cartItems: CartItem[], cart: Cart): Promise<void> {
-    if (!cart.shippingInfo || !cart.shippingInfo.price) {
+  /**
+   * The lines of the whole order, as sent with a session update and with a capture or refund of the
+   * whole order: its line items and custom line items, the order-level discount and the shipping fees,
+   * so the lines add up to the order total.
+   */
+  private async buildOrderCart(source: BriqpayModificationSource): Promise<CartItem[]> {
+    const cartItems = await mapBriqpayCartItem(source.lineItems, source.locale, source.customLineItems)
+    await this.addDiscountItemToCart(cartItems, source)
+    await this.addShippingItemToCart(cartItems, source)
+    return cartItems
+  }
+
+  private async addShippingItemToCart(cartItems: CartItem[], cart: BriqpayModificationSource): Promise<void> {
+    const shippingFees = getShippingFees(cart).filter((fee) => fee.shippingInfo.price)
+    if (shippingFees.length === 0) {
       return
     }
 
-    const shippingPrice = cart.shippingInfo.price
     const effectiveTaxRate = await this.getEffectiveTaxRate(cart)
-    const shippingTaxRateAmount = cart.shippingInfo.taxRate?.amount ?? effectiveTaxRate
-    const taxMultiplier = 1 + shippingTaxRateAmount
-    const shippingTaxRate = Math.round(shippingTaxRateAmount * 10000)
-
-    // Always use ORIGINAL shipping price (before discounts)
-    const originalShippingGross = shippingPrice.centAmount
-    const originalShippingNet = Math.round(originalShippingGross / taxMultiplier)
-
-    // Add shipping item at original price
-    const shippingItem: RegularCartItem = {
-      productType: ITEM_PRODUCT_TYPE.SHIPPING_FEE,
-      reference: 'shippingfee',
-      name: 'Shipping fee',
-      quantity: 1,
-      quantityUnit: 'pc',
-      unitPrice: originalShippingNet,
-      unitPriceIncVat: originalShippingGross,
-      taxRate: shippingTaxRate,
-      discountPercentage: 0, // No percentage - discounts are separate line items
-      totalAmount: originalShippingGross,
-      totalVatAmount: originalShippingGross - originalShippingNet,
-    }
-
-    cartItems.push(shippingItem)
-    appLogger.info({ shippingItem }, 'Added shipping fee item to update session:')
-
-    // If shipping has a discount, add a separate discount line item
-    const discountedPrice = cart.shippingInfo.discountedPrice?.value.centAmount
-    if (discountedPrice !== undefined && discountedPrice < originalShippingGross) {
-      const shippingDiscountGross = originalShippingGross - discountedPrice
-      const shippingDiscountNet = Math.round(shippingDiscountGross / taxMultiplier)
-      const shippingDiscountVat = shippingDiscountGross - shippingDiscountNet
-
-      const shippingDiscountItem: RegularCartItem = {
-        productType: ITEM_PRODUCT_TYPE.DISCOUNT,
-        reference: 'shipping-discount',
-        name: 'Shipping Discount',
-        quantity: 1,
-        quantityUnit: 'pc',
-        unitPrice: -shippingDiscountNet, // Negative for discount
-        unitPriceIncVat: -shippingDiscountGross, // Negative for discount
-        taxRate: shippingTaxRate,
-        discountPercentage: 0,
-        totalAmount: -shippingDiscountGross, // Negative for discount
-        totalVatAmount: -shippingDiscountVat, // Negative for discount
-        imageUrl: undefined,
-      }
-
-      cartItems.push(shippingDiscountItem)
-      appLogger.info(
-        {
-          shippingDiscountItem,
-          originalShippingGross,
-          discountedPrice,
-          discountAmount: shippingDiscountGross,
-        },
-        'Added shipping discount line item to update session:',
-      )
+    for (const fee of shippingFees) {
+      const shippingItems = createShippingItems(fee, effectiveTaxRate)
+      cartItems.push(...shippingItems)
+      appLogger.info({ shippingItems }, 'Added shipping fee item to update session:')
     }
   }
 
@@ -976,7 +1498,7 @@ class BriqpayService {
    * Adds discount item to cart items array for session updates.
    * CT discount amounts are negative, we negate them to make Briqpay see a positive discount.
    */
-  private async addDiscountItemToCart(cartItems: CartItem[], cart: Cart): Promise<void> {
+  private async addDiscountItemToCart(cartItems: CartItem[], cart: BriqpayModificationSource): Promise<void> {
     if (!cart.discountOnTotalPrice?.discountedNetAmount) {
       return
     }
@@ -1030,11 +1552,13 @@ class BriqpayService {
     cartItems.push(discountItem)
   }
 
-  public async updateSession(sessionId: string, cart: Cart, amount: Money): Promise<MediumBriqpayResponse> {
+  public async updateSession(
+    sessionId: string,
+    cart: BriqpayModificationSource,
+    amount: Money,
+  ): Promise<MediumBriqpayResponse> {
     try {
-      const cartItems = await mapBriqpayCartItem(cart.lineItems, cart.locale)
-      await this.addDiscountItemToCart(cartItems, cart)
-      await this.addShippingItemToCart(cartItems, cart)
+      const cartItems = await this.buildOrderCart(cart)
 
       // Get highest possible original value fallback without assuming matching rounding
       const fallbackAmountExVat = Math.round(amount.centAmount / (1 + (await this.getEffectiveTaxRate(cart))))
@@ -1044,25 +1568,27 @@ class BriqpayService {
           order: {
             currency: amount.currencyCode,
             amountIncVat: amount.centAmount,
-            amountExVat: cart.taxedPrice?.totalNet?.centAmount ?? fallbackAmountExVat,
-            cart: cartItems,
+            amountExVat: getOrderNetTotal(cart) ?? fallbackAmountExVat,
+            cart: applySalesTaxMode(cartItems, cart),
           },
           ...(cart.billingAddress && { billing: mapBriqpayAddress(cart.billingAddress) }),
-          ...((cart.billingAddress || cart.shippingAddress) && {
-            shipping: mapBriqpayAddress(cart.shippingAddress! || cart.billingAddress!),
+          ...((cart.billingAddress || getShippingAddress(cart)) && {
+            shipping: mapBriqpayAddress(getShippingAddress(cart) || cart.billingAddress!),
+          }),
+          ...(cart.shippingMode === 'Multiple' && {
+            shippingAddresses: cart.shipping.map(({ shippingAddress }) => mapBriqpayAddress(shippingAddress)),
           }),
         },
       }
 
       appLogger.info({}, 'Updating Briqpay session')
 
-      const response = await fetch(`${this.baseUrl}/session/${sessionId}`, {
+      // The PATCH replaces the full order state, so replaying it after a 5xx is safe
+      const response = await this.client.request({
         method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Basic ${btoa(this.username + ':' + this.secret)}`,
-        },
-        body: JSON.stringify(data),
+        path: `/session/${sessionId}`,
+        body: data,
+        retryable: true,
       })
 
       if (!response.ok) {
@@ -1130,10 +1656,8 @@ class LazyBriqpayService extends BriqpayService {
       )
     }
 
-    // Overwrite the fields inherited from BriqpayService
-    ;(this as any).username = username
-    ;(this as any).secret = secret
-    ;(this as any).baseUrl = baseUrl
+    // Overwrite the client inherited from BriqpayService
+    this.client = new BriqpayHttpClient({ username, secret, baseUrl })
     this._initialised = true
   }
 
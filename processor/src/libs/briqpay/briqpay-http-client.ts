@@ -0,0 +1,249 @@
+/**
+ * Shared HTTP transport for every call the connector makes to the Briqpay API.
+ *
+ * Centralises Basic auth, per-call timeouts, bounded retries with backoff + jitter for
+ * idempotent calls, and a process-wide circuit breaker so a degraded Briqpay fails fast
+ * instead of hanging /config and the webhook handler.
+ */
+import { config } from '../../config/config'
+import { appLogger } from '../../payment-sdk'
+import { UpstreamError } from '../errors/briqpay-errors'
+
+export type BriqpayCredentials = {
+  username: string
+  secret: string
+  baseUrl: string
+}
+
+export type BriqpayHttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE'
+
+export type BriqpayRequestOptions = {
+  method: BriqpayHttpMethod
+  // Relative to the configured base URL, e.g. `/session/{id}`
+  path: string
+  body?: unknown
+  timeoutMs?: number
+  // Sent as `Idempotency-Key` so Briqpay deduplicates replays of the same modification
+  idempotencyKey?: string
+  // Only idempotent calls may be replayed. Defaults to true for GET and for calls carrying an
+  // idempotency key, false otherwise.
+  retryable?: boolean
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open'
+
+/**
+ * Consecutive-failure circuit breaker. A failure is one logical request that exhausted its
+ * retries on a network error, timeout or 5xx; 4xx responses are Briqpay answering correctly
+ * and count as success. After `cooldownMs` in the open state a single trial request is let
+ * through (half-open) and its outcome decides whether the circuit closes again.
+ */
+export class BriqpayCircuitBreaker {
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private openedAt = 0
+  private trialInFlight = false
+
+  constructor(
+    private readonly threshold: number,
+    private readonly cooldownMs: number,
+  ) {}
+
+  getState(): CircuitState {
+    return this.state
+  }
+
+  /** Returns false when the call must fail fast without reaching Briqpay. */
+  tryAcquire(): boolean {
+    if (this.state === 'closed') {
+      return true
+    }
+
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = 'half-open'
+    }
+
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true
+      return true
+    }
+
+    return false
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      appLogger.info({ previousState: this.state }, 'Briqpay circuit breaker closed')
+    }
+    this.state = 'closed'
+    this.consecutiveFailures = 0
+    this.trialInFlight = false
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++
+    this.trialInFlight = false
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.threshold) {
+      if (this.state !== 'open') {
+        appLogger.warn(
+          { consecutiveFailures: this.consecutiveFailures, cooldownMs: this.cooldownMs },
+          'Briqpay circuit breaker opened',
+        )
+      }
+      this.state = 'open'
+      this.openedAt = Date.now()
+    }
+  }
+
+  reset(): void {
+    this.state = 'closed'
+    this.consecutiveFailures = 0
+    this.openedAt = 0
+    this.trialInFlight = false
+  }
+}
+
+// Shared across all clients: Briqpay being degraded is a property of the upstream, not of
+// whichever service instance happened to observe it.
+export const briqpayCircuitBreaker = new BriqpayCircuitBreaker(
+  config.briqpayCircuitBreakerThreshold,
+  config.briqpayCircuitBreakerCooldown,
+)
+
+const isRetryableStatus = (status: number): boolean => status >= 500
+
+// AbortSignal.timeout rejects with a DOMException, which is not guaranteed to pass `instanceof Error`
+const isTimeoutError = (err: unknown): boolean => {
+  const name = (err as { name?: unknown } | null)?.name
+  return name === 'TimeoutError' || name === 'AbortError'
+}
+
+const backoffDelay = (attempt: number): number => {
+  const jitterMs = Math.floor(Math.random() * config.briqpayRetryBaseDelay)
+  return Math.min(config.briqpayRetryBaseDelay * Math.pow(2, attempt) + jitterMs, 5000)
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+export class BriqpayHttpClient {
+  constructor(
+    private readonly credentials: BriqpayCredentials,
+    private readonly circuitBreaker: BriqpayCircuitBreaker = briqpayCircuitBreaker,
+  ) {}
+
+  /**
+   * Sends a request to Briqpay and returns the final `Response`, including non-2xx ones, so
+   * callers keep ownership of how Briqpay error bodies are surfaced. Throws `UpstreamError`
+   * when the circuit is open, or when the request never got a response (network error or
+   * timeout) on its final attempt. The timeout also covers reading the body with `json()` or
+   * `text()`, which then reject with `UpstreamError`.
+   */
+  async request(options: BriqpayRequestOptions): Promise<Response> {
+    const { method, path } = options
+
+    if (!this.circuitBreaker.tryAcquire()) {
+      appLogger.warn({ method, path }, 'Briqpay circuit breaker open, failing fast')
+      throw new UpstreamError('Briqpay is temporarily unavailable (circuit breaker open)')
+    }
+
+    try {
+      const response = await this.requestWithRetry(options)
+      if (isRetryableStatus(response.status)) {
+        this.circuitBreaker.recordFailure()
+      } else {
+        this.circuitBreaker.recordSuccess()
+      }
+      return response
+    } catch (error) {
+      this.circuitBreaker.recordFailure()
+      throw error
+    }
+  }
+
+  private async requestWithRetry(options: BriqpayRequestOptions): Promise<Response> {
+    const retryable = options.retryable ?? (options.method === 'GET' || !!options.idempotencyKey)
+    const maxAttempts = retryable ? config.briqpayMaxRetries + 1 : 1
+
+    for (let attempt = 0; ; attempt++) {
+      const isLastAttempt = attempt >= maxAttempts - 1
+      try {
+        const response = await this.send(options)
+        if (isLastAttempt || !isRetryableStatus(response.status)) {
+          return response
+        }
+        appLogger.warn(
+          { method: options.method, path: options.path, status: response.status, attempt: attempt + 1 },
+          'Briqpay request failed with server error, retrying',
+        )
+      } catch (error) {
+        if (isLastAttempt) {
+          throw this.toUpstreamError(options, error)
+        }
+        appLogger.warn(
+          { method: options.method, path: options.path, error, attempt: attempt + 1 },
+          'Briqpay request failed without a response, retrying',
+        )
+      }
+      await sleep(backoffDelay(attempt))
+    }
+  }
+
+  private async send(options: BriqpayRequestOptions): Promise<Response> {
+    const { username, secret, baseUrl } = this.credentials
+    const signal = AbortSignal.timeout(options.timeoutMs ?? config.briqpayRequestTimeout)
+
+    const response = await fetch(`${baseUrl}${options.path}`, {
+      method: options.method,
+      headers: {
+        Authorization: `Basic ${btoa(username + ':' + secret)}`,
+        'Content-Type': 'application/json',
+        ...(options.idempotencyKey && { 'Idempotency-Key': options.idempotencyKey }),
+      },
+      ...(options.body !== undefined && { body: JSON.stringify(options.body) }),
+      signal,
+    })
+    return this.withBodyDeadline(options, response, signal)
+  }
+
+  /**
+   * Keeps the request's deadline running while the caller reads the body, so a Briqpay response
+   * whose headers arrive in time but whose body stalls still fails with the timeout `UpstreamError`
+   * instead of hanging the caller.
+   */
+  private withBodyDeadline(options: BriqpayRequestOptions, response: Response, signal: AbortSignal): Response {
+    const { json, text } = response
+    return Object.assign(response, {
+      json: () => this.readBeforeDeadline(options, signal, () => json.call(response)),
+      text: () => this.readBeforeDeadline(options, signal, () => text.call(response)),
+    })
+  }
+
+  private readBeforeDeadline<T>(
+    options: BriqpayRequestOptions,
+    signal: AbortSignal,
+    read: () => Promise<T>,
+  ): Promise<T> {
+    if (signal.aborted) {
+      return Promise.reject(this.toUpstreamError(options, signal.reason))
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(this.toUpstreamError(options, signal.reason))
+      signal.addEventListener('abort', onAbort, { once: true })
+      read()
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort))
+    })
+  }
+
+  private toUpstreamError(options: BriqpayRequestOptions, error: unknown): UpstreamError {
+    const timeoutMs = options.timeoutMs ?? config.briqpayRequestTimeout
+    const message = isTimeoutError(error)
+      ? `Briqpay request timed out after ${timeoutMs}ms: ${options.method} ${options.path}`
+      : `Briqpay request failed: ${options.method} ${options.path}`
+
+    appLogger.error({ method: options.method, path: options.path, error }, message)
+    return new UpstreamError(message, error)
+  }
+}
@@ -0,0 +1,133 @@
+import { appLogger } from '../../payment-sdk'
+import { apiRoot } from '../commercetools/api-root'
+import CtConflictRetry from '../commercetools/ct-conflict-retry'
+
+/**
+ * Remembers webhook signatures that were already accepted, so a captured webhook cannot be
+ * submitted again within the timestamp tolerance. Entries only need to live for `ttlMs`:
+ * older signatures are rejected by the timestamp check anyway.
+ */
+export interface WebhookReplayStore {
+  /**
+   * Records a signature key.
+   *
+   * @returns false when the key was already recorded and has not expired (a replay)
+   */
+  markSeen(key: string, ttlMs: number): Promise<boolean>
+}
+
+const MAX_RECENT_SIGNATURES = 5000
+
+/**
+ * Per-process store. Replay protection is lost on restart and not shared between instances.
+ */
+export class InMemoryWebhookReplayStore implements WebhookReplayStore {
+  private readonly recentSignatures = new Map<string, number>()
+
+  public markSeen(key: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now()
+    for (const [seenKey, expiresAt] of this.recentSignatures) {
+      if (expiresAt <= now) {
+        this.recentSignatures.delete(seenKey)
+      }
+    }
+
+    if (this.recentSignatures.has(key)) {
+      return Promise.resolve(false)
+    }
+
+    this.recentSignatures.set(key, now + ttlMs)
+
+    if (this.recentSignatures.size > MAX_RECENT_SIGNATURES) {
+      const oldestKey = this.recentSignatures.keys().next().value as string | undefined
+      if (oldestKey) {
+        this.recentSignatures.delete(oldestKey)
+      }
+    }
+
+    return Promise.resolve(true)
+  }
+}
+
+const REPLAY_CONTAINER = 'briqpay-webhook-replay'
+
+// Expired entries are removed in batches, at most once per interval per instance
+const PURGE_INTERVAL_MS = 60 * 1000
+const PURGE_BATCH_SIZE = 50
+
+/**
+ * Shared store backed by CT custom objects, so a signature seen by one processor instance is
+ * rejected by all of them. Creating with version 0 fails with 409 when the key exists, which
+ * makes the check-and-record atomic across instances.
+ *
+ * Custom objects have no native expiry: each entry carries `expiresAt`, an expired entry is
+ * overwritten when its key comes back, and expired entries are purged periodically.
+ */
+export class CustomObjectWebhookReplayStore implements WebhookReplayStore {
+  private lastPurgeAt = 0
+
+  public async markSeen(key: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now()
+    const value = { expiresAt: new Date(now + ttlMs).toISOString() }
+
+    try {
+      await apiRoot
+        .customObjects()
+        .post({ body: { container: REPLAY_CONTAINER, key, value, version: 0 } })
+        .execute()
+    } catch (error) {
+      if (!CtConflictRetry.isConflict(error)) {
+        throw error
+      }
+
+      const existing = await apiRoot
+        .customObjects()
+        .withContainerAndKey({ container: REPLAY_CONTAINER, key })
+        .get()
+        .execute()
+      if (Date.parse((existing.body.value as { expiresAt: string }).expiresAt) > now) {
+        return false
+      }
+
+      // Overwriting with the read version keeps this atomic: a concurrent overwrite fails with 409
+      await apiRoot
+        .customObjects()
+        .post({ body: { container: REPLAY_CONTAINER, key, value, version: existing.body.version } })
+        .execute()
+    }
+
+    await this.purgeExpired(now)
+    return true
+  }
+
+  private async purgeExpired(now: number): Promise<void> {
+    if (now - this.lastPurgeAt < PURGE_INTERVAL_MS) {
+      return
+    }
+    this.lastPurgeAt = now
+
+    try {
+      const response = await apiRoot
+        .customObjects()
+        .withContainer({ container: REPLAY_CONTAINER })
+        .get({
+          queryArgs: { where: `value(expiresAt < "${new Date(now).toISOString()}")`, limit: PURGE_BATCH_SIZE },
+        })
+        .execute()
+
+      for (const { key, version } of response.body.results) {
+        await apiRoot
+          .customObjects()
+          .withContainerAndKey({ container: REPLAY_CONTAINER, key })
+          .delete({ queryArgs: { version } })
+          .execute()
+      }
+    } catch (error) {
+      // Best-effort: leftover entries are expired and only take up space
+      appLogger.warn(
+        { error: error instanceof Error ? error.message : error },
+        'Failed to purge expired webhook replay entries',
+      )
+    }
+  }
+}
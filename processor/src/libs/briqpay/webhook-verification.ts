@@ -1,5 +1,7 @@
 import crypto from 'crypto'
 import { appLogger } from '../../payment-sdk'
+import { getConfig } from '../../config/config'
+import { CustomObjectWebhookReplayStore, InMemoryWebhookReplayStore, WebhookReplayStore } from './webhook-replay-store'
 
 /**
  * HMAC Webhook Verification for Briqpay webhooks.
@@ -8,46 +10,44 @@ import { appLogger } from '../../payment-sdk'
  * using HMAC-SHA256 signatures. This provides enhanced security by:
  * 1. Confirming the webhook was sent by Briqpay
  * 2. Ensuring the payload was not tampered with
- * 3. Preventing replay attacks via timestamp validation
+ * 3. Preventing replay attacks via timestamp validation and a replay store of accepted signatures
  */
 
 export interface WebhookVerificationResult {
   isValid: boolean
   error?: string
+  // Index of the matching secret; 0 is the current one
+  secretIndex?: number
 }
 
-const MAX_RECENT_SIGNATURES = 5000
-const recentSignatures = new Map<string, number>()
-
-function buildReplayKey(timestamp: string, signature: string): string {
-  return crypto.createHash('sha256').update(`${timestamp}.${signature}`).digest('hex')
-}
-
-function cleanupReplayCache(now: number, toleranceMs: number): void {
-  for (const [key, seenAt] of recentSignatures) {
-    if (now - seenAt > toleranceMs) {
-      recentSignatures.delete(key)
-    }
-  }
+export interface WebhookSecret {
+  secret: string
+  // Not accepted after this time; set on a previous secret during a rotation
+  expiresAt?: Date
 }
 
-function isReplayDetected(signatureKey: string, timestampMs: number, now: number, toleranceMs: number): boolean {
-  cleanupReplayCache(now, toleranceMs)
+let replayStore: WebhookReplayStore | undefined
 
-  if (recentSignatures.has(signatureKey)) {
-    return true
+function getReplayStore(): WebhookReplayStore {
+  if (!replayStore) {
+    replayStore =
+      getConfig().webhookReplayStore === 'commercetools'
+        ? new CustomObjectWebhookReplayStore()
+        : new InMemoryWebhookReplayStore()
   }
+  return replayStore
+}
 
-  recentSignatures.set(signatureKey, timestampMs)
-
-  if (recentSignatures.size > MAX_RECENT_SIGNATURES) {
-    const oldestKey = recentSignatures.keys().next().value as string | undefined
-    if (oldestKey) {
-      recentSignatures.delete(oldestKey)
-    }
-  }
+/**
+ * Replaces the store used for replay protection, e.g. with a custom shared implementation.
+ * By default BRIQPAY_WEBHOOK_REPLAY_STORE selects the in-memory or the commercetools store.
+ */
+export function setWebhookReplayStore(store: WebhookReplayStore): void {
+  replayStore = store
+}
 
-  return false
+function buildReplayKey(timestamp: string, signature: string): string {
+  return crypto.createHash('sha256').update(`${timestamp}.${signature}`).digest('hex')
 }
 
 /**
@@ -85,21 +85,81 @@ function parseSignatureHeader(header: string): { timestamp: string; signature: s
   }
 }
 
+/**
+ * Returns the index of the secret that produced the received signature, or -1 when none did.
+ */
+function findMatchingSecret(receivedSignature: string, signedPayload: string, secrets: WebhookSecret[]): number {
+  const receivedBuffer = Buffer.from(receivedSignature)
+
+  for (const [index, { secret }] of secrets.entries()) {
+    const expectedSignature = crypto.createHmac('sha256', secret).update(signedPayload).digest('base64')
+    const expectedBuffer = Buffer.from(expectedSignature)
+
+    // Buffers must be the same length for timingSafeEqual
+    if (receivedBuffer.length !== expectedBuffer.length) {
+      appLogger.warn(
+        {
+          receivedLength: receivedBuffer.length,
+          expectedLength: expectedBuffer.length,
+        },
+        'Signature length mismatch',
+      )
+      return -1
+    }
+
+    if (crypto.timingSafeEqual(receivedBuffer, expectedBuffer)) {
+      return index
+    }
+  }
+
+  appLogger.warn({ secrets: secrets.length }, 'Webhook signature mismatch')
+  return -1
+}
+
+// Identifies a secret in logs without revealing it
+function fingerprintSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex').slice(0, 8)
+}
+
+/**
+ * Records the signature in the replay store.
+ *
+ * @returns The verification error when the signature was already accepted or the store failed
+ */
+async function checkReplay(
+  timestamp: string,
+  signature: string,
+  timestampMs: number,
+  toleranceMs: number,
+): Promise<string | undefined> {
+  try {
+    if (!(await getReplayStore().markSeen(buildReplayKey(timestamp, signature), toleranceMs))) {
+      appLogger.warn({ timestampMs }, 'Webhook replay detected')
+      return 'Replay detected'
+    }
+  } catch (error) {
+    // Fail closed: Briqpay retries the webhook once the store is reachable again
+    appLogger.error({ error: error instanceof Error ? error.message : error }, 'Webhook replay check failed')
+    return 'Replay check failed'
+  }
+  return undefined
+}
+
 /**
  * Verifies a Briqpay webhook signature using HMAC-SHA256.
  *
  * @param rawBody - The raw JSON request body as a string
  * @param signatureHeader - The x-briq-signature header value
- * @param secret - The webhook secret from the Briqpay merchant portal
+ * @param secret - The webhook secret from the Briqpay merchant portal, or the active secrets during a rotation
  * @param toleranceMs - Maximum age of webhook in milliseconds (default: 5 minutes)
  * @returns Verification result with isValid flag and optional error message
  */
-export function verifyBriqpayWebhook(
+export async function verifyBriqpayWebhook(
   rawBody: string,
   signatureHeader: string,
-  secret: string,
+  secret: string | WebhookSecret[],
   toleranceMs: number = 5 * 60 * 1000,
-): WebhookVerificationResult {
+): Promise<WebhookVerificationResult> {
   // 1. Parse the signature header
   const parsed = parseSignatureHeader(signatureHeader)
   if (!parsed) {
@@ -148,45 +208,38 @@ export function verifyBriqpayWebhook(
   // 3. Prepare the signed payload string: timestamp.body
   const signedPayload = `${timestamp}.${rawBody}`
 
-  // 4. Compute the expected signature using HMAC-SHA256
-  const expectedSignature = crypto.createHmac('sha256', secret).update(signedPayload).digest('base64')
-
-  // 5. Compare signatures using timing-safe comparison
+  // 4./5. Compute the expected signature per secret and compare using timing-safe comparison
+  const secrets = typeof secret === 'string' ? [{ secret }] : secret
+  let secretIndex: number
   try {
-    const receivedBuffer = Buffer.from(receivedSignature)
-    const expectedBuffer = Buffer.from(expectedSignature)
-
-    // Buffers must be the same length for timingSafeEqual
-    if (receivedBuffer.length !== expectedBuffer.length) {
-      appLogger.warn(
-        {
-          receivedLength: receivedBuffer.length,
-          expectedLength: expectedBuffer.length,
-        },
-        'Signature length mismatch',
-      )
-      return { isValid: false, error: 'Signature validation failed' }
-    }
-
-    const isValid = crypto.timingSafeEqual(receivedBuffer, expectedBuffer)
-
-    if (!isValid) {
-      appLogger.warn({}, 'Webhook signature mismatch')
-      return { isValid: false, error: 'Signature validation failed' }
-    }
-
-    const replayKey = buildReplayKey(timestamp, receivedSignature)
-    if (isReplayDetected(replayKey, timestampMs, now, toleranceMs)) {
-      appLogger.warn({ timestampMs }, 'Webhook replay detected')
-      return { isValid: false, error: 'Replay detected' }
-    }
-
-    appLogger.info({ timestampMs }, 'Webhook signature verified successfully')
-    return { isValid: true }
+    secretIndex = findMatchingSecret(receivedSignature, signedPayload, secrets)
   } catch (error) {
     appLogger.error({ error: error instanceof Error ? error.message : error }, 'Error during signature comparison')
     return { isValid: false, error: 'Signature comparison error' }
   }
+
+  if (secretIndex < 0) {
+    return { isValid: false, error: 'Signature validation failed' }
+  }
+
+  // 6. Reject signatures already accepted within the tolerance window
+  const replayError = await checkReplay(timestamp, receivedSignature, timestampMs, toleranceMs)
+  if (replayError) {
+    return { isValid: false, error: replayError }
+  }
+
+  // Tells operators which secret is still in use, so a previous one can be removed once unused
+  const matched = secrets[secretIndex]
+  appLogger.info(
+    {
+      timestampMs,
+      secret: secretIndex === 0 ? 'current' : `previous-${secretIndex}`,
+      secretFingerprint: fingerprintSecret(matched.secret),
+      secretExpiresAt: matched.expiresAt?.toISOString(),
+    },
+    'Webhook signature verified successfully',
+  )
+  return { isValid: true, secretIndex }
 }
 
 /**
@@ -198,9 +251,49 @@ export function isHmacVerificationEnabled(): boolean {
 }
 
 /**
- * Gets the webhook secret from environment.
+ * Parses BRIQPAY_WEBHOOK_SECRET: a comma-separated list of secrets, current first, each optionally
+ * followed by `|<ISO 8601 expiry>`, e.g. `new-secret,old-secret|2026-11-01T00:00:00Z`.
+ * A single secret, the format used before rotation support, is a list of one.
+ *
+ * @returns The secrets, or undefined when an entry is empty or has an invalid expiry
+ */
+export function parseWebhookSecrets(value: string): WebhookSecret[] | undefined {
+  const secrets: WebhookSecret[] = []
+
+  for (const entry of value.split(',')) {
+    const [secret, expiresAt, ...rest] = entry.trim().split('|')
+    if (!secret || rest.length > 0) {
+      return undefined
+    }
+
+    if (expiresAt === undefined) {
+      secrets.push({ secret })
+      continue
+    }
+
+    const expiry = new Date(expiresAt)
+    if (isNaN(expiry.getTime())) {
+      return undefined
+    }
+    secrets.push({ secret, expiresAt: expiry })
+  }
+
+  return secrets
+}
+
+/**
+ * Gets the webhook secrets from environment that have not expired.
+ * Returns an empty list if not configured or not parsable.
+ */
+export function getWebhookSecrets(now: Date = new Date()): WebhookSecret[] {
+  const secrets = parseWebhookSecrets(process.env.BRIQPAY_WEBHOOK_SECRET ?? '') ?? []
+  return secrets.filter(({ expiresAt }) => !expiresAt || expiresAt > now)
+}
+
+/**
+ * Gets the current webhook secret (the first configured) from environment.
  * Returns undefined if not configured.
  */
 export function getWebhookSecret(): string | undefined {
-  return process.env.BRIQPAY_WEBHOOK_SECRET
+  return process.env.BRIQPAY_WEBHOOK_SECRET ? getWebhookSecrets()[0]?.secret : undefined
 }
@@ -1,16 +1,41 @@
-import { SessionHeaderAuthenticationHook } from '@commercetools/connect-payments-sdk'
+import {
+  AuthorityAuthorizationHook,
+  Oauth2AuthenticationHook,
+  SessionHeaderAuthenticationHook,
+} from '@commercetools/connect-payments-sdk'
+import { Type } from '@sinclair/typebox'
 import { FastifyInstance, FastifyPluginOptions } from 'fastify'
 import {
+  AuthorizationExpiryResponseSchema,
+  AuthorizationExpiryResponseSchemaDTO,
   BRIQPAY_DECISION,
   ConfigResponseSchema,
   DecisionRequestSchema,
   DecisionRequestSchemaDTO,
   DecisionResponseSchema,
+  MerchantEventDeliveryDTO,
+  MerchantEventDeliveryListResponseSchema,
+  MerchantEventDeliveryListResponseSchemaDTO,
+  MerchantEventDeliveryQuerySchema,
+  MerchantEventDeliveryQuerySchemaDTO,
+  MerchantEventDeliverySchema,
   NotificationRequestSchemaDTO,
+  OrderSyncResponseSchema,
+  OrderSyncResponseSchemaDTO,
   PaymentRequestSchema,
   PaymentRequestSchemaDTO,
   PaymentResponseSchema,
   PaymentResponseSchemaDTO,
+  ReconciliationRequestSchema,
+  ReconciliationRequestSchemaDTO,
+  ReconciliationResponseSchema,
+  ReconciliationResponseSchemaDTO,
+  WebhookInboxEntryDTO,
+  WebhookInboxEntrySchema,
+  WebhookInboxListResponseSchema,
+  WebhookInboxListResponseSchemaDTO,
+  WebhookInboxQuerySchema,
+  WebhookInboxQuerySchemaDTO,
 } from '../dtos/briqpay-payment.dto'
 import { BriqpayPaymentService } from '../services/briqpay-payment.service'
 import { appLogger } from '../payment-sdk'
@@ -19,6 +44,8 @@ import { isHmacVerificationEnabled } from '../libs/briqpay/webhook-verification'
 type PaymentRoutesOptions = {
   paymentService: BriqpayPaymentService
   sessionHeaderAuthHook: SessionHeaderAuthenticationHook
+  oauth2AuthHook: Oauth2AuthenticationHook
+  authorizationHook: AuthorityAuthorizationHook
 }
 
 export const paymentRoutes = (fastify: FastifyInstance, opts: FastifyPluginOptions & PaymentRoutesOptions) => {
@@ -94,6 +121,193 @@ export const paymentRoutes = (fastify: FastifyInstance, opts: FastifyPluginOptio
     },
   )
 
+  // Push a commercetools order edit to the Briqpay authorization
+  fastify.post<{ Reply: OrderSyncResponseSchemaDTO; Params: { id: string } }>(
+    '/orders/:id/sync',
+    {
+      preHandler: [
+        opts.oauth2AuthHook.authenticate(),
+        opts.authorizationHook.authorize('manage_project', 'manage_checkout_payment_intents'),
+      ],
+      schema: {
+        params: {
+          $id: 'orderSyncParamsSchema',
+          type: 'object',
+          properties: {
+            id: Type.String(),
+          },
+          required: ['id'],
+        },
+        response: {
+          200: OrderSyncResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const result = await opts.paymentService.syncOrder(request.params.id)
+      return reply.status(200).send(result)
+    },
+  )
+
+  // Scheduled job entry point: capture or alert on authorizations about to expire
+  fastify.post<{ Reply: AuthorizationExpiryResponseSchemaDTO }>(
+    '/jobs/authorization-expiry',
+    {
+      preHandler: [
+        opts.oauth2AuthHook.authenticate(),
+        opts.authorizationHook.authorize('manage_project', 'manage_checkout_payment_intents'),
+      ],
+      schema: {
+        response: {
+          200: AuthorizationExpiryResponseSchema,
+        },
+      },
+    },
+    async (_, reply) => {
+      const result = await opts.paymentService.processExpiringAuthorizations()
+      return reply.status(200).send(result)
+    },
+  )
+
+  // Scheduled job entry point: report or repair drift between CT Payments and Briqpay sessions
+  fastify.post<{ Body: ReconciliationRequestSchemaDTO; Reply: ReconciliationResponseSchemaDTO }>(
+    '/jobs/reconciliation',
+    {
+      preHandler: [
+        opts.oauth2AuthHook.authenticate(),
+        opts.authorizationHook.authorize('manage_project', 'manage_checkout_payment_intents'),
+      ],
+      schema: {
+        body: ReconciliationRequestSchema,
+        response: {
+          200: ReconciliationResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const result = await opts.paymentService.reconcilePayments(request.body?.dryRun)
+      return reply.status(200).send(result)
+    },
+  )
+
+  // Scheduled job entry point: deliver webhook inbox entries whose delivery was interrupted
+  fastify.post<{ Reply: WebhookInboxListResponseSchemaDTO }>(
+    '/jobs/webhook-inbox',
+    {
+      preHandler: [
+        opts.oauth2AuthHook.authenticate(),
+        opts.authorizationHook.authorize('manage_project', 'manage_checkout_payment_intents'),
+      ],
+      schema: {
+        response: {
+          200: WebhookInboxListResponseSchema,
+        },
+      },
+    },
+    async (_, reply) => {
+      const entries = await opts.paymentService.sweepNotifications()
+      return reply.status(200).send({ entries })
+    },
+  )
+
+  // Inspect the webhook inbox, dead letters by default
+  fastify.get<{ Querystring: WebhookInboxQuerySchemaDTO; Reply: WebhookInboxListResponseSchemaDTO }>(
+    '/webhooks/inbox',
+    {
+      preHandler: [
+        opts.oauth2AuthHook.authenticate(),
+        opts.authorizationHook.authorize('manage_project', 'manage_checkout_payment_intents'),
+      ],
+      schema: {
+        querystring: WebhookInboxQuerySchema,
+        response: {
+          200: WebhookInboxListResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const entries = await opts.paymentService.listNotifications(request.query.status)
+      return reply.status(200).send({ entries })
+    },
+  )
+
+  // Process a stored webhook again, e.g. a dead letter after the cause has been fixed
+  fastify.post<{ Reply: WebhookInboxEntryDTO; Params: { key: string } }>(
+    '/webhooks/inbox/:key/replay',
+    {
+      preHandler: [
+        opts.oauth2AuthHook.authenticate(),
+        opts.authorizationHook.authorize('manage_project', 'manage_checkout_payment_intents'),
+      ],
+      schema: {
+        params: {
+          $id: 'webhookInboxParamsSchema',
+          type: 'object',
+          properties: {
+            key: Type.String(),
+          },
+          required: ['key'],
+        },
+        response: {
+          200: WebhookInboxEntrySchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const result = await opts.paymentService.replayNotification(request.params.key)
+      return reply.status(200).send(result)
+    },
+  )
+
+  // Inspect the merchant event delivery log, failed deliveries by default
+  fastify.get<{ Querystring: MerchantEventDeliveryQuerySchemaDTO; Reply: MerchantEventDeliveryListResponseSchemaDTO }>(
+    '/merchant-events',
+    {
+      preHandler: [
+        opts.oauth2AuthHook.authenticate(),
+        opts.authorizationHook.authorize('manage_project', 'manage_checkout_payment_intents'),
+      ],
+      schema: {
+        querystring: MerchantEventDeliveryQuerySchema,
+        response: {
+          200: MerchantEventDeliveryListResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const deliveries = await opts.paymentService.listMerchantEvents(request.query.status)
+      return reply.status(200).send({ deliveries })
+    },
+  )
+
+  // Send a logged merchant event again, e.g. after the merchant endpoint recovered
+  fastify.post<{ Reply: MerchantEventDeliveryDTO; Params: { key: string } }>(
+    '/merchant-events/:key/redeliver',
+    {
+      preHandler: [
+        opts.oauth2AuthHook.authenticate(),
+        opts.authorizationHook.authorize('manage_project', 'manage_checkout_payment_intents'),
+      ],
+      schema: {
+        params: {
+          $id: 'merchantEventParamsSchema',
+          type: 'object',
+          properties: {
+            key: Type.String(),
+          },
+          required: ['key'],
+        },
+        response: {
+          200: MerchantEventDeliverySchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const result = await opts.paymentService.redeliverMerchantEvent(request.params.key)
+      return reply.status(200).send(result)
+    },
+  )
+
   fastify.post<{ Body: NotificationRequestSchemaDTO }>(
     '/notifications',
     {
@@ -125,12 +339,16 @@ export const paymentRoutes = (fastify: FastifyInstance, opts: FastifyPluginOptio
       // Get raw body for HMAC verification - Fastify stores it when rawBody option is enabled
       const rawBody = (request as unknown as { rawBody?: string }).rawBody
 
-      await opts.paymentService.processNotification({
+      // Verify and store first; a failure here makes Briqpay retry the webhook
+      const entry = await opts.paymentService.receiveNotification({
         data: request.body,
         signatureHeader,
         rawBody,
       })
 
+      // Acknowledge once stored and process outside the request. Processing retries on its own and
+      // dead-letters the event if it keeps failing; /jobs/webhook-inbox picks up interrupted deliveries
+      void opts.paymentService.deliverNotification(entry)
       return reply.status(200).send('[accepted]')
     },
   )
@@ -8,6 +8,11 @@ import { Type } from '@sinclair/typebox'
 import { FastifyInstance, FastifyPluginOptions } from 'fastify'
 import { ConfigResponseSchema, ConfigResponseSchemaDTO } from '../dtos/operations/config.dto'
 import { SupportedPaymentComponentsSchema } from '../dtos/operations/payment-componets.dto'
+import {
+  PaymentInspectionResponseSchema,
+  PaymentInspectionResponseSchemaDTO,
+} from '../dtos/operations/payment-inspection.dto'
+import { PaymentResyncResponseSchema, PaymentResyncResponseSchemaDTO } from '../dtos/operations/payment-resync.dto'
 import {
   PaymentIntentRequestSchema,
   PaymentIntentRequestSchemaDTO,
@@ -80,6 +85,62 @@ export const operationsRoute = (fastify: FastifyInstance, opts: FastifyPluginOpt
     },
   )
 
+  // Support view of a payment: the Briqpay session next to the CT transactions, with PII masked
+  fastify.get<{ Reply: PaymentInspectionResponseSchemaDTO; Params: { id: string } }>(
+    '/payments/:id/briqpay-session',
+    {
+      preHandler: [
+        opts.oauth2AuthHook.authenticate(),
+        opts.authorizationHook.authorize('manage_project', 'manage_checkout_payment_intents'),
+      ],
+      schema: {
+        params: {
+          $id: 'paymentInspectionParamsSchema',
+          type: 'object',
+          properties: {
+            id: Type.String(),
+          },
+          required: ['id'],
+        },
+        response: {
+          200: PaymentInspectionResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const result = await opts.paymentService.inspectPayment(request.params.id)
+      return reply.status(200).send(result)
+    },
+  )
+
+  // Re-apply the current Briqpay session to a payment, e.g. a stuck order after a missed webhook
+  fastify.post<{ Reply: PaymentResyncResponseSchemaDTO; Params: { id: string } }>(
+    '/payments/:id/resync',
+    {
+      preHandler: [
+        opts.oauth2AuthHook.authenticate(),
+        opts.authorizationHook.authorize('manage_project', 'manage_checkout_payment_intents'),
+      ],
+      schema: {
+        params: {
+          $id: 'paymentResyncParamsSchema',
+          type: 'object',
+          properties: {
+            id: Type.String(),
+          },
+          required: ['id'],
+        },
+        response: {
+          200: PaymentResyncResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const result = await opts.paymentService.resyncPayment(request.params.id)
+      return reply.status(200).send(result)
+    },
+  )
+
   fastify.post<{ Body: PaymentIntentRequestSchemaDTO; Reply: PaymentIntentResponseSchemaDTO; Params: { id: string } }>(
     '/payment-intents/:id',
     {
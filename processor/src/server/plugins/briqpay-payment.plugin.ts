@@ -12,5 +12,7 @@ export default async function (server: FastifyInstance) {
   await server.register(paymentRoutes, {
     paymentService: briqpayPaymentService,
     sessionHeaderAuthHook: paymentSDK.sessionHeaderAuthHookFn,
+    oauth2AuthHook: paymentSDK.oauth2AuthHookFn,
+    authorizationHook: paymentSDK.authorityAuthorizationHookFn,
   })
 }
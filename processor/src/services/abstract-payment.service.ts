@@ -15,6 +15,8 @@ import {
 } from './types/operation.type'
 import { SupportedPaymentComponentsSchemaDTO } from '../dtos/operations/payment-componets.dto'
 import { TransactionDraftDTO, TransactionResponseDTO } from '../dtos/operations/transaction.dto'
+import { PaymentInspectionResponseSchemaDTO } from '../dtos/operations/payment-inspection.dto'
+import { PaymentResyncResponseSchemaDTO } from '../dtos/operations/payment-resync.dto'
 
 export abstract class AbstractPaymentService {
   protected ctCartService: CommercetoolsCartService
@@ -110,6 +112,28 @@ export abstract class AbstractPaymentService {
    */
   abstract handleTransaction(transactionDraft: TransactionDraftDTO): Promise<TransactionResponseDTO>
 
+  /**
+   * Inspect payment
+   *
+   * @remarks
+   * Abstract method to show the PSP's view of a payment next to its composable commerce transactions, with personal data masked. The actual invocation to PSPs should be implemented in subclasses
+   *
+   * @param paymentId - ID of the {@link https://docs.commercetools.com/api/projects/payments | Payment } defined in composable commerce
+   * @returns Promise with the PSP session and the differences with the composable commerce transactions
+   */
+  abstract inspectPayment(paymentId: string): Promise<PaymentInspectionResponseSchemaDTO>
+
+  /**
+   * Resync payment
+   *
+   * @remarks
+   * Abstract method to re-apply the PSP's current state of a payment to composable commerce, e.g. after a missed notification. The actual invocation to PSPs should be implemented in subclasses
+   *
+   * @param paymentId - ID of the {@link https://docs.commercetools.com/api/projects/payments | Payment } defined in composable commerce
+   * @returns Promise with the replayed PSP statuses and the resulting composable commerce transactions
+   */
+  abstract resyncPayment(paymentId: string): Promise<PaymentResyncResponseSchemaDTO>
+
   /**
    * Modify payment
    *
@@ -134,6 +158,7 @@ export abstract class AbstractPaymentService {
           payment: ctPayment,
           merchantReference: request.merchantReference,
           amount: request.amount,
+          lineItems: request.lineItems,
         })
       }
       case 'refundPayment': {
@@ -141,6 +166,7 @@ export abstract class AbstractPaymentService {
           amount: request.amount,
           payment: ctPayment,
           merchantReference: request.merchantReference,
+          returnItemIds: request.returnItemIds,
         })
       }
       case 'reversePayment': {
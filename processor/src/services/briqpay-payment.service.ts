@@ -17,10 +17,17 @@ import { getConfig } from '../config/config'
 import { appLogger, paymentSDK } from '../payment-sdk'
 import { BriqpayPaymentServiceOptions, CreatePaymentRequest } from './types/briqpay-payment.type'
 import {
+  AuthorizationExpiryResponseSchemaDTO,
   BRIQPAY_DECISION,
   DecisionRequestSchemaDTO,
+  MerchantEventDeliveryDTO,
+  MerchantEventDeliveryStatus,
   NotificationRequestSchemaDTO,
+  OrderSyncResponseSchemaDTO,
   PaymentResponseSchemaDTO,
+  ReconciliationResponseSchemaDTO,
+  WebhookInboxEntryDTO,
+  WebhookInboxStatus,
 } from '../dtos/briqpay-payment.dto'
 import {
   getCartIdFromContext,
@@ -28,23 +35,82 @@ import {
   getFutureOrderNumberFromContext,
 } from '../libs/fastify/context/context'
 import { TransactionDraftDTO, TransactionResponseDTO } from '../dtos/operations/transaction.dto'
+import { PaymentInspectionResponseSchemaDTO } from '../dtos/operations/payment-inspection.dto'
+import { PaymentResyncResponseSchemaDTO } from '../dtos/operations/payment-resync.dto'
 import BriqpayService from '../libs/briqpay/BriqpayService'
 import { BriqpaySessionService } from './briqpay/session.service'
 import { BriqpayOperationService } from './briqpay/operation.service'
 import { BriqpayNotificationService } from './briqpay/notification.service'
+import { BriqpayOrderSyncService } from './briqpay/order-sync.service'
+import { BriqpayAuthorizationExpiryService } from './briqpay/authorization-expiry.service'
+import { BriqpayReconciliationService } from './briqpay/reconciliation.service'
+import { BriqpayWebhookInboxService } from './briqpay/webhook-inbox.service'
+import { BriqpayMerchantEventService } from './briqpay/merchant-event.service'
+import { BriqpayPaymentInspectionService } from './briqpay/payment-inspection.service'
 import { SessionError, UpstreamError, ValidationError } from '../libs/errors/briqpay-errors'
 import { briqpaySessionIdFieldName } from '../custom-types/custom-types'
+import { findMissingBriqpayFieldDefinitions } from '../connectors/actions'
+import { getWebhookSecrets } from '../libs/briqpay/webhook-verification'
+
+// Every scope listed under "Required commercetools Permissions" in the README
+const REQUIRED_PERMISSIONS = [
+  'manage_orders',
+  'manage_sessions',
+  'manage_types',
+  'manage_payments',
+  'manage_checkout_transactions',
+  'manage_checkout_payment_intents',
+  'manage_key_value_documents',
+  'view_key_value_documents',
+  'view_states',
+  'view_types',
+  'view_product_selections',
+  'view_attribute_groups',
+  'view_shopping_lists',
+  'view_shipping_methods',
+  'view_categories',
+  'view_discount_codes',
+  'view_products',
+  'view_cart_discounts',
+  'view_orders',
+  'view_stores',
+  'view_tax_categories',
+  'view_order_edits',
+]
 
 export class BriqpayPaymentService extends AbstractPaymentService {
   private sessionService: BriqpaySessionService
   private operationService: BriqpayOperationService
   private notificationService: BriqpayNotificationService
+  private orderSyncService: BriqpayOrderSyncService
+  private authorizationExpiryService: BriqpayAuthorizationExpiryService
+  private reconciliationService: BriqpayReconciliationService
+  private paymentInspectionService: BriqpayPaymentInspectionService
+  private webhookInboxService: BriqpayWebhookInboxService
+  private merchantEventService: BriqpayMerchantEventService
 
   constructor(opts: BriqpayPaymentServiceOptions) {
     super(opts.ctCartService, opts.ctPaymentService)
     this.sessionService = new BriqpaySessionService(opts.ctCartService)
-    this.operationService = new BriqpayOperationService(opts.ctCartService, opts.ctPaymentService)
-    this.notificationService = new BriqpayNotificationService(opts.ctPaymentService, this.operationService)
+    this.merchantEventService = new BriqpayMerchantEventService()
+    this.operationService = new BriqpayOperationService(
+      opts.ctCartService,
+      opts.ctPaymentService,
+      this.merchantEventService,
+    )
+    this.notificationService = new BriqpayNotificationService(
+      opts.ctPaymentService,
+      this.operationService,
+      this.merchantEventService,
+    )
+    this.orderSyncService = new BriqpayOrderSyncService(opts.ctPaymentService)
+    this.authorizationExpiryService = new BriqpayAuthorizationExpiryService(
+      this.operationService,
+      this.merchantEventService,
+    )
+    this.reconciliationService = new BriqpayReconciliationService(opts.ctPaymentService, this.merchantEventService)
+    this.paymentInspectionService = new BriqpayPaymentInspectionService(opts.ctPaymentService)
+    this.webhookInboxService = new BriqpayWebhookInboxService(this.notificationService)
   }
 
   public async config(hostname: string): Promise<ConfigResponse> {
@@ -68,7 +134,10 @@ export class BriqpayPaymentService extends AbstractPaymentService {
         id: cartId,
       })
 
-      if (!ctCart.shippingAddress) {
+      // Carts in shippingMode Multiple carry their addresses on the shipping entries instead
+      const hasShippingAddress =
+        ctCart.shippingMode === 'Multiple' ? (ctCart.shipping ?? []).length > 0 : !!ctCart.shippingAddress
+      if (!hasShippingAddress) {
         throw new ValidationError('Cart is missing a shipping address. Taxes cannot be calculated.')
       }
       if (!ctCart.billingAddress) {
@@ -138,7 +207,7 @@ export class BriqpayPaymentService extends AbstractPaymentService {
       log: appLogger,
       checks: [
         healthCheckCommercetoolsPermissions({
-          requiredPermissions: ['manage_orders', 'manage_payments', 'manage_types', 'manage_sessions', 'view_orders'],
+          requiredPermissions: REQUIRED_PERMISSIONS,
           ctAuthorizationService: paymentSDK.ctAuthorizationService,
           projectKey: getConfig().projectKey,
         }),
@@ -146,7 +215,7 @@ export class BriqpayPaymentService extends AbstractPaymentService {
           try {
             const paymentMethods = 'briqpay'
 
-            // Throws an exception if the API isn't healthy
+            // Throws an exception if Briqpay is unreachable or rejects the credentials
             await BriqpayService.healthCheck()
 
             return {
@@ -155,6 +224,7 @@ export class BriqpayPaymentService extends AbstractPaymentService {
               message: 'Briqpay api is working',
               details: {
                 paymentMethods,
+                baseUrl: process.env.BRIQPAY_BASE_URL,
               },
             }
           } catch (e) {
@@ -168,6 +238,52 @@ export class BriqpayPaymentService extends AbstractPaymentService {
             }
           }
         },
+        () => {
+          const secrets = getWebhookSecrets()
+          return secrets.length > 0
+            ? {
+                name: 'Briqpay Webhook Secret',
+                status: 'UP',
+                message: 'BRIQPAY_WEBHOOK_SECRET is configured',
+                details: { secrets: secrets.length },
+              }
+            : {
+                name: 'Briqpay Webhook Secret',
+                status: 'DOWN',
+                message: 'BRIQPAY_WEBHOOK_SECRET is missing or all its secrets have expired. Webhooks are disabled.',
+              }
+        },
+        async () => {
+          try {
+            const { typeKey, typeExists, missingFields } = await findMissingBriqpayFieldDefinitions()
+            if (!typeExists || missingFields.length > 0) {
+              return {
+                name: 'Briqpay Custom Type',
+                status: 'DOWN',
+                message: typeExists
+                  ? `Custom type "${typeKey}" is missing Briqpay fields. Redeploy the connector to add them.`
+                  : `Custom type "${typeKey}" does not exist. Redeploy the connector to create it.`,
+                details: { typeKey, missingFields },
+              }
+            }
+
+            return {
+              name: 'Briqpay Custom Type',
+              status: 'UP',
+              message: `Custom type "${typeKey}" has all Briqpay fields`,
+              details: { typeKey },
+            }
+          } catch (e) {
+            return {
+              name: 'Briqpay Custom Type',
+              status: 'DOWN',
+              message: 'The Briqpay custom type could not be read. Please check the logs for more details.',
+              details: {
+                error: e,
+              },
+            }
+          }
+        },
       ],
       metadataFn: async () =>
         Promise.resolve({
@@ -199,6 +315,38 @@ export class BriqpayPaymentService extends AbstractPaymentService {
     return this.notificationService.processNotification(opts)
   }
 
+  public receiveNotification(opts: {
+    data: NotificationRequestSchemaDTO
+    signatureHeader?: string
+    rawBody?: string
+  }): Promise<WebhookInboxEntryDTO> {
+    return this.webhookInboxService.receive(opts)
+  }
+
+  public deliverNotification(entry: WebhookInboxEntryDTO): Promise<WebhookInboxEntryDTO> {
+    return this.webhookInboxService.deliver(entry)
+  }
+
+  public sweepNotifications(): Promise<WebhookInboxEntryDTO[]> {
+    return this.webhookInboxService.sweepPending()
+  }
+
+  public listNotifications(status?: WebhookInboxStatus): Promise<WebhookInboxEntryDTO[]> {
+    return this.webhookInboxService.list(status)
+  }
+
+  public replayNotification(key: string): Promise<WebhookInboxEntryDTO> {
+    return this.webhookInboxService.replay(key)
+  }
+
+  public listMerchantEvents(status?: MerchantEventDeliveryStatus): Promise<MerchantEventDeliveryDTO[]> {
+    return this.merchantEventService.list(status)
+  }
+
+  public redeliverMerchantEvent(key: string): Promise<MerchantEventDeliveryDTO> {
+    return this.merchantEventService.redeliver(key)
+  }
+
   public capturePayment(request: CapturePaymentRequest): Promise<PaymentProviderModificationResponse> {
     return this.operationService.capturePayment(request)
   }
@@ -223,6 +371,26 @@ export class BriqpayPaymentService extends AbstractPaymentService {
     return this.operationService.createPayment(request)
   }
 
+  public syncOrder(orderId: string): Promise<OrderSyncResponseSchemaDTO> {
+    return this.orderSyncService.syncOrder(orderId)
+  }
+
+  public processExpiringAuthorizations(): Promise<AuthorizationExpiryResponseSchemaDTO> {
+    return this.authorizationExpiryService.processExpiringAuthorizations()
+  }
+
+  public reconcilePayments(dryRun?: boolean): Promise<ReconciliationResponseSchemaDTO> {
+    return this.reconciliationService.reconcile(dryRun)
+  }
+
+  public inspectPayment(paymentId: string): Promise<PaymentInspectionResponseSchemaDTO> {
+    return this.paymentInspectionService.inspect(paymentId)
+  }
+
+  public resyncPayment(paymentId: string): Promise<PaymentResyncResponseSchemaDTO> {
+    return this.notificationService.resyncPayment(paymentId)
+  }
+
   /**
    * Makes a decision on a Briqpay session.
    * This is the secure server-side implementation that validates the session
@@ -0,0 +1,195 @@
+import { Payment } from '@commercetools/connect-payments-sdk'
+import { appLogger } from '../../payment-sdk'
+import { getConfig } from '../../config/config'
+import { apiRoot } from '../../libs/commercetools/api-root'
+import CtConflictRetry from '../../libs/commercetools/ct-conflict-retry'
+import {
+  briqpayAuthorizationExpiresAtFieldName,
+  briqpayAuthorizationExpiryAlertedFieldName,
+} from '../../custom-types/custom-types'
+import { AuthorizationExpiryAction, AuthorizationExpiryResponseSchemaDTO } from '../../dtos/briqpay-payment.dto'
+import type { BriqpayOperationService } from './operation.service'
+import { BriqpayMerchantEventService } from './merchant-event.service'
+
+// Payments fetched per page of the expiry query
+const EXPIRY_PAGE_SIZE = 500
+
+/**
+ * Finds Briqpay authorizations that lapse within the configured window and, depending on the
+ * project's policy, captures the remaining authorized amount or raises an alert (a log line and a
+ * `payment.authorization_expiring` merchant event) so fulfilment can act before the authorization
+ * silently expires.
+ *
+ * The expiry is read from the payment custom field written by the authorization webhook. An alert is
+ * raised once per expiry, recorded in a second payment custom field.
+ */
+export class BriqpayAuthorizationExpiryService {
+  constructor(
+    private readonly operationService: BriqpayOperationService,
+    private readonly merchantEventService: BriqpayMerchantEventService = new BriqpayMerchantEventService(),
+  ) {}
+
+  /**
+   * Entry point for the scheduled authorization expiry job.
+   *
+   * @param now - Reference time, defaults to the current time
+   * @returns The handled payments with the action taken for each
+   */
+  public async processExpiringAuthorizations(now = new Date()): Promise<AuthorizationExpiryResponseSchemaDTO> {
+    const { authorizationExpiryWindowHours, authorizationExpiryPolicy } = getConfig()
+    const windowEnd = new Date(now.getTime() + authorizationExpiryWindowHours * 60 * 60 * 1000).toISOString()
+
+    const payments: AuthorizationExpiryResponseSchemaDTO['payments'] = []
+    for await (const payment of this.findExpiringPayments(now.toISOString(), windowEnd)) {
+      const remainingAmount = await this.getRemainingAuthorizedAmount(payment)
+      if (remainingAmount <= 0) {
+        continue
+      }
+
+      const expiresAt = payment.custom?.fields?.[briqpayAuthorizationExpiresAtFieldName] as string
+      if (authorizationExpiryPolicy !== 'capture' && this.isAlerted(payment, expiresAt)) {
+        continue
+      }
+
+      const action =
+        authorizationExpiryPolicy === 'capture'
+          ? await this.captureRemaining(payment, remainingAmount, expiresAt)
+          : await this.alert(payment, remainingAmount, expiresAt)
+
+      payments.push({ paymentId: payment.id, expiresAt, remainingAmount, action })
+    }
+
+    appLogger.info(
+      { windowEnd, policy: authorizationExpiryPolicy, handled: payments.length },
+      'Processed expiring Briqpay authorizations',
+    )
+
+    return { windowEnd, payments }
+  }
+
+  /**
+   * Pages through Briqpay payments whose authorization expires within the window using an id cursor.
+   * Payments with nothing left to capture stay in the window until they expire and would otherwise
+   * fill the first page on every run, hiding the ones behind them.
+   */
+  private async *findExpiringPayments(from: string, windowEnd: string): AsyncGenerator<Payment> {
+    let lastId: string | undefined
+    while (true) {
+      const where = [
+        `paymentMethodInfo(paymentInterface="Briqpay") and custom(fields(${briqpayAuthorizationExpiresAtFieldName} > "${from}" and ${briqpayAuthorizationExpiresAtFieldName} <= "${windowEnd}"))`,
+      ]
+      if (lastId) {
+        where.push(`id > "${lastId}"`)
+      }
+
+      const response = await apiRoot
+        .payments()
+        .get({ queryArgs: { where, sort: 'id asc', limit: EXPIRY_PAGE_SIZE, withTotal: false } })
+        .execute()
+
+      const results = response.body.results as Payment[]
+      yield* results
+
+      if (results.length < EXPIRY_PAGE_SIZE) {
+        return
+      }
+      lastId = results[results.length - 1].id
+    }
+  }
+
+  /**
+   * The remaining amount as the capture validates it, for payments with a successful authorization.
+   * A payment whose remainder cannot be determined is logged and left for the next run.
+   */
+  private async getRemainingAuthorizedAmount(payment: Payment): Promise<number> {
+    if (!payment.transactions.some((tx) => tx.type === 'Authorization' && tx.state === 'Success')) {
+      return 0
+    }
+
+    try {
+      return await this.operationService.getRemainingAuthorizedAmount(payment)
+    } catch (error) {
+      appLogger.error(
+        { paymentId: payment.id, error: error instanceof Error ? error.message : error },
+        'Failed to determine the remaining authorized amount of an expiring Briqpay authorization',
+      )
+      return 0
+    }
+  }
+
+  private async captureRemaining(
+    payment: Payment,
+    remainingAmount: number,
+    expiresAt: string,
+  ): Promise<AuthorizationExpiryAction> {
+    try {
+      await this.operationService.capturePayment({
+        payment,
+        amount: { centAmount: remainingAmount, currencyCode: payment.amountPlanned.currencyCode },
+        merchantReference: `authorization-expiry-${expiresAt}`,
+      })
+      appLogger.info({ paymentId: payment.id, expiresAt, remainingAmount }, 'Auto-captured expiring authorization')
+      return AuthorizationExpiryAction.CAPTURED
+    } catch (error) {
+      appLogger.error(
+        {
+          event: 'briqpay.authorization.expiring',
+          paymentId: payment.id,
+          expiresAt,
+          remainingAmount,
+          error: error instanceof Error ? error.message : error,
+        },
+        'Failed to auto-capture expiring Briqpay authorization',
+      )
+      return AuthorizationExpiryAction.FAILED
+    }
+  }
+
+  // An expiry is alerted once; a renewed authorization has a new expiry and is alerted again
+  private isAlerted(payment: Payment, expiresAt: string): boolean {
+    return payment.custom?.fields?.[briqpayAuthorizationExpiryAlertedFieldName] === expiresAt
+  }
+
+  private async alert(
+    payment: Payment,
+    remainingAmount: number,
+    expiresAt: string,
+  ): Promise<AuthorizationExpiryAction> {
+    appLogger.warn(
+      { event: 'briqpay.authorization.expiring', paymentId: payment.id, expiresAt, remainingAmount },
+      'Briqpay authorization expires soon and is not fully captured',
+    )
+    void this.merchantEventService.publishAuthorizationExpiring(payment, remainingAmount, expiresAt)
+    await this.markAlerted(payment, expiresAt)
+    return AuthorizationExpiryAction.ALERTED
+  }
+
+  /**
+   * Records the alerted expiry on the payment, which always has the Briqpay payment type as the
+   * expiry itself is stored there. A failure is logged and the payment is alerted again next run.
+   */
+  private async markAlerted(payment: Payment, expiresAt: string): Promise<void> {
+    try {
+      await CtConflictRetry.withConflictRetry(async () => {
+        const { body: current } = await apiRoot.payments().withId({ ID: payment.id }).get().execute()
+        await apiRoot
+          .payments()
+          .withId({ ID: payment.id })
+          .post({
+            body: {
+              version: current.version,
+              actions: [
+                { action: 'setCustomField', name: briqpayAuthorizationExpiryAlertedFieldName, value: expiresAt },
+              ],
+            },
+          })
+          .execute()
+      })
+    } catch (error) {
+      appLogger.warn(
+        { paymentId: payment.id, expiresAt, error: error instanceof Error ? error.message : error },
+        'Failed to record the authorization expiry alert on payment',
+      )
+    }
+  }
+}
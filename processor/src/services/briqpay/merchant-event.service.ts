@@ -0,0 +1,378 @@
+import { createHash, createHmac, randomUUID } from 'crypto'
+import {
+  ErrorInvalidOperation,
+  ErrorResourceNotFound,
+  Payment,
+  TransactionData,
+  TransactionType,
+} from '@commercetools/connect-payments-sdk'
+import { appLogger } from '../../payment-sdk'
+import { getConfig } from '../../config/config'
+import { apiRoot } from '../../libs/commercetools/api-root'
+import CtConflictRetry from '../../libs/commercetools/ct-conflict-retry'
+import {
+  MerchantEventDeliveryDTO,
+  MerchantEventDeliveryStatus,
+  MerchantEventDTO,
+  MerchantEventType,
+} from '../../dtos/briqpay-payment.dto'
+import { findTransaction } from './payment-state-machine'
+
+const MERCHANT_EVENT_CONTAINER = 'briqpay-merchant-events'
+
+// Deliveries listed per request
+const MERCHANT_EVENT_QUERY_LIMIT = 100
+
+const MERCHANT_EVENT_TIMEOUT_MS = 10000
+
+// Delivered events are kept for inspection, then removed in batches at most once per interval per instance
+const DELIVERED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+const PURGE_INTERVAL_MS = 60 * 1000
+const PURGE_BATCH_SIZE = 50
+
+// Same format as Briqpay's x-briq-signature: t=<timestamp in ms>,s1=<base64 HMAC-SHA256 of "<t>.<body>">
+export const MERCHANT_EVENT_SIGNATURE_HEADER = 'x-briqpay-connector-signature'
+
+// A transaction reaching Success emits the event of its type
+const EVENT_TYPES: Partial<Record<TransactionType, MerchantEventType>> = {
+  Authorization: MerchantEventType.PAYMENT_AUTHORIZED,
+  Charge: MerchantEventType.PAYMENT_CAPTURED,
+  Refund: MerchantEventType.PAYMENT_REFUNDED,
+  CancelAuthorization: MerchantEventType.PAYMENT_CANCELLED,
+}
+
+type StoredMerchantEventDelivery = Omit<MerchantEventDeliveryDTO, 'key'>
+
+// The event-specific part of the data; the payment, order and session ids are filled in on publish
+type MerchantEventPayload = Omit<MerchantEventDTO['data'], 'paymentId' | 'orderId' | 'briqpaySessionId'>
+
+/**
+ * Emits normalized, HMAC-signed payment events to the merchant endpoints in
+ * BRIQPAY_MERCHANT_EVENT_URLS once a change has been applied to CT.
+ *
+ * Unlike BRIQPAY_EXTERNAL_WEBHOOK_URL, which forwards Briqpay's raw webhooks, an event is only
+ * emitted when a CT transaction actually moves to Success, so duplicate or out-of-order webhooks
+ * do not produce duplicate events. Every delivery is logged as a CT custom object and retried with
+ * backoff up to BRIQPAY_MERCHANT_EVENT_MAX_ATTEMPTS; failed deliveries can be listed and redelivered.
+ * Delivered entries are purged from the log after DELIVERED_RETENTION_MS.
+ */
+export class BriqpayMerchantEventService {
+  private lastPurgeAt = 0
+
+  /**
+   * Publishes the event for a transaction written to `payment`, unless the transaction was
+   * already successful before the write. Never throws: delivery failures are logged.
+   *
+   * @param payment - The CT Payment as it was before the transaction was written
+   */
+  public async publishTransaction(payment: Payment, transaction: TransactionData): Promise<void> {
+    const type = EVENT_TYPES[transaction.type]
+    if (!type || transaction.state !== 'Success' || findTransaction(payment, transaction)?.state === 'Success') {
+      return
+    }
+
+    await this.publish(payment, type, () => ({
+      ...(transaction.type === 'Charge' && { briqpayCaptureId: transaction.interactionId }),
+      ...(transaction.type === 'Refund' && { briqpayRefundId: transaction.interactionId }),
+      amount: { centAmount: transaction.amount.centAmount, currencyCode: transaction.amount.currencyCode },
+    }))
+  }
+
+  /**
+   * Publishes the alert for an authorization that expires soon with an uncaptured remainder.
+   * Never throws: delivery failures are logged.
+   */
+  public async publishAuthorizationExpiring(
+    payment: Payment,
+    remainingAmount: number,
+    expiresAt: string,
+  ): Promise<void> {
+    await this.publish(payment, MerchantEventType.AUTHORIZATION_EXPIRING, () => ({
+      expiresAt,
+      amount: { centAmount: remainingAmount, currencyCode: payment.amountPlanned.currencyCode },
+    }))
+  }
+
+  /**
+   * Sends a delivery, retrying with exponential backoff until the endpoint accepts it or the
+   * attempts run out. Never throws: the outcome is recorded in the delivery log.
+   */
+  public async deliver(delivery: MerchantEventDeliveryDTO, secret: string): Promise<MerchantEventDeliveryDTO> {
+    const { merchantEventMaxAttempts, merchantEventRetryBaseDelay } = getConfig()
+    let current = await this.record(delivery)
+
+    while (current.status === MerchantEventDeliveryStatus.PENDING) {
+      const attempts = current.attempts + 1
+      const { responseStatus, error } = await this.send(current, secret)
+
+      if (!error) {
+        return this.record({
+          ...current,
+          status: MerchantEventDeliveryStatus.DELIVERED,
+          attempts,
+          responseStatus,
+          lastError: undefined,
+        })
+      }
+
+      const exhausted = attempts >= merchantEventMaxAttempts
+      current = await this.record({
+        ...current,
+        status: exhausted ? MerchantEventDeliveryStatus.FAILED : MerchantEventDeliveryStatus.PENDING,
+        attempts,
+        responseStatus,
+        lastError: error,
+      })
+
+      if (exhausted) {
+        appLogger.error(
+          {
+            event: 'briqpay.merchant_event.failed',
+            key: current.key,
+            type: current.event.type,
+            url: current.url,
+            attempts,
+            error,
+          },
+          'Merchant event delivery failed',
+        )
+      } else {
+        appLogger.warn({ key: current.key, url: current.url, attempts, error }, 'Retrying merchant event delivery')
+        await new Promise((resolve) => setTimeout(resolve, merchantEventRetryBaseDelay * Math.pow(2, attempts - 1)))
+      }
+    }
+
+    return current
+  }
+
+  /**
+   * Lists logged deliveries in the given status, oldest first.
+   */
+  public async list(
+    status: MerchantEventDeliveryStatus = MerchantEventDeliveryStatus.FAILED,
+  ): Promise<MerchantEventDeliveryDTO[]> {
+    const response = await apiRoot
+      .customObjects()
+      .withContainer({ container: MERCHANT_EVENT_CONTAINER })
+      .get({
+        queryArgs: {
+          where: `value(status="${status}")`,
+          sort: 'createdAt asc',
+          limit: MERCHANT_EVENT_QUERY_LIMIT,
+        },
+      })
+      .execute()
+
+    return response.body.results.map(({ key, value }) => ({ key, ...(value as StoredMerchantEventDelivery) }))
+  }
+
+  /**
+   * Resets a delivery's attempts and sends the same event again, e.g. after the endpoint recovered.
+   *
+   * @throws ErrorResourceNotFound when the delivery log has no entry with this key
+   * @throws ErrorInvalidOperation when merchant events are not configured
+   */
+  public async redeliver(key: string): Promise<MerchantEventDeliveryDTO> {
+    const delivery = await this.find(key)
+    if (!delivery) {
+      throw new ErrorResourceNotFound(key)
+    }
+
+    const secret = this.getSigningSecret()
+    if (!secret) {
+      throw new ErrorInvalidOperation('Merchant events are not configured')
+    }
+
+    appLogger.info({ key, status: delivery.status, attempts: delivery.attempts }, 'Redelivering merchant event')
+
+    return this.deliver({ ...delivery, status: MerchantEventDeliveryStatus.PENDING, attempts: 0 }, secret)
+  }
+
+  /**
+   * Builds and delivers an event; `buildData` only runs once events are enabled, inside the error
+   * handling, so publishing never throws.
+   */
+  private async publish(
+    payment: Payment,
+    type: MerchantEventType,
+    buildData: () => MerchantEventPayload,
+  ): Promise<void> {
+    const secret = this.getSigningSecret()
+    if (!secret) {
+      return
+    }
+
+    try {
+      const event: MerchantEventDTO = {
+        id: randomUUID(),
+        type,
+        createdAt: new Date().toISOString(),
+        data: {
+          paymentId: payment.id,
+          orderId: await this.findOrderId(payment.id),
+          briqpaySessionId: payment.transactions.find((tx) => tx.type === 'Authorization')?.interactionId,
+          ...buildData(),
+        },
+      }
+
+      await Promise.all(
+        getConfig().merchantEventUrls.map((url) => this.deliver(this.createDelivery(event, url), secret)),
+      )
+    } catch (error) {
+      appLogger.error(
+        { paymentId: payment.id, type, error: error instanceof Error ? error.message : error },
+        'Failed to publish merchant event',
+      )
+    }
+
+    await this.purgeDelivered(Date.now())
+  }
+
+  /**
+   * Returns the secret to sign events with, or undefined when merchant events are not configured.
+   */
+  private getSigningSecret(): string | undefined {
+    const { merchantEventUrls, merchantEventSecret } = getConfig()
+    if (!merchantEventUrls?.length) {
+      return undefined
+    }
+
+    if (!merchantEventSecret) {
+      appLogger.error(
+        {},
+        'BRIQPAY_MERCHANT_EVENT_URLS is set without BRIQPAY_MERCHANT_EVENT_SECRET, not emitting events',
+      )
+      return undefined
+    }
+
+    return merchantEventSecret
+  }
+
+  private createDelivery(event: MerchantEventDTO, url: string): MerchantEventDeliveryDTO {
+    const now = new Date().toISOString()
+    return {
+      key: `${event.id}-${createHash('sha256').update(url).digest('hex').slice(0, 8)}`,
+      url,
+      status: MerchantEventDeliveryStatus.PENDING,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+      event,
+    }
+  }
+
+  private async send(
+    delivery: MerchantEventDeliveryDTO,
+    secret: string,
+  ): Promise<{ responseStatus?: number; error?: string }> {
+    const body = JSON.stringify(delivery.event)
+    const timestamp = Date.now().toString()
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('base64')
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [MERCHANT_EVENT_SIGNATURE_HEADER]: `t=${timestamp},s1=${signature}`,
+        },
+        body,
+        signal: AbortSignal.timeout(MERCHANT_EVENT_TIMEOUT_MS),
+      })
+
+      return response.ok
+        ? { responseStatus: response.status }
+        : { responseStatus: response.status, error: `Endpoint responded with HTTP ${response.status}` }
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  private async findOrderId(paymentId: string): Promise<string | undefined> {
+    try {
+      const response = await apiRoot
+        .orders()
+        .get({ queryArgs: { where: `paymentInfo(payments(id="${paymentId}"))`, limit: 1 } })
+        .execute()
+      return response.body.results[0]?.id
+    } catch (error) {
+      // The event is still useful without the order, e.g. before Checkout created it
+      appLogger.warn(
+        { paymentId, error: error instanceof Error ? error.message : error },
+        'Failed to look up order for merchant event',
+      )
+      return undefined
+    }
+  }
+
+  private async find(key: string): Promise<MerchantEventDeliveryDTO | undefined> {
+    try {
+      const response = await apiRoot
+        .customObjects()
+        .withContainerAndKey({ container: MERCHANT_EVENT_CONTAINER, key })
+        .get()
+        .execute()
+      return { key, ...(response.body.value as StoredMerchantEventDelivery) }
+    } catch (error) {
+      if (CtConflictRetry.isNotFound(error)) {
+        return undefined
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Saves a delivery to the log. A failed write is logged only, so a CT outage never blocks
+   * sending the event itself.
+   */
+  private async record(delivery: MerchantEventDeliveryDTO): Promise<MerchantEventDeliveryDTO> {
+    const { key, ...value } = { ...delivery, updatedAt: new Date().toISOString() }
+    try {
+      await apiRoot
+        .customObjects()
+        .post({ body: { container: MERCHANT_EVENT_CONTAINER, key, value } })
+        .execute()
+    } catch (error) {
+      appLogger.error(
+        { key, status: value.status, error: error instanceof Error ? error.message : error },
+        'Failed to update merchant event delivery log',
+      )
+    }
+    return { key, ...value }
+  }
+
+  private async purgeDelivered(now: number): Promise<void> {
+    if (now - this.lastPurgeAt < PURGE_INTERVAL_MS) {
+      return
+    }
+    this.lastPurgeAt = now
+
+    try {
+      const deliveredBefore = new Date(now - DELIVERED_RETENTION_MS).toISOString()
+      const response = await apiRoot
+        .customObjects()
+        .withContainer({ container: MERCHANT_EVENT_CONTAINER })
+        .get({
+          queryArgs: {
+            where: `value(status="${MerchantEventDeliveryStatus.DELIVERED}" and updatedAt < "${deliveredBefore}")`,
+            limit: PURGE_BATCH_SIZE,
+          },
+        })
+        .execute()
+
+      for (const { key, version } of response.body.results) {
+        await apiRoot
+          .customObjects()
+          .withContainerAndKey({ container: MERCHANT_EVENT_CONTAINER, key })
+          .delete({ queryArgs: { version } })
+          .execute()
+      }
+    } catch (error) {
+      // Best-effort: leftover entries were delivered already and only take up space
+      appLogger.warn(
+        { error: error instanceof Error ? error.message : error },
+        'Failed to purge delivered merchant event log entries',
+      )
+    }
+  }
+}
@@ -1,10 +1,16 @@
-import { CommercetoolsPaymentService, Payment } from '@commercetools/connect-payments-sdk'
+import { CommercetoolsPaymentService, Payment, TransactionData } from '@commercetools/connect-payments-sdk'
 import {
   BRIQPAY_WEBHOOK_EVENT,
   BRIQPAY_WEBHOOK_STATUS,
   NotificationRequestSchemaDTO,
 } from '../../dtos/briqpay-payment.dto'
-import { MediumBriqpayResponse, ORDER_STATUS, TRANSACTION_STATUS } from '../types/briqpay-payment.type'
+import { PaymentResyncResponseSchemaDTO } from '../../dtos/operations/payment-resync.dto'
+import {
+  BriqpayTransaction,
+  MediumBriqpayResponse,
+  ORDER_STATUS,
+  TRANSACTION_STATUS,
+} from '../types/briqpay-payment.type'
 import { appLogger } from '../../payment-sdk'
 import {
   getActualAuthorizationStatus,
@@ -12,29 +18,41 @@ import {
   getActualOrderStatus,
   getActualRefundStatus,
   getCapture,
+  getCaptures,
   getRefund,
+  getRefunds,
   getTransaction,
   orderStatusToWebhookStatus,
   transactionStatusToWebhookStatus,
 } from './utils'
 import { BriqpaySessionDataService } from './session-data.service'
+import { BriqpaySessionStatusService, isSessionEvent } from './session-status.service'
 import { apiRoot } from '../../libs/commercetools/api-root'
+import CtConflictRetry from '../../libs/commercetools/ct-conflict-retry'
+import Briqpay from '../../libs/briqpay/BriqpayService'
+import { ValidationError } from '../../libs/errors/briqpay-errors'
 import { Order } from '@commercetools/platform-sdk'
 import {
-  getWebhookSecret,
+  getWebhookSecrets,
   isHmacVerificationEnabled,
   verifyBriqpayWebhook,
 } from '../../libs/briqpay/webhook-verification'
 import type { BriqpayOperationService } from './operation.service'
+import { guardTransition, TransitionOptions } from './payment-state-machine'
+import { BriqpayMerchantEventService } from './merchant-event.service'
+import { briqpayAuthorizationExpiresAtFieldName, briqpayPaymentCustomTypeKey } from '../../custom-types/custom-types'
 
 export class BriqpayNotificationService {
   private readonly sessionDataService: BriqpaySessionDataService
+  private readonly sessionStatusService: BriqpaySessionStatusService
 
   constructor(
     private readonly ctPaymentService: CommercetoolsPaymentService,
     private readonly operationService: BriqpayOperationService,
+    private readonly merchantEventService: BriqpayMerchantEventService = new BriqpayMerchantEventService(),
   ) {
     this.sessionDataService = new BriqpaySessionDataService()
+    this.sessionStatusService = new BriqpaySessionStatusService(this.sessionDataService)
   }
 
   /**
@@ -53,53 +71,42 @@ export class BriqpayNotificationService {
     appLogger.info({ briqpaySessionId, hmacEnabled: isHmacVerificationEnabled() }, 'Processing notification')
 
     try {
-      // HMAC verification is now REQUIRED
-      if (!isHmacVerificationEnabled()) {
-        appLogger.error({ briqpaySessionId }, 'BRIQPAY_WEBHOOK_SECRET is not configured. Webhooks are disabled.')
-        throw new Error('Webhooks disabled: BRIQPAY_WEBHOOK_SECRET missing')
-      }
-
-      if (!opts.signatureHeader || !opts.rawBody) {
-        appLogger.error({ briqpaySessionId }, 'Missing required signature header or raw body for HMAC verification')
-        throw new Error('Webhook verification failed: Missing required signature data')
-      }
-
-      await this.processWithHmacVerification(opts)
+      await this.verifyNotification(opts)
+      await this.processVerifiedNotification(opts.data)
     } catch (e) {
       this.handleNotificationError(e, opts.data)
     }
   }
 
   /**
-   * Processes webhook with HMAC signature verification.
-   * When verified, trusts the webhook payload status and reuses existing handlers.
+   * Verifies the HMAC signature of a webhook and checks that its payload carries the
+   * mandatory transaction data. Throws when the webhook must not be trusted or processed.
    */
-  private async processWithHmacVerification(opts: {
+  public async verifyNotification(opts: {
     data: NotificationRequestSchemaDTO
     signatureHeader?: string
     rawBody?: string
   }): Promise<void> {
     const { data, signatureHeader, rawBody } = opts
-    const {
-      sessionId: briqpaySessionId,
-      event,
-      status,
-      captureId: captureIdFromPayload,
-      refundId: refundIdFromPayload,
-      cartId,
-    } = data
+    const { sessionId: briqpaySessionId, event, status } = data
 
-    const briqpayCaptureId = captureIdFromPayload ?? data.capture?.captureId
-    const briqpayRefundId = refundIdFromPayload ?? data.refund?.refundId
+    // HMAC verification is now REQUIRED
+    const secrets = getWebhookSecrets()
+    if (!isHmacVerificationEnabled() || secrets.length === 0) {
+      appLogger.error(
+        { briqpaySessionId },
+        'BRIQPAY_WEBHOOK_SECRET is not configured or all its secrets have expired. Webhooks are disabled.',
+      )
+      throw new Error('Webhooks disabled: BRIQPAY_WEBHOOK_SECRET missing')
+    }
 
-    const secret = getWebhookSecret()
-    // Secret presence is already checked in processNotification, but TypeScript needs this
-    if (!secret || !signatureHeader || !rawBody) {
-      throw new Error('Missing required data for HMAC verification')
+    if (!signatureHeader || !rawBody) {
+      appLogger.error({ briqpaySessionId }, 'Missing required signature header or raw body for HMAC verification')
+      throw new Error('Webhook verification failed: Missing required signature data')
     }
 
     // Verify the webhook signature
-    const verificationResult = verifyBriqpayWebhook(rawBody, signatureHeader, secret)
+    const verificationResult = await verifyBriqpayWebhook(rawBody, signatureHeader, secrets)
     if (!verificationResult.isValid) {
       appLogger.error(
         { briqpaySessionId, error: verificationResult.error },
@@ -108,25 +115,28 @@ export class BriqpayNotificationService {
       throw new Error(`Webhook verification failed: ${verificationResult.error}`)
     }
 
-    appLogger.info(
-      { briqpaySessionId, event, status },
-      'Webhook HMAC verified - processing with trusted payload (no session fetch)',
-    )
+    appLogger.info({ briqpaySessionId, event, status }, 'Webhook HMAC verified')
 
-    // 1. Mandatory transaction data from payload
-    const transactionData = this.extractTransactionDataFromPayload(
-      data,
-      event,
-      briqpayCaptureId,
-      briqpayRefundId,
-      status,
-    )
+    if (!isSessionEvent(event)) {
+      this.getTransactionData(data)
+    }
+  }
 
-    if (!transactionData) {
-      appLogger.error({ briqpaySessionId, event, data }, 'Webhook payload missing mandatory transaction data')
-      throw new Error('Webhook processing failed: Missing transaction data in payload')
+  /**
+   * Applies a webhook that already passed verifyNotification.
+   * Trusts the webhook payload status and reuses existing handlers (no session fetch).
+   */
+  public async processVerifiedNotification(data: NotificationRequestSchemaDTO): Promise<void> {
+    if (isSessionEvent(data.event)) {
+      await this.sessionStatusService.recordSessionEvent(data)
+      return
     }
 
+    const { sessionId: briqpaySessionId, event, cartId } = data
+    // Session events returned above, so only order, capture and refund statuses remain
+    const status = data.status as BRIQPAY_WEBHOOK_STATUS
+    const { briqpayCaptureId, briqpayRefundId, transactionData } = this.getTransactionData(data)
+
     const briqpaySession = this.constructSessionFromPayload(
       briqpaySessionId,
       transactionData,
@@ -156,6 +166,98 @@ export class BriqpayNotificationService {
     )
   }
 
+  /**
+   * Re-applies the current Briqpay session of a CT Payment through the webhook handlers, e.g. when a
+   * missed webhook left an order stuck. The authorization is replayed first, then every capture and
+   * refund against the freshly loaded payment, and the session data is ingested to the order again.
+   *
+   * @throws ValidationError when the payment has no Briqpay session
+   */
+  public async resyncPayment(paymentId: string): Promise<PaymentResyncResponseSchemaDTO> {
+    const payment = await this.ctPaymentService.getPayment({ id: paymentId })
+    const briqpaySessionId =
+      payment.transactions.find((tx) => tx.type === 'Authorization')?.interactionId ?? payment.interfaceId
+    if (!briqpaySessionId) {
+      throw new ValidationError('No Briqpay session found on payment')
+    }
+
+    const briqpaySession = await Briqpay.getSession(briqpaySessionId)
+    const replayed: PaymentResyncResponseSchemaDTO['replayed'] = []
+
+    const orderStatuses = this.extractActualStatuses(briqpaySession)
+    const orderStatus = orderStatuses.authorizationStatus ?? orderStatuses.orderStatus
+    if (orderStatus) {
+      await this.routeEventToHandler(BRIQPAY_WEBHOOK_EVENT.ORDER_STATUS, [payment], briqpaySession, orderStatuses)
+      replayed.push({ event: BRIQPAY_WEBHOOK_EVENT.ORDER_STATUS, status: orderStatus })
+    }
+
+    for (const { captureId, status } of getCaptures(briqpaySession)) {
+      await this.routeEventToHandler(
+        BRIQPAY_WEBHOOK_EVENT.CAPTURE_STATUS,
+        [await this.ctPaymentService.getPayment({ id: paymentId })],
+        briqpaySession,
+        this.extractActualStatuses(briqpaySession, captureId),
+        captureId,
+      )
+      replayed.push({ event: BRIQPAY_WEBHOOK_EVENT.CAPTURE_STATUS, status, captureId })
+    }
+
+    for (const { refundId, status } of getRefunds(briqpaySession)) {
+      await this.routeEventToHandler(
+        BRIQPAY_WEBHOOK_EVENT.REFUND_STATUS,
+        [await this.ctPaymentService.getPayment({ id: paymentId })],
+        briqpaySession,
+        this.extractActualStatuses(briqpaySession, undefined, refundId),
+        undefined,
+        refundId,
+      )
+      replayed.push({ event: BRIQPAY_WEBHOOK_EVENT.REFUND_STATUS, status, refundId })
+    }
+
+    await this.ingestSessionDataToOrder(briqpaySessionId, paymentId)
+
+    const resynced = await this.ctPaymentService.getPayment({ id: paymentId })
+    appLogger.info({ paymentId, briqpaySessionId, replayed }, 'Resynced Briqpay payment')
+
+    return {
+      paymentId,
+      briqpaySessionId,
+      replayed,
+      transactions: resynced.transactions.map((tx) => ({
+        id: tx.id,
+        type: tx.type,
+        state: tx.state,
+        interactionId: tx.interactionId,
+        amount: { centAmount: tx.amount.centAmount, currencyCode: tx.amount.currencyCode },
+      })),
+    }
+  }
+
+  /**
+   * Mandatory transaction data from the payload, with the capture/refund ids it belongs to.
+   */
+  private getTransactionData(data: NotificationRequestSchemaDTO) {
+    const { sessionId: briqpaySessionId, event } = data
+    const status = data.status as BRIQPAY_WEBHOOK_STATUS
+    const briqpayCaptureId = data.captureId ?? data.capture?.captureId
+    const briqpayRefundId = data.refundId ?? data.refund?.refundId
+
+    const transactionData = this.extractTransactionDataFromPayload(
+      data,
+      event,
+      briqpayCaptureId,
+      briqpayRefundId,
+      status,
+    )
+
+    if (!transactionData) {
+      appLogger.error({ briqpaySessionId, event, data }, 'Webhook payload missing mandatory transaction data')
+      throw new Error('Webhook processing failed: Missing transaction data in payload')
+    }
+
+    return { briqpayCaptureId, briqpayRefundId, transactionData }
+  }
+
   private extractTransactionDataFromPayload(
     data: NotificationRequestSchemaDTO,
     event: BRIQPAY_WEBHOOK_EVENT,
@@ -318,6 +420,7 @@ export class BriqpayNotificationService {
             amountExVat: transactionData.amountExVat,
             currency: transactionData.currency,
             createdAt: transactionData.createdAt,
+            expiresAt: transactionData.expiresAt,
             reservationId: transactionData.reservationId,
             pspId: transactionData.pspId,
             pspDisplayName: transactionData.pspDisplayName,
@@ -481,7 +584,13 @@ export class BriqpayNotificationService {
       const authHandlers: Partial<Record<BRIQPAY_WEBHOOK_STATUS, () => Promise<void>>> = {
         [BRIQPAY_WEBHOOK_STATUS.PENDING]: () => this.handleAuthorizationPending(payment, briqpaySession, cartId),
         [BRIQPAY_WEBHOOK_STATUS.APPROVED]: () => this.handleAuthorizationApproved(payment, briqpaySession, cartId),
-        [BRIQPAY_WEBHOOK_STATUS.REJECTED]: () => this.handleAuthorizationRejected(payment, briqpaySession, cartId),
+        [BRIQPAY_WEBHOOK_STATUS.REJECTED]: () =>
+          this.handleAuthorizationRejected(
+            payment,
+            briqpaySession,
+            cartId,
+            authorizationStatus === TRANSACTION_STATUS.CANCELLED,
+          ),
       }
 
       const handler = authHandlers[authWebhookStatus]
@@ -624,19 +733,41 @@ export class BriqpayNotificationService {
     )
 
     if (pendingAuthorization) {
-      await this.ctPaymentService.updatePayment({
-        id: payment[0].id,
-        transaction: {
-          type: 'Authorization',
-          interactionId: briqpaySessionId,
-          amount: pendingAuthorization.amount,
-          state: 'Success',
-        },
+      const updatedPayment = await this.applyTransaction(payment[0], {
+        type: 'Authorization',
+        interactionId: briqpaySessionId,
+        amount: pendingAuthorization.amount,
+        state: 'Success',
       })
-      appLogger.info({ briqpaySessionId }, 'Updated pending authorization to success')
+      if (updatedPayment) {
+        appLogger.info({ briqpaySessionId }, 'Updated pending authorization to success')
+      }
     }
   }
 
+  /**
+   * Writes a webhook-driven transaction change to CT unless the payment state machine rejects it,
+   * e.g. when a webhook arrives after a later one was already applied. The resulting merchant event
+   * is published without waiting for its delivery, so retries never hold up the webhook.
+   *
+   * @returns the updated payment, or undefined when the change was ignored
+   */
+  private applyTransaction = async (
+    payment: Payment,
+    transaction: TransactionData,
+    options?: TransitionOptions,
+  ): Promise<Payment | undefined> => {
+    const allowed = guardTransition(payment, transaction, options)
+    if (!allowed) {
+      return undefined
+    }
+
+    const updatedPayment = await this.ctPaymentService.updatePayment({ id: payment.id, transaction: allowed })
+    void this.merchantEventService.publishTransaction(payment, allowed)
+
+    return updatedPayment
+  }
+
   /**
    * Returns the CT Payment(s) to act on for an order-status webhook. When the cart already has a
    * Payment (the common case) it is returned as-is. When it has none - the buyer-never-returns case
@@ -706,15 +837,15 @@ export class BriqpayNotificationService {
     const amount = transaction?.amountIncVat ?? briqpaySession.data?.order?.amountIncVat ?? 0
     const currency = transaction?.currency ?? briqpaySession.data?.order?.currency ?? 'EUR'
 
-    const updatedPayment = await this.ctPaymentService.updatePayment({
-      id: payments[0].id,
-      transaction: {
-        type: 'Authorization',
-        interactionId: briqpaySessionId,
-        amount: { centAmount: amount, currencyCode: currency },
-        state: 'Pending',
-      },
+    const updatedPayment = await this.applyTransaction(payments[0], {
+      type: 'Authorization',
+      interactionId: briqpaySessionId,
+      amount: { centAmount: amount, currencyCode: currency },
+      state: 'Pending',
     })
+    if (!updatedPayment) {
+      return
+    }
 
     appLogger.info({ updatedPayment, transactionId: transaction?.transactionId }, 'Created Authorization Pending')
 
@@ -757,23 +888,24 @@ export class BriqpayNotificationService {
     const amount = transaction?.amountIncVat ?? briqpaySession.data?.order?.amountIncVat ?? 0
     const currency = transaction?.currency ?? briqpaySession.data?.order?.currency ?? 'EUR'
 
-    // Update authorization to Success if not already done
+    // Update authorization to Success if not already done. When the state machine ignores the
+    // approval the expiry is still recorded below, so a replayed approval can backfill it.
     if (!alreadySuccessful) {
-      const updatedPayment = await this.ctPaymentService.updatePayment({
-        id: payments[0].id,
-        transaction: {
-          type: 'Authorization',
-          interactionId: briqpaySessionId,
-          amount: { centAmount: amount, currencyCode: currency },
-          state: 'Success',
-        },
+      const updatedPayment = await this.applyTransaction(payments[0], {
+        type: 'Authorization',
+        interactionId: briqpaySessionId,
+        amount: { centAmount: amount, currencyCode: currency },
+        state: 'Success',
       })
-
-      appLogger.info({ updatedPayment, transactionId: transaction?.transactionId }, 'Created Authorization Success')
+      if (updatedPayment) {
+        appLogger.info({ updatedPayment, transactionId: transaction?.transactionId }, 'Created Authorization Success')
+      }
     } else {
       appLogger.info({ briqpaySessionId }, 'Authorization Success already exists, skipping.')
     }
 
+    await this.recordAuthorizationExpiry(payments[0], transaction)
+
     // Always attempt to ingest Briqpay session data to order custom fields
     await this.ingestSessionDataToOrder(briqpaySessionId, payments[0].id, cartId)
   }
@@ -781,11 +913,14 @@ export class BriqpayNotificationService {
   /**
    * Handles Authorization Rejected status.
    * Maps to CT Transaction Type: Authorization with state: Failure
+   *
+   * Only a cancellation releases an authorization that already succeeded; a late rejection is ignored.
    */
   private handleAuthorizationRejected = async (
     payment: Payment[],
     briqpaySession: MediumBriqpayResponse,
     cartId?: string,
+    cancelled = false,
   ) => {
     const briqpaySessionId = briqpaySession.sessionId
     const transaction = getTransaction(briqpaySession)
@@ -801,15 +936,19 @@ export class BriqpayNotificationService {
     const amount = transaction?.amountIncVat ?? briqpaySession.data?.order?.amountIncVat ?? 0
     const currency = transaction?.currency ?? briqpaySession.data?.order?.currency ?? 'EUR'
 
-    const updatedPayment = await this.ctPaymentService.updatePayment({
-      id: payments[0].id,
-      transaction: {
+    const updatedPayment = await this.applyTransaction(
+      payments[0],
+      {
         type: 'Authorization',
         interactionId: briqpaySessionId,
         amount: { centAmount: amount, currencyCode: currency },
         state: 'Failure',
       },
-    })
+      { release: cancelled },
+    )
+    if (!updatedPayment) {
+      return
+    }
 
     appLogger.info({ updatedPayment, transactionId: transaction?.transactionId }, 'Created Authorization Failure')
 
@@ -858,15 +997,15 @@ export class BriqpayNotificationService {
     const amount = capture?.amountIncVat ?? briqpaySession.data?.order?.amountIncVat ?? 0
     const currency = capture?.currency ?? briqpaySession.data?.order?.currency ?? 'EUR'
 
-    const updatedPayment = await this.ctPaymentService.updatePayment({
-      id: payment[0].id,
-      transaction: {
-        type: 'Charge',
-        interactionId: briqpayCaptureId,
-        amount: { centAmount: amount, currencyCode: currency },
-        state: 'Pending',
-      },
+    const updatedPayment = await this.applyTransaction(payment[0], {
+      type: 'Charge',
+      interactionId: briqpayCaptureId,
+      amount: { centAmount: amount, currencyCode: currency },
+      state: 'Pending',
     })
+    if (!updatedPayment) {
+      return
+    }
 
     appLogger.info({ updatedPayment, briqpayCaptureId, captureAmount: amount }, 'Created Charge Pending')
   }
@@ -903,15 +1042,15 @@ export class BriqpayNotificationService {
     const amount = capture?.amountIncVat ?? briqpaySession.data?.order?.amountIncVat ?? 0
     const currency = capture?.currency ?? briqpaySession.data?.order?.currency ?? 'EUR'
 
-    const updatedPayment = await this.ctPaymentService.updatePayment({
-      id: payment[0].id,
-      transaction: {
-        type: 'Charge',
-        interactionId: briqpayCaptureId,
-        amount: { centAmount: amount, currencyCode: currency },
-        state: 'Success',
-      },
+    const updatedPayment = await this.applyTransaction(payment[0], {
+      type: 'Charge',
+      interactionId: briqpayCaptureId,
+      amount: { centAmount: amount, currencyCode: currency },
+      state: 'Success',
     })
+    if (!updatedPayment) {
+      return
+    }
 
     appLogger.info({ updatedPayment, briqpayCaptureId, captureAmount: amount }, 'Created Charge Success')
 
@@ -945,19 +1084,38 @@ export class BriqpayNotificationService {
     const amount = capture?.amountIncVat ?? briqpaySession.data?.order?.amountIncVat ?? 0
     const currency = capture?.currency ?? briqpaySession.data?.order?.currency ?? 'EUR'
 
-    const updatedPayment = await this.ctPaymentService.updatePayment({
-      id: payment[0].id,
-      transaction: {
-        type: 'Charge',
-        interactionId: briqpayCaptureId,
-        amount: { centAmount: amount, currencyCode: currency },
-        state: 'Failure',
-      },
+    const updatedPayment = await this.applyTransaction(payment[0], {
+      type: 'Charge',
+      interactionId: briqpayCaptureId,
+      amount: { centAmount: amount, currencyCode: currency },
+      state: 'Failure',
     })
+    if (!updatedPayment) {
+      return
+    }
 
     appLogger.info({ updatedPayment, briqpayCaptureId, captureAmount: amount }, 'Created Charge Failure')
   }
 
+  /**
+   * Resolves the amount of a single refund. Prefers Briqpay's refund record, then the CT Refund
+   * transaction recorded for the same refund ID, and only then the order total, so a partial
+   * refund is never booked as the full order amount.
+   */
+  private getRefundAmount(payment: Payment, briqpaySession: MediumBriqpayResponse, briqpayRefundId: string) {
+    const refund = getRefund(briqpaySession, briqpayRefundId)
+    const refundTransaction = payment.transactions.find(
+      (tx) => tx.type === 'Refund' && tx.interactionId === briqpayRefundId,
+    )
+
+    return {
+      centAmount:
+        refund?.amountIncVat ?? refundTransaction?.amount.centAmount ?? briqpaySession.data?.order?.amountIncVat ?? 0,
+      currencyCode:
+        refund?.currency ?? refundTransaction?.amount.currencyCode ?? briqpaySession.data?.order?.currency ?? 'EUR',
+    }
+  }
+
   /**
    * Handles Refund Pending status.
    * Maps to CT Transaction Type: Refund with state: Pending
@@ -969,7 +1127,6 @@ export class BriqpayNotificationService {
     _status: BRIQPAY_WEBHOOK_STATUS,
   ) => {
     const briqpaySessionId = briqpaySession.sessionId
-    const refund = getRefund(briqpaySession, briqpayRefundId)
 
     // If no payment exists, log and return gracefully
     if (!payment.length) {
@@ -992,19 +1149,21 @@ export class BriqpayNotificationService {
     // Update pending authorization to success
     await this.updatePendingAuthorization(payment, briqpaySessionId)
 
-    // Use refund amount if available, fallback to order amount
-    const amount = refund?.amountIncVat ?? briqpaySession.data?.order?.amountIncVat ?? 0
-    const currency = refund?.currency ?? briqpaySession.data?.order?.currency ?? 'EUR'
+    const { centAmount: amount, currencyCode: currency } = this.getRefundAmount(
+      payment[0],
+      briqpaySession,
+      briqpayRefundId,
+    )
 
-    const updatedPayment = await this.ctPaymentService.updatePayment({
-      id: payment[0].id,
-      transaction: {
-        type: 'Refund',
-        interactionId: briqpayRefundId,
-        amount: { centAmount: amount, currencyCode: currency },
-        state: 'Pending',
-      },
+    const updatedPayment = await this.applyTransaction(payment[0], {
+      type: 'Refund',
+      interactionId: briqpayRefundId,
+      amount: { centAmount: amount, currencyCode: currency },
+      state: 'Pending',
     })
+    if (!updatedPayment) {
+      return
+    }
 
     appLogger.info({ updatedPayment, briqpayRefundId, refundAmount: amount }, 'Created Refund Pending')
   }
@@ -1020,7 +1179,6 @@ export class BriqpayNotificationService {
     _status: BRIQPAY_WEBHOOK_STATUS,
   ) => {
     const briqpaySessionId = briqpaySession.sessionId
-    const refund = getRefund(briqpaySession, briqpayRefundId)
 
     // If no payment exists, log and return gracefully
     if (!payment.length) {
@@ -1034,19 +1192,21 @@ export class BriqpayNotificationService {
     // Update pending authorization to success
     await this.updatePendingAuthorization(payment, briqpaySessionId)
 
-    // Use refund amount if available, fallback to order amount
-    const amount = refund?.amountIncVat ?? briqpaySession.data?.order?.amountIncVat ?? 0
-    const currency = refund?.currency ?? briqpaySession.data?.order?.currency ?? 'EUR'
+    const { centAmount: amount, currencyCode: currency } = this.getRefundAmount(
+      payment[0],
+      briqpaySession,
+      briqpayRefundId,
+    )
 
-    const updatedPayment = await this.ctPaymentService.updatePayment({
-      id: payment[0].id,
-      transaction: {
-        type: 'Refund',
-        interactionId: briqpayRefundId,
-        amount: { centAmount: amount, currencyCode: currency },
-        state: 'Success',
-      },
+    const updatedPayment = await this.applyTransaction(payment[0], {
+      type: 'Refund',
+      interactionId: briqpayRefundId,
+      amount: { centAmount: amount, currencyCode: currency },
+      state: 'Success',
     })
+    if (!updatedPayment) {
+      return
+    }
 
     appLogger.info({ updatedPayment, briqpayRefundId, refundAmount: amount }, 'Created Refund Success')
   }
@@ -1062,7 +1222,6 @@ export class BriqpayNotificationService {
     _status: BRIQPAY_WEBHOOK_STATUS,
   ) => {
     const briqpaySessionId = briqpaySession.sessionId
-    const refund = getRefund(briqpaySession, briqpayRefundId)
 
     // If no payment exists, log and return gracefully
     if (!payment.length) {
@@ -1073,23 +1232,75 @@ export class BriqpayNotificationService {
       return
     }
 
-    // Use refund amount if available, fallback to order amount
-    const amount = refund?.amountIncVat ?? briqpaySession.data?.order?.amountIncVat ?? 0
-    const currency = refund?.currency ?? briqpaySession.data?.order?.currency ?? 'EUR'
+    const { centAmount: amount, currencyCode: currency } = this.getRefundAmount(
+      payment[0],
+      briqpaySession,
+      briqpayRefundId,
+    )
 
-    const updatedPayment = await this.ctPaymentService.updatePayment({
-      id: payment[0].id,
-      transaction: {
-        type: 'Refund',
-        interactionId: briqpayRefundId,
-        amount: { centAmount: amount, currencyCode: currency },
-        state: 'Failure',
-      },
+    const updatedPayment = await this.applyTransaction(payment[0], {
+      type: 'Refund',
+      interactionId: briqpayRefundId,
+      amount: { centAmount: amount, currencyCode: currency },
+      state: 'Failure',
     })
+    if (!updatedPayment) {
+      return
+    }
 
     appLogger.info({ updatedPayment, briqpayRefundId, refundAmount: amount }, 'Created Refund Failure')
   }
 
+  /**
+   * Stores the Briqpay authorization expiry on the CT Payment so the authorization expiry job can
+   * find it. Best-effort like the order ingestion: a missing payment custom type is logged only.
+   *
+   * @param payment - The CommerceTools payment holding the authorization
+   * @param transaction - The Briqpay authorization transaction
+   */
+  private recordAuthorizationExpiry = async (payment: Payment, transaction?: BriqpayTransaction): Promise<void> => {
+    const expiresAt = transaction?.expiresAt
+    if (!expiresAt || payment.custom?.fields?.[briqpayAuthorizationExpiresAtFieldName] === expiresAt) {
+      return
+    }
+
+    try {
+      if (payment.custom) {
+        // setCustomType would replace the payment's existing type and drop its other fields
+        await this.setPaymentCustomField(payment.id, briqpayAuthorizationExpiresAtFieldName, expiresAt)
+      } else {
+        await this.ctPaymentService.updatePayment({
+          id: payment.id,
+          customFields: {
+            type: { key: briqpayPaymentCustomTypeKey, typeId: 'type' },
+            fields: { [briqpayAuthorizationExpiresAtFieldName]: expiresAt },
+          },
+        })
+      }
+      appLogger.info({ paymentId: payment.id, expiresAt }, 'Stored Briqpay authorization expiry')
+    } catch (error) {
+      appLogger.warn(
+        { paymentId: payment.id, expiresAt, error: error instanceof Error ? error.message : error },
+        'Failed to store Briqpay authorization expiry on payment',
+      )
+    }
+  }
+
+  /**
+   * Sets one field of the payment's existing custom type, re-reading the version on each attempt
+   * since the webhook has usually just written a transaction to the same payment.
+   */
+  private setPaymentCustomField = async (paymentId: string, name: string, value: string): Promise<void> => {
+    await CtConflictRetry.withConflictRetry(async () => {
+      const { body: current } = await apiRoot.payments().withId({ ID: paymentId }).get().execute()
+      await apiRoot
+        .payments()
+        .withId({ ID: paymentId })
+        .post({ body: { version: current.version, actions: [{ action: 'setCustomField', name, value }] } })
+        .execute()
+    })
+  }
+
   /**
    * Finds the order associated with a payment and ingests Briqpay session data to order custom fields.
    * This is a best-effort operation - failures are logged but do not fail the notification processing.
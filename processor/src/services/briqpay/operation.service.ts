@@ -5,10 +5,11 @@ import {
   ErrorInvalidOperation,
   Money,
   Payment,
+  TransactionData,
   TransactionState,
   TransactionType,
 } from '@commercetools/connect-payments-sdk'
-import type { Cart as PlatformCart } from '@commercetools/platform-sdk'
+import type { LineItem, Order, Cart as PlatformCart } from '@commercetools/platform-sdk'
 import {
   CancelPaymentRequest,
   CapturePaymentRequest,
@@ -19,6 +20,11 @@ import {
 import { CreatePaymentRequest } from '../types/briqpay-payment.type'
 import { PaymentOutcome, PaymentResponseSchemaDTO } from '../../dtos/briqpay-payment.dto'
 import { TransactionDraftDTO, TransactionResponseDTO } from '../../dtos/operations/transaction.dto'
+import {
+  AmountSchemaDTO,
+  LineItemQuantitySchemaDTO,
+  PaymentModificationStatus,
+} from '../../dtos/operations/payment-intents.dto'
 import {
   getCartIdFromContext,
   getCheckoutTransactionItemIdFromContext,
@@ -26,22 +32,56 @@ import {
   getPaymentInterfaceFromContext,
 } from '../../libs/fastify/context/context'
 import { appLogger } from '../../payment-sdk'
-import Briqpay from '../../libs/briqpay/BriqpayService'
+import Briqpay, { BriqpayModificationSource } from '../../libs/briqpay/BriqpayService'
 import {
+  buildIdempotencyKey,
+  buildModificationFingerprint,
   convertNotificationStatus,
   convertPaymentModificationStatusCode,
   convertPaymentResultCode,
+  convertTransactionStateToModificationStatus,
+  countTransactions,
+  findTransactionByIdempotencyKey,
   getActualOrderStatus,
+  getRefundedAmountForCapture,
+  getTransaction,
   orderStatusToWebhookStatus,
 } from './utils'
 import { SessionError, ValidationError } from '../../libs/errors/briqpay-errors'
 import { briqpayCheckoutTransactionItemIdFieldName, briqpaySessionIdFieldName } from '../../custom-types/custom-types'
 import { apiRoot } from '../../libs/commercetools/api-root'
+import { guardTransition } from './payment-state-machine'
+import { BriqpayMerchantEventService } from './merchant-event.service'
 
 const PAYMENT_KEY_PREFIX = 'briqpay-'
 
 const buildPaymentKey = (briqpaySessionId: string): string => `${PAYMENT_KEY_PREFIX}${briqpaySessionId}`
 
+const isOrder = (source: BriqpayModificationSource): source is Order => 'orderState' in source
+
+const sumNonFailedAmounts = (payment: Payment, type: TransactionType): number =>
+  payment.transactions
+    .filter((tx) => tx.type === type && tx.state !== 'Failure')
+    .reduce((acc, tx) => acc + tx.amount.centAmount, 0)
+
+// The part of the authorized amount not yet covered by non-failed captures and releases
+const getRemainingAuthorization = (payment: Payment, authorizedAmount: number): number =>
+  authorizedAmount - sumNonFailedAmounts(payment, 'Charge') - sumNonFailedAmounts(payment, 'CancelAuthorization')
+
+/**
+ * The discounted gross total of the selected line-item quantities, pro rata per line, which is what
+ * Briqpay receives for a line-item capture or refund.
+ */
+const getSelectedLinesTotal = (lineItems: LineItem[], selection: LineItemQuantitySchemaDTO[]): number =>
+  selection.reduce((acc, { id, quantity }) => {
+    const lineItem = lineItems.find((item) => item.id === id)
+    if (!lineItem) {
+      return acc
+    }
+    const lineTotal = lineItem.taxedPrice?.totalGross?.centAmount ?? lineItem.totalPrice.centAmount
+    return acc + Math.round((lineTotal * quantity) / lineItem.quantity)
+  }, 0)
+
 type CtErrorShape = {
   httpErrorStatus?: number
   statusCode?: number
@@ -67,36 +107,67 @@ const isNotFoundError = (err: unknown): boolean => {
   return e.httpErrorStatus === 404 || e.statusCode === 404
 }
 
+// Modifications being sent to Briqpay right now, by request fingerprint. A double-submitted request
+// joins the one in flight; once that has settled, the same request is a new modification.
+const inFlightModifications = new Map<string, Promise<PaymentProviderModificationResponse>>()
+
+const collapseInFlight = (
+  fingerprint: string,
+  modify: () => Promise<PaymentProviderModificationResponse>,
+): Promise<PaymentProviderModificationResponse> => {
+  const inFlight = inFlightModifications.get(fingerprint)
+  if (inFlight) {
+    appLogger.info({ fingerprint }, 'Identical modification already in flight, joining it')
+    return inFlight
+  }
+
+  const modification = modify().finally(() => inFlightModifications.delete(fingerprint))
+  inFlightModifications.set(fingerprint, modification)
+  return modification
+}
+
 export class BriqpayOperationService {
   constructor(
     private readonly ctCartService: CommercetoolsCartService,
     private readonly ctPaymentService: CommercetoolsPaymentService,
+    private readonly merchantEventService: BriqpayMerchantEventService = new BriqpayMerchantEventService(),
   ) {}
 
-  public async capturePayment(request: CapturePaymentRequest): Promise<PaymentProviderModificationResponse> {
+  public capturePayment(request: CapturePaymentRequest): Promise<PaymentProviderModificationResponse> {
+    const discriminator = { lineItems: request.lineItems, merchantReference: request.merchantReference }
+    return collapseInFlight(
+      buildModificationFingerprint(request.payment.id, 'capture', request.amount, discriminator),
+      () => this.capture(request),
+    )
+  }
+
+  private async capture(request: CapturePaymentRequest): Promise<PaymentProviderModificationResponse> {
     const briqpaySessionId = request.payment.transactions.find((tx) => tx.type === 'Authorization')?.interactionId
     if (!briqpaySessionId) {
       throw new SessionError('Cannot find briqpay session for capture')
     }
 
-    const captureExists = request.payment.transactions.some((tx) => tx.type === 'Charge' && tx.state !== 'Failure')
-    if (captureExists) {
-      throw new ErrorInvalidOperation('Payment is already captured')
+    const idempotencyKey = buildIdempotencyKey(
+      request.payment.id,
+      'capture',
+      request.amount,
+      { lineItems: request.lineItems, merchantReference: request.merchantReference },
+      countTransactions(request.payment, 'Charge'),
+    )
+    const replayedCapture = this.findReplayedModification(request.payment, 'Charge', idempotencyKey)
+    if (replayedCapture) {
+      return replayedCapture
     }
 
-    const ctCart = await this.ctCartService.getCartByPaymentId({
-      paymentId: request.payment.id,
-    })
+    const source = await this.getModificationSource(request.payment.id)
 
-    if (request.amount?.centAmount !== (ctCart.taxedPrice?.totalGross?.centAmount ?? ctCart.totalPrice.centAmount)) {
-      throw new ValidationError('Commerce Tools does not support partial captures towards all payment providers')
-    }
+    const authorizedAmount = await this.getAuthorizedAmount(briqpaySessionId, source)
+    this.validateCaptureRequest(request, source, authorizedAmount)
 
-    const briqpayCapture = await Briqpay.capture(
-      ctCart as PlatformCart,
-      request.payment.amountPlanned,
-      briqpaySessionId,
-    )
+    const briqpayCapture = await Briqpay.capture(source, request.amount, briqpaySessionId, {
+      idempotencyKey,
+      lineItems: request.lineItems,
+    })
 
     // Update pending authorization to success if needed
     const pendingAuthorization = request.payment.transactions.find(
@@ -104,25 +175,20 @@ export class BriqpayOperationService {
     )
 
     if (pendingAuthorization) {
-      await this.ctPaymentService.updatePayment({
-        id: request.payment.id,
-        transaction: {
-          type: 'Authorization',
-          interactionId: briqpaySessionId,
-          amount: pendingAuthorization.amount,
-          state: convertPaymentResultCode(PaymentOutcome.APPROVED),
-        },
+      await this.applyTransaction(request.payment, {
+        type: 'Authorization',
+        interactionId: briqpaySessionId,
+        amount: pendingAuthorization.amount,
+        state: convertPaymentResultCode(PaymentOutcome.APPROVED),
       })
     }
 
-    await this.ctPaymentService.updatePayment({
-      id: request.payment.id,
-      transaction: {
-        type: 'Charge',
-        amount: request.amount,
-        state: convertPaymentResultCode(briqpayCapture.status),
-        interactionId: briqpayCapture.captureId,
-      },
+    await this.applyTransaction(request.payment, {
+      type: 'Charge',
+      amount: request.amount,
+      state: convertPaymentResultCode(briqpayCapture.status),
+      interactionId: briqpayCapture.captureId,
+      interfaceId: idempotencyKey,
     })
 
     return {
@@ -131,28 +197,138 @@ export class BriqpayOperationService {
     }
   }
 
-  public async cancelPayment(request: CancelPaymentRequest): Promise<PaymentProviderModificationResponse> {
+  /**
+   * Writes the transaction of a merchant-initiated modification unless the payment state machine
+   * rejects it, then publishes the resulting merchant event without waiting for its delivery.
+   */
+  private async applyTransaction(payment: Payment, transaction: TransactionData): Promise<void> {
+    const allowed = guardTransition(payment, transaction)
+
+    await this.ctPaymentService.updatePayment({ id: payment.id, transaction: allowed })
+
+    if (allowed) {
+      void this.merchantEventService.publishTransaction(payment, allowed)
+    }
+  }
+
+  /**
+   * The authorized amount is the Briqpay transaction's `amountIncVat`, which is what Briqpay will
+   * let us capture against. The order total is only used when Briqpay does not report it.
+   */
+  private async getAuthorizedAmount(briqpaySessionId: string, source: BriqpayModificationSource): Promise<number> {
+    const briqpaySession = await Briqpay.getSession(briqpaySessionId)
+    return (
+      getTransaction(briqpaySession)?.amountIncVat ??
+      source.taxedPrice?.totalGross?.centAmount ??
+      source.totalPrice.centAmount
+    )
+  }
+
+  /**
+   * The amount still open for capture, exactly as a capture is validated: the Briqpay authorized
+   * amount minus non-failed captures and releases.
+   */
+  public async getRemainingAuthorizedAmount(payment: Payment): Promise<number> {
+    const briqpaySessionId = payment.transactions.find((tx) => tx.type === 'Authorization')?.interactionId
+    if (!briqpaySessionId) {
+      throw new SessionError('Cannot find briqpay session for capture')
+    }
+
+    const source = await this.getModificationSource(payment.id)
+    return getRemainingAuthorization(payment, await this.getAuthorizedAmount(briqpaySessionId, source))
+  }
+
+  /**
+   * An authorization may be captured in several parts until it is used up. Every capture is
+   * checked against the authorized amount minus the running balance of non-failed Charge and
+   * released (CancelAuthorization) transactions, and may be restricted to a selection of line items that must exist in the order.
+   * A line-item capture must be for exactly the selected lines' total.
+   */
+  private validateCaptureRequest(
+    request: CapturePaymentRequest,
+    source: BriqpayModificationSource,
+    authorizedAmount: number,
+  ): void {
+    const capturedAmount = sumNonFailedAmounts(request.payment, 'Charge')
+    const remainingAmount = getRemainingAuthorization(request.payment, authorizedAmount)
+
+    if (request.amount.currencyCode !== source.totalPrice.currencyCode) {
+      throw new ValidationError(
+        `Capture currency ${request.amount.currencyCode} does not match payment currency ${source.totalPrice.currencyCode}`,
+      )
+    }
+
+    if (request.amount.centAmount <= 0 || request.amount.centAmount > remainingAmount) {
+      appLogger.error(
+        { authorizedAmount, capturedAmount, requestedAmount: request.amount.centAmount },
+        'Capture exceeds remaining authorization',
+      )
+      throw new ValidationError(
+        `Capture amount ${request.amount.centAmount} must be greater than 0 and at most the remaining authorized amount ${remainingAmount}`,
+      )
+    }
+
+    for (const { id, quantity } of request.lineItems ?? []) {
+      const lineItem = source.lineItems.find((item) => item.id === id)
+      if (!lineItem) {
+        throw new ValidationError(`Line item ${id} not found in ${isOrder(source) ? 'order' : 'cart'} ${source.id}`)
+      }
+      if (quantity > lineItem.quantity) {
+        throw new ValidationError(`Cannot capture ${quantity} of line item ${id}: only ${lineItem.quantity} ordered`)
+      }
+    }
+
+    if (request.lineItems?.length) {
+      const selectedTotal = getSelectedLinesTotal(source.lineItems, request.lineItems)
+      if (request.amount.centAmount !== selectedTotal) {
+        throw new ValidationError(
+          `Capture amount ${request.amount.centAmount} does not match the selected line items total ${selectedTotal}`,
+        )
+      }
+    }
+  }
+
+  /**
+   * Cancels the authorization. Before any capture the whole Briqpay order is cancelled; after
+   * partial captures only the uncaptured remainder is released (Briqpay cancels what is left of
+   * the reservation), so the customer's credit or invoice limit is freed after a partial shipment.
+   * The CancelAuthorization transaction carries the released amount only.
+   */
+  public cancelPayment(request: CancelPaymentRequest): Promise<PaymentProviderModificationResponse> {
+    return collapseInFlight(
+      buildModificationFingerprint(request.payment.id, 'cancel', request.payment.amountPlanned),
+      () => this.cancel(request),
+    )
+  }
+
+  private async cancel(request: CancelPaymentRequest): Promise<PaymentProviderModificationResponse> {
     const briqpaySessionId = request.payment.transactions.find((tx) => tx.type === 'Authorization')?.interactionId
     if (!briqpaySessionId) {
       throw new SessionError('Cannot find briqpay session for cancellation')
     }
 
-    // Check if there's already a successful capture
-    const hasCapture = request.payment.transactions.some((tx) => tx.type === 'Charge' && tx.state === 'Success')
-    if (hasCapture) {
-      throw new ErrorInvalidOperation('Cannot cancel a payment that has been captured')
+    const usedAmount =
+      sumNonFailedAmounts(request.payment, 'Charge') + sumNonFailedAmounts(request.payment, 'CancelAuthorization')
+    const cancelAmount =
+      usedAmount > 0
+        ? await this.getReleasableAmount(request.payment, briqpaySessionId, usedAmount)
+        : request.payment.amountPlanned
+
+    if (cancelAmount.centAmount <= 0) {
+      return this.getEarlierCancelOutcome(request.payment)
     }
 
+    // Only one cancel of the remaining authorization can ever apply, so its key is the fingerprint itself
+    const idempotencyKey = buildModificationFingerprint(request.payment.id, 'cancel', cancelAmount)
+
     try {
-      const cancelResult = await Briqpay.cancel(briqpaySessionId)
-
-      await this.ctPaymentService.updatePayment({
-        id: request.payment.id,
-        transaction: {
-          type: 'CancelAuthorization',
-          amount: request.payment.amountPlanned,
-          state: convertPaymentResultCode(cancelResult.status),
-        },
+      const cancelResult = await Briqpay.cancel(briqpaySessionId, idempotencyKey)
+
+      await this.applyTransaction(request.payment, {
+        type: 'CancelAuthorization',
+        amount: cancelAmount,
+        state: convertPaymentResultCode(cancelResult.status),
+        interfaceId: idempotencyKey,
       })
 
       return {
@@ -165,7 +341,57 @@ export class BriqpayOperationService {
     }
   }
 
-  public async refundPayment(request: RefundPaymentRequest): Promise<PaymentProviderModificationResponse> {
+  /**
+   * The part of the Briqpay authorization not yet covered by non-failed captures and cancels.
+   */
+  private async getReleasableAmount(payment: Payment, briqpaySessionId: string, usedAmount: number): Promise<Money> {
+    const briqpaySession = await Briqpay.getSession(briqpaySessionId)
+    const authorizedAmount = getTransaction(briqpaySession)?.amountIncVat ?? payment.amountPlanned.centAmount
+
+    return {
+      centAmount: Math.max(authorizedAmount - usedAmount, 0),
+      currencyCode: payment.amountPlanned.currencyCode,
+    }
+  }
+
+  /**
+   * Nothing is left to release: a repeated cancel returns the outcome of the successful or pending
+   * cancel that released the authorization, without cancelling the Briqpay session again.
+   */
+  private getEarlierCancelOutcome(payment: Payment): PaymentProviderModificationResponse {
+    const earlierCancel = payment.transactions.find((tx) => tx.type === 'CancelAuthorization' && tx.state !== 'Failure')
+    if (!earlierCancel) {
+      throw new ErrorInvalidOperation('Cannot cancel a payment that has been captured in full')
+    }
+
+    appLogger.info(
+      { paymentId: payment.id, state: earlierCancel.state },
+      'Authorization already released, returning the earlier cancel outcome',
+    )
+    return {
+      outcome: convertTransactionStateToModificationStatus(earlierCancel.state),
+      pspReference: payment.interfaceId as string,
+    }
+  }
+
+  public refundPayment(request: RefundPaymentRequest): Promise<PaymentProviderModificationResponse> {
+    // A request without an amount is rejected by the refund validation and has nothing to collapse
+    if (!request.amount) {
+      return this.refund(request)
+    }
+
+    const discriminator = {
+      captureId: request.captureId,
+      merchantReference: request.merchantReference,
+      returnItemIds: request.returnItemIds,
+    }
+    return collapseInFlight(
+      buildModificationFingerprint(request.payment.id, 'refund', request.amount, discriminator),
+      () => this.refund(request),
+    )
+  }
+
+  private async refund(request: RefundPaymentRequest): Promise<PaymentProviderModificationResponse> {
     appLogger.info({ paymentId: request.payment.id }, 'Starting refundPayment')
 
     const briqpaySessionId = request.payment.transactions.find((tx) => tx.type === 'Authorization')?.interactionId
@@ -176,73 +402,75 @@ export class BriqpayOperationService {
       throw new ErrorInvalidOperation('Cannot find briqpay session')
     }
 
-    const existingCapture = request.payment.transactions.find((tx) => tx.type === 'Charge' && tx.state === 'Success')
-    appLogger.info({ existingCapture }, 'Found existing capture')
-
-    if (!existingCapture) {
+    const hasCapture = request.payment.transactions.some((tx) => tx.type === 'Charge' && tx.state === 'Success')
+    if (!hasCapture) {
       appLogger.error({ transactions: request.payment.transactions }, 'Must have a successful capture first')
       throw new ErrorInvalidOperation('Must have a successful capture first')
     }
 
-    const refundExists = request.payment.transactions.some((tx) => tx.type === 'Refund' && tx.state !== 'Failure')
-    appLogger.info({ refundExists }, 'Checking if refund already exists')
+    // Without an amount there is no modification to key or replay, and the refund validation rejects it
+    if (!request.amount) {
+      this.validateRefundAmount(request)
+    }
 
-    if (refundExists) {
-      appLogger.error({ transactions: request.payment.transactions }, 'Already refunded')
-      throw new ErrorInvalidOperation('Already refunded')
+    const idempotencyKey = buildIdempotencyKey(
+      request.payment.id,
+      'refund',
+      request.amount,
+      {
+        captureId: request.captureId,
+        merchantReference: request.merchantReference,
+        returnItemIds: request.returnItemIds,
+      },
+      countTransactions(request.payment, 'Refund'),
+    )
+    const replayedRefund = this.findReplayedModification(request.payment, 'Refund', idempotencyKey)
+    if (replayedRefund) {
+      return replayedRefund
     }
 
-    appLogger.info({ paymentId: request.payment.id }, 'Getting cart by payment ID')
-    const ctCart = await this.ctCartService.getCartByPaymentId({
-      paymentId: request.payment.id,
-    })
-    appLogger.info({ cartId: ctCart.id }, 'Retrieved cart')
+    this.validateRefundAmount(request)
 
-    const expectedAmount = ctCart.taxedPrice?.totalGross?.centAmount ?? ctCart.totalPrice.centAmount
-    appLogger.info({ requestedAmount: request.amount?.centAmount, expectedAmount }, 'Checking refund amount')
+    const source = await this.getModificationSource(request.payment.id)
+    const returnRefund = request.returnItemIds?.length
+      ? this.resolveReturnRefund(source, request.returnItemIds, request.amount)
+      : undefined
 
-    if (request.amount?.centAmount !== expectedAmount) {
-      appLogger.error({ requestedAmount: request.amount?.centAmount, expectedAmount }, 'Amount mismatch')
-      throw new ErrorInvalidOperation('Commerce Tools does not support partial refunds towards all payment providers')
-    }
+    // A caller that already knows the capture, like reversePayment, refunds it without re-resolving
+    const captureId =
+      request.captureId ?? (await this.resolveRefundCaptureId(request.payment, briqpaySessionId, request.amount))
 
-    appLogger.info(
-      { sessionId: briqpaySessionId, captureId: existingCapture.interactionId },
-      'Calling Briqpay refund API',
-    )
-    const briqpayRefund = await Briqpay.refund(
-      ctCart as PlatformCart,
-      request.payment.amountPlanned,
-      briqpaySessionId,
-      existingCapture.interactionId,
-    )
+    appLogger.info({ sessionId: briqpaySessionId, captureId }, 'Calling Briqpay refund API')
+    const briqpayRefund = await Briqpay.refund(source, request.amount, briqpaySessionId, captureId, {
+      idempotencyKey,
+      lineItems: returnRefund?.lineItems,
+    })
     appLogger.info({ briqpayRefund }, 'Briqpay refund completed')
 
+    if (returnRefund && request.returnItemIds) {
+      await this.updateReturnPaymentState(returnRefund.order, request.returnItemIds, briqpayRefund.status)
+    }
+
     // Update pending authorization to success if needed
     const pendingAuthorization = request.payment.transactions.find(
       (tx) => tx.type === 'Authorization' && tx.interactionId === briqpaySessionId && tx.state === 'Pending',
     )
 
     if (pendingAuthorization) {
-      await this.ctPaymentService.updatePayment({
-        id: request.payment.id,
-        transaction: {
-          type: 'Authorization',
-          interactionId: briqpaySessionId,
-          amount: pendingAuthorization.amount,
-          state: convertPaymentResultCode(PaymentOutcome.APPROVED),
-        },
+      await this.applyTransaction(request.payment, {
+        type: 'Authorization',
+        interactionId: briqpaySessionId,
+        amount: pendingAuthorization.amount,
+        state: convertPaymentResultCode(PaymentOutcome.APPROVED),
       })
     }
 
-    await this.ctPaymentService.updatePayment({
-      id: request.payment.id,
-      transaction: {
-        type: 'Refund',
-        amount: request.amount,
-        state: convertPaymentResultCode(briqpayRefund.status),
-        interactionId: briqpayRefund.refundId,
-      },
+    await this.applyTransaction(request.payment, {
+      type: 'Refund',
+      amount: request.amount,
+      state: convertPaymentResultCode(briqpayRefund.status),
+      interactionId: briqpayRefund.refundId,
+      interfaceId: idempotencyKey,
     })
 
     return {
@@ -251,45 +479,259 @@ export class BriqpayOperationService {
     }
   }
 
+  /**
+   * A refund may be any positive amount up to the captured-minus-refunded balance. Pending
+   * refunds count against the balance so two concurrent refunds cannot overdraw it.
+   */
+  private validateRefundAmount(request: RefundPaymentRequest): void {
+    const sumAmounts = (type: TransactionType, states: TransactionState[]) =>
+      request.payment.transactions
+        .filter((tx) => tx.type === type && states.includes(tx.state))
+        .reduce((acc, tx) => acc + tx.amount.centAmount, 0)
+
+    const refundableAmount = sumAmounts('Charge', ['Success']) - sumAmounts('Refund', ['Success', 'Pending'])
+    const requestedAmount = request.amount?.centAmount
+
+    appLogger.info({ requestedAmount, refundableAmount }, 'Checking refund amount')
+
+    if (!requestedAmount || requestedAmount <= 0 || requestedAmount > refundableAmount) {
+      appLogger.error({ requestedAmount, refundableAmount }, 'Refund amount exceeds refundable balance')
+      throw new ErrorInvalidOperation(
+        `Refund amount ${requestedAmount} must be greater than 0 and at most the refundable balance ${refundableAmount}`,
+      )
+    }
+  }
+
+  /**
+   * Resolves CT Order return items into the line-item selection sent to Briqpay. Quantities of
+   * several return items for the same line are summed, and the requested amount must equal the
+   * returned lines' discounted total so the Briqpay refund matches what was actually returned.
+   */
+  private resolveReturnRefund(
+    source: BriqpayModificationSource,
+    returnItemIds: string[],
+    amount: AmountSchemaDTO,
+  ): { order: Order; lineItems: LineItemQuantitySchemaDTO[] } {
+    if (!isOrder(source)) {
+      throw new ValidationError(`No order found for cart ${source.id}, cannot refund return items`)
+    }
+    const order = source
+
+    const returnItems = (order.returnInfo ?? []).flatMap((info) => info.items)
+    const quantities = new Map<string, number>()
+    for (const returnItemId of returnItemIds) {
+      const returnItem = returnItems.find((item) => item.id === returnItemId)
+      if (!returnItem) {
+        throw new ValidationError(`Return item ${returnItemId} not found on order ${order.id}`)
+      }
+      if (returnItem.type !== 'LineItemReturnItem') {
+        throw new ValidationError(`Return item ${returnItemId} does not reference a line item`)
+      }
+      if (returnItem.paymentState === 'Refunded') {
+        throw new ErrorInvalidOperation(`Return item ${returnItemId} has already been refunded`)
+      }
+      quantities.set(returnItem.lineItemId, (quantities.get(returnItem.lineItemId) ?? 0) + returnItem.quantity)
+    }
+
+    const lineItems = [...quantities].map(([id, quantity]) => ({ id, quantity }))
+    const returnedTotal = getSelectedLinesTotal(order.lineItems, lineItems)
+
+    if (amount.centAmount !== returnedTotal) {
+      throw new ValidationError(
+        `Refund amount ${amount.centAmount} does not match the returned items total ${returnedTotal}`,
+      )
+    }
+
+    return { order, lineItems }
+  }
+
+  /**
+   * Marks refunded return items on the CT Order so the return links back to its refund. Pending
+   * refunds leave the return items untouched. Briqpay has already moved the money at this point,
+   * so a failure here is logged rather than thrown.
+   */
+  private async updateReturnPaymentState(order: Order, returnItemIds: string[], status: PaymentOutcome) {
+    if (status === PaymentOutcome.PENDING) {
+      return
+    }
+    const paymentState = status === PaymentOutcome.APPROVED ? 'Refunded' : 'NotRefunded'
+
+    try {
+      await apiRoot
+        .orders()
+        .withId({ ID: order.id })
+        .post({
+          body: {
+            version: order.version,
+            actions: returnItemIds.map((returnItemId) => ({
+              action: 'setReturnPaymentState' as const,
+              returnItemId,
+              paymentState,
+            })),
+          },
+        })
+        .execute()
+    } catch (error) {
+      appLogger.error({ error, orderId: order.id, returnItemIds }, 'Failed to update return item payment state')
+    }
+  }
+
+  /**
+   * Capture and refund payloads are built from the CT Order linked to the payment so they include
+   * order edits made after checkout. The cart is only used while no order exists yet.
+   */
+  private async getModificationSource(paymentId: string): Promise<BriqpayModificationSource> {
+    const ordersResponse = await apiRoot
+      .orders()
+      .get({ queryArgs: { where: `paymentInfo(payments(id="${paymentId}"))`, limit: 1 } })
+      .execute()
+    const order = ordersResponse.body.results[0]
+    if (order) {
+      appLogger.info({ paymentId, orderId: order.id }, 'Using order for payment modification')
+      return order
+    }
+
+    appLogger.info({ paymentId }, 'No order for payment yet, using cart for payment modification')
+    const ctCart = await this.ctCartService.getCartByPaymentId({ paymentId })
+    return ctCart as PlatformCart
+  }
+
+  /**
+   * Picks the Briqpay capture a refund is booked against. With a single capture that is the only
+   * candidate; with several, Briqpay's own refund history decides which capture still has enough
+   * refundable balance, since CT transactions do not record a refund's parent capture.
+   */
+  private async resolveRefundCaptureId(
+    payment: Payment,
+    briqpaySessionId: string,
+    amount: AmountSchemaDTO,
+  ): Promise<string | undefined> {
+    const captures = payment.transactions.filter((tx) => tx.type === 'Charge' && tx.state === 'Success')
+    if (captures.length <= 1) {
+      return captures[0]?.interactionId
+    }
+
+    const briqpaySession = await Briqpay.getSession(briqpaySessionId)
+    const parentCapture = captures.find(
+      (capture) =>
+        !!capture.interactionId &&
+        capture.amount.centAmount - getRefundedAmountForCapture(briqpaySession, capture.interactionId) >=
+          amount.centAmount,
+    )
+
+    if (!parentCapture) {
+      throw new ErrorInvalidOperation(
+        `Refund amount ${amount.centAmount} exceeds the refundable balance of every individual capture`,
+      )
+    }
+
+    return parentCapture.interactionId
+  }
+
+  /**
+   * Returns the original outcome when a modification with the same idempotency key has already
+   * been recorded on the payment, so a replayed request never reaches Briqpay a second time. Without a
+   * merchantReference the key includes the recorded transaction count, so only a retry made before its
+   * transaction was recorded shares the key.
+   */
+  private findReplayedModification(
+    payment: Payment,
+    transactionType: TransactionType,
+    idempotencyKey: string,
+  ): PaymentProviderModificationResponse | undefined {
+    const recorded = findTransactionByIdempotencyKey(payment, transactionType, idempotencyKey)
+    if (!recorded) {
+      return undefined
+    }
+
+    appLogger.info(
+      { paymentId: payment.id, transactionType, idempotencyKey, state: recorded.state },
+      'Modification already applied, returning recorded outcome',
+    )
+
+    return {
+      outcome: convertTransactionStateToModificationStatus(recorded.state),
+      pspReference: payment.interfaceId as string,
+    }
+  }
+
+  /**
+   * Reverses what the payment still holds: the unrefunded balance of every capture is refunded, and
+   * an authorization that is still open (neither fully captured nor cancelled) is cancelled, so after
+   * a partial capture both happen. The first outcome that is not approved is returned.
+   */
   public async reversePayment(request: ReversePaymentRequest): Promise<PaymentProviderModificationResponse> {
-    const hasCharge = this.ctPaymentService.hasTransactionInState({
-      payment: request.payment,
-      transactionType: 'Charge',
-      states: ['Success'],
-    })
-    const hasRefund = this.ctPaymentService.hasTransactionInState({
-      payment: request.payment,
-      transactionType: 'Refund',
-      states: ['Success', 'Pending'],
-    })
-    const hasCancelAuthorization = this.ctPaymentService.hasTransactionInState({
-      payment: request.payment,
-      transactionType: 'CancelAuthorization',
-      states: ['Success', 'Pending'],
-    })
+    const { payment } = request
+    const refunds = await this.getUnrefundedCaptures(payment)
+    const hasOpenAuthorization = await this.hasOpenAuthorization(payment)
 
-    const wasPaymentReverted = hasRefund || hasCancelAuthorization
+    if (!refunds.length && !hasOpenAuthorization) {
+      throw new ErrorInvalidOperation('There is no successful payment transaction to reverse.')
+    }
 
-    // If payment has been captured (hasCharge) and not yet refunded, use refund
-    if (hasCharge && !wasPaymentReverted) {
-      return this.refundPayment({
-        payment: request.payment,
-        merchantReference: request.merchantReference,
-        amount: request.payment.amountPlanned,
-      })
+    const responses: PaymentProviderModificationResponse[] = []
+    for (const { captureId, centAmount } of refunds) {
+      responses.push(
+        await this.refundPayment({
+          payment,
+          merchantReference: request.merchantReference,
+          // The capture is part of the key, so equal balances of different captures are not deduplicated
+          captureId,
+          amount: { centAmount, currencyCode: payment.amountPlanned.currencyCode },
+        }),
+      )
     }
 
-    // If payment has been authorized but not captured, and not yet cancelled, use cancel
-    const hasAuthorization = this.ctPaymentService.hasTransactionInState({
-      payment: request.payment,
-      transactionType: 'Authorization',
-      states: ['Success'],
-    })
-    if (hasAuthorization && !wasPaymentReverted) {
-      return this.cancelPayment({ payment: request.payment })
+    if (hasOpenAuthorization) {
+      responses.push(await this.cancelPayment({ payment, merchantReference: request.merchantReference }))
+    }
+
+    return responses.find((response) => response.outcome !== PaymentModificationStatus.APPROVED) ?? responses[0]
+  }
+
+  /**
+   * Whether part of a successful authorization is still releasable, calculated like cancelPayment
+   * does: the Briqpay authorized amount minus non-failed captures and cancels.
+   */
+  private async hasOpenAuthorization(payment: Payment): Promise<boolean> {
+    const briqpaySessionId = payment.transactions.find(
+      (tx) => tx.type === 'Authorization' && tx.state === 'Success',
+    )?.interactionId
+    if (!briqpaySessionId) {
+      return false
     }
 
-    throw new ErrorInvalidOperation('There is no successful payment transaction to reverse.')
+    const usedAmount = sumNonFailedAmounts(payment, 'Charge') + sumNonFailedAmounts(payment, 'CancelAuthorization')
+    const releasableAmount = await this.getReleasableAmount(payment, briqpaySessionId, usedAmount)
+    return releasableAmount.centAmount > 0
+  }
+
+  /**
+   * The captures of a payment with their unrefunded balance. With a single capture that is the
+   * captured amount minus the successful and pending refunds; with several, Briqpay's refund history
+   * tells which capture each refund was booked against.
+   */
+  private async getUnrefundedCaptures(payment: Payment): Promise<{ captureId?: string; centAmount: number }[]> {
+    const captures = payment.transactions.filter((tx) => tx.type === 'Charge' && tx.state === 'Success')
+    const refundedAmount = payment.transactions
+      .filter((tx) => tx.type === 'Refund' && (tx.state === 'Success' || tx.state === 'Pending'))
+      .reduce((acc, tx) => acc + tx.amount.centAmount, 0)
+
+    const briqpaySessionId = payment.transactions.find((tx) => tx.type === 'Authorization')?.interactionId
+    if (captures.length <= 1 || !briqpaySessionId) {
+      const centAmount = captures.reduce((acc, tx) => acc + tx.amount.centAmount, 0) - refundedAmount
+      return centAmount > 0 ? [{ captureId: captures[0]?.interactionId, centAmount }] : []
+    }
+
+    const briqpaySession = await Briqpay.getSession(briqpaySessionId)
+    return captures
+      .map((capture) => ({
+        captureId: capture.interactionId,
+        centAmount:
+          capture.amount.centAmount -
+          (capture.interactionId ? getRefundedAmountForCapture(briqpaySession, capture.interactionId) : 0),
+      }))
+      .filter(({ centAmount }) => centAmount > 0)
   }
 
   public async createPayment(request: CreatePaymentRequest): Promise<PaymentResponseSchemaDTO> {
@@ -311,12 +753,12 @@ export class BriqpayOperationService {
           id: existing.id,
           pspReference: briqpaySessionId,
           paymentMethod: request.data.paymentMethod.type,
-          transaction: {
+          transaction: guardTransition(existing, {
             type: 'Authorization',
             amount: existing.amountPlanned,
             interactionId: briqpaySessionId,
             state: convertPaymentResultCode(request.data.paymentOutcome),
-          },
+          }),
         })
         await this.detachStaleBriqpayPayments(
           ctCart.id,
@@ -343,12 +785,12 @@ export class BriqpayOperationService {
       id: ctPayment.id,
       pspReference,
       paymentMethod: request.data.paymentMethod.type,
-      transaction: {
+      transaction: guardTransition(ctPayment, {
         type: 'Authorization',
         amount: ctPayment.amountPlanned,
         interactionId: pspReference,
         state: convertPaymentResultCode(request.data.paymentOutcome),
-      },
+      }),
     })
 
     await this.detachStaleBriqpayPayments(
@@ -435,12 +877,12 @@ export class BriqpayOperationService {
     await this.ctPaymentService.updatePayment({
       id: paymentForTransaction.id,
       pspReference: briqpaySessionId,
-      transaction: {
+      transaction: guardTransition(paymentForTransaction, {
         amount: amountPlanned,
         type: TRANSACTION_AUTHORIZATION_TYPE,
         state: transactionState,
         interactionId: briqpaySessionId,
-      },
+      }),
     })
 
     await this.detachStaleBriqpayPayments(
@@ -0,0 +1,74 @@
+import { CommercetoolsPaymentService } from '@commercetools/connect-payments-sdk'
+import type { Order } from '@commercetools/platform-sdk'
+import { appLogger } from '../../payment-sdk'
+import Briqpay from '../../libs/briqpay/BriqpayService'
+import { apiRoot } from '../../libs/commercetools/api-root'
+import { ValidationError } from '../../libs/errors/briqpay-errors'
+import { briqpaySessionIdFieldName } from '../../custom-types/custom-types'
+import { OrderSyncOutcome, OrderSyncResponseSchemaDTO } from '../../dtos/briqpay-payment.dto'
+import { getTransaction } from './utils'
+
+/**
+ * Propagates commercetools order edits (price corrections, removed or changed lines) to the
+ * Briqpay order after authorization, so Briqpay does not diverge from CT until capture.
+ */
+export class BriqpayOrderSyncService {
+  constructor(private readonly ctPaymentService: CommercetoolsPaymentService) {}
+
+  /**
+   * Pushes the current state of a CT Order to its Briqpay session, using the same mapping as a
+   * checkout session update. An order that grew beyond the Briqpay authorization is not sent:
+   * Briqpay cannot capture more than it authorized, so the caller gets an
+   * `exceeds_authorization` outcome and has to re-authorize instead.
+   *
+   * @param orderId - The commercetools order ID
+   * @returns The sync outcome with the order and authorized amounts
+   * @throws ValidationError if the order has no Briqpay session
+   */
+  public async syncOrder(orderId: string): Promise<OrderSyncResponseSchemaDTO> {
+    const order = (await apiRoot.orders().withId({ ID: orderId }).get().execute()).body
+    const sessionId = await this.findBriqpaySessionId(order)
+    if (!sessionId) {
+      throw new ValidationError(`Order ${orderId} has no Briqpay session`)
+    }
+
+    const amount = order.taxedPrice?.totalGross ?? order.totalPrice
+    const briqpaySession = await Briqpay.getSession(sessionId)
+    const authorizedAmount = getTransaction(briqpaySession)?.amountIncVat
+    const result = { orderId, sessionId, orderAmount: amount.centAmount, authorizedAmount }
+
+    if (authorizedAmount !== undefined && amount.centAmount > authorizedAmount) {
+      appLogger.warn(result, 'Edited order exceeds the Briqpay authorization, not syncing')
+      return { outcome: OrderSyncOutcome.EXCEEDS_AUTHORIZATION, ...result }
+    }
+
+    await Briqpay.updateSession(sessionId, order, {
+      centAmount: amount.centAmount,
+      currencyCode: amount.currencyCode,
+    })
+    appLogger.info(result, 'Synced edited order to Briqpay')
+
+    return { outcome: OrderSyncOutcome.UPDATED, ...result }
+  }
+
+  /**
+   * The session ID is copied from the cart onto the order's custom fields at order creation.
+   * Orders created without it are resolved through the Authorization transaction of their payments.
+   */
+  private async findBriqpaySessionId(order: Order): Promise<string | undefined> {
+    const sessionId = order.custom?.fields?.[briqpaySessionIdFieldName] as string | undefined
+    if (sessionId) {
+      return sessionId
+    }
+
+    for (const { id } of order.paymentInfo?.payments ?? []) {
+      const payment = await this.ctPaymentService.getPayment({ id })
+      const authorization = payment.transactions.find((tx) => tx.type === 'Authorization')
+      if (authorization?.interactionId) {
+        return authorization.interactionId
+      }
+    }
+
+    return undefined
+  }
+}
@@ -0,0 +1,179 @@
+import { CommercetoolsPaymentService, Payment, Transaction } from '@commercetools/connect-payments-sdk'
+import { appLogger } from '../../payment-sdk'
+import Briqpay from '../../libs/briqpay/BriqpayService'
+import { ValidationError } from '../../libs/errors/briqpay-errors'
+import {
+  PaymentInspectionDiffDTO,
+  PaymentInspectionResponseSchemaDTO,
+  PaymentInspectionSessionDTO,
+} from '../../dtos/operations/payment-inspection.dto'
+import { BriqpayCapture, MediumBriqpayResponse, TRANSACTION_STATUS } from '../types/briqpay-payment.type'
+import { getCaptures, getRefunds, getTransaction, transactionStatusToState } from './utils'
+
+type InspectedType = PaymentInspectionDiffDTO['type']
+
+const INSPECTED_TYPES: string[] = ['Authorization', 'Charge', 'Refund']
+
+// The fields every Briqpay transaction, capture and refund shares
+type BriqpayEntry = Pick<
+  BriqpayCapture,
+  'status' | 'amountIncVat' | 'amountExVat' | 'currency' | 'createdAt' | 'pspDisplayName' | 'email' | 'phoneNumber'
+>
+
+type BriqpayDiffEntry = {
+  type: InspectedType
+  interactionId: string
+  status: TRANSACTION_STATUS
+  amountIncVat: number
+  currency: string
+}
+
+/**
+ * Keeps the first character of the local part and the domain, e.g. j***@example.com.
+ */
+export const maskEmail = (email?: string): string | undefined => {
+  if (!email) {
+    return undefined
+  }
+
+  const [local, domain] = email.split('@')
+  return domain ? `${local.charAt(0)}***@${domain}` : '***'
+}
+
+/**
+ * Keeps the last two digits, e.g. ***67.
+ */
+export const maskPhoneNumber = (phoneNumber?: string): string | undefined =>
+  phoneNumber ? `***${phoneNumber.slice(-2)}` : undefined
+
+const maskEntry = (entry: BriqpayEntry) => ({
+  status: entry.status,
+  amountIncVat: entry.amountIncVat,
+  amountExVat: entry.amountExVat,
+  currency: entry.currency,
+  createdAt: entry.createdAt,
+  pspDisplayName: entry.pspDisplayName,
+  email: maskEmail(entry.email),
+  phoneNumber: maskPhoneNumber(entry.phoneNumber),
+})
+
+/**
+ * Shows what Briqpay reports for a CT Payment next to the CT transactions, so support staff can
+ * investigate a payment without access to the Briqpay dashboard. Read-only: nothing is written
+ * to CT or Briqpay. Buyer emails and phone numbers are masked, and cart lines are left out.
+ */
+export class BriqpayPaymentInspectionService {
+  constructor(private readonly ctPaymentService: CommercetoolsPaymentService) {}
+
+  /**
+   * @throws ValidationError when the payment has no Briqpay session
+   */
+  public async inspect(paymentId: string): Promise<PaymentInspectionResponseSchemaDTO> {
+    const payment = await this.ctPaymentService.getPayment({ id: paymentId })
+
+    const briqpaySessionId =
+      payment.transactions.find((tx) => tx.type === 'Authorization')?.interactionId ?? payment.interfaceId
+    if (!briqpaySessionId) {
+      throw new ValidationError('No Briqpay session found on payment')
+    }
+
+    const session = await Briqpay.getSession(briqpaySessionId)
+    const diff = this.diff(payment, briqpaySessionId, session)
+
+    appLogger.info(
+      { paymentId, briqpaySessionId, drifted: diff.filter((row) => !row.inSync).length },
+      'Inspected Briqpay session for payment',
+    )
+
+    return { paymentId, briqpaySessionId, session: this.maskSession(session), diff }
+  }
+
+  private maskSession(session: MediumBriqpayResponse): PaymentInspectionSessionDTO {
+    return {
+      transactions: (session.data?.transactions ?? []).map((transaction) => ({
+        transactionId: transaction.transactionId,
+        expiresAt: transaction.expiresAt,
+        ...maskEntry(transaction),
+      })),
+      captures: getCaptures(session).map((capture) => ({
+        captureId: capture.captureId,
+        parentTransactionId: capture.parentTransactionId,
+        ...maskEntry(capture),
+      })),
+      refunds: getRefunds(session).map((refund) => ({
+        refundId: refund.refundId,
+        parentCaptureId: refund.parentCaptureId,
+        parentTransactionId: refund.parentTransactionId,
+        ...maskEntry(refund),
+      })),
+      moduleStatus: session.moduleStatus,
+    }
+  }
+
+  /**
+   * Pairs the Briqpay authorization, captures and refunds with the CT transactions of the same type
+   * and interactionId. CT transactions Briqpay does not know about are listed last.
+   */
+  private diff(payment: Payment, briqpaySessionId: string, session: MediumBriqpayResponse): PaymentInspectionDiffDTO[] {
+    const transaction = getTransaction(session)
+    const entries: BriqpayDiffEntry[] = [
+      ...(transaction ? [{ type: 'Authorization' as const, interactionId: briqpaySessionId, ...transaction }] : []),
+      ...getCaptures(session).map((capture) => ({
+        type: 'Charge' as const,
+        interactionId: capture.captureId,
+        ...capture,
+      })),
+      ...getRefunds(session).map((refund) => ({ type: 'Refund' as const, interactionId: refund.refundId, ...refund })),
+    ]
+
+    const isBriqpayEntry = (tx: Transaction) =>
+      entries.some((entry) => entry.type === tx.type && entry.interactionId === tx.interactionId)
+
+    const ctOnly = payment.transactions
+      .filter((tx) => INSPECTED_TYPES.includes(tx.type) && !isBriqpayEntry(tx))
+      .map((tx) => ({
+        type: tx.type as InspectedType,
+        interactionId: tx.interactionId ?? '',
+        commercetools: this.toCommercetools(tx),
+        inSync: false,
+      }))
+
+    return [
+      ...entries.map((entry) =>
+        this.diffEntry(
+          entry,
+          payment.transactions.find((tx) => tx.type === entry.type && tx.interactionId === entry.interactionId),
+        ),
+      ),
+      ...ctOnly,
+    ]
+  }
+
+  private diffEntry(entry: BriqpayDiffEntry, ctTransaction?: Transaction): PaymentInspectionDiffDTO {
+    const briqpay = {
+      status: entry.status,
+      state: transactionStatusToState(entry.status) ?? 'Pending',
+      amount: { centAmount: entry.amountIncVat, currencyCode: entry.currency },
+    }
+    const commercetools = ctTransaction ? this.toCommercetools(ctTransaction) : undefined
+
+    return {
+      type: entry.type,
+      interactionId: entry.interactionId,
+      briqpay,
+      commercetools,
+      inSync:
+        !!commercetools &&
+        commercetools.state === briqpay.state &&
+        commercetools.amount.centAmount === briqpay.amount.centAmount,
+    }
+  }
+
+  private toCommercetools(tx: Transaction) {
+    return {
+      id: tx.id,
+      state: tx.state,
+      amount: { centAmount: tx.amount.centAmount, currencyCode: tx.amount.currencyCode },
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { Payment, TransactionData, TransactionState, TransactionType } from '@commercetools/connect-payments-sdk'
+import { appLogger } from '../../payment-sdk'
+
+/**
+ * Legal state changes of a single CT transaction on a Briqpay-backed Payment. A transaction that
+ * does not exist yet may be created in any state, and writing the current state again is a no-op.
+ *
+ * Success and Failure are final, so a late webhook (e.g. `order_pending` after
+ * `order_approved_not_captured`, or a capture rejection after its approval) cannot regress CT.
+ */
+const TRANSITIONS: Record<string, TransactionState[]> = {
+  Initial: ['Pending', 'Success', 'Failure'],
+  Pending: ['Success', 'Failure'],
+  Success: [],
+  Failure: [],
+}
+
+/**
+ * Authorization exception to the table above, only applied to an explicit release: Briqpay cancels an
+ * approved order (or lets it expire) by moving the authorization to Failure. A plain rejection never
+ * fails an authorized payment.
+ */
+const AUTHORIZATION_RELEASE_TRANSITIONS: Record<string, TransactionState[]> = {
+  Success: ['Failure'],
+}
+
+export type TransitionOptions = {
+  /** The write releases the authorization on purpose, e.g. Briqpay reported it cancelled or expired */
+  release?: boolean
+}
+
+export const canTransition = (
+  type: TransactionType,
+  from: TransactionState | undefined,
+  to: TransactionState,
+  { release = false }: TransitionOptions = {},
+): boolean => {
+  if (!from || from === to) {
+    return true
+  }
+
+  const allowed =
+    (type === 'Authorization' && release && AUTHORIZATION_RELEASE_TRANSITIONS[from]) || TRANSITIONS[from] || []
+  return allowed.includes(to)
+}
+
+/**
+ * Finds the transaction an update applies to the same way the payment SDK does: same type and the
+ * same interactionId or interfaceId.
+ */
+export const findTransaction = (payment: Payment, transaction: TransactionData) =>
+  payment.transactions.find(
+    (tx) =>
+      tx.type === transaction.type &&
+      ((!!transaction.interactionId && tx.interactionId === transaction.interactionId) ||
+        (!!transaction.interfaceId && tx.interfaceId === transaction.interfaceId)),
+  )
+
+const hasOpenCharge = (payment: Payment) =>
+  payment.transactions.some((tx) => tx.type === 'Charge' && tx.state !== 'Failure')
+
+/**
+ * Checks a transaction update against the current state of the Payment.
+ *
+ * @returns the reason the update is illegal, or undefined when it may be written
+ */
+export const checkTransition = (
+  payment: Payment,
+  transaction: TransactionData,
+  options: TransitionOptions = {},
+): string | undefined => {
+  const from = findTransaction(payment, transaction)?.state
+
+  if (!canTransition(transaction.type, from, transaction.state, options)) {
+    return `${transaction.type} cannot move from ${from} to ${transaction.state}`
+  }
+
+  // Money was captured against the authorization, so it can no longer be pending or failed
+  if (transaction.type === 'Authorization' && transaction.state !== 'Success' && hasOpenCharge(payment)) {
+    return `Authorization cannot move to ${transaction.state} after a capture`
+  }
+
+  return undefined
+}
+
+/**
+ * Returns the transaction when the state machine allows it, otherwise logs and returns undefined
+ * so the caller skips the write.
+ */
+export const guardTransition = (
+  payment: Payment,
+  transaction: TransactionData,
+  options: TransitionOptions = {},
+): TransactionData | undefined => {
+  const reason = checkTransition(payment, transaction, options)
+  if (!reason) {
+    return transaction
+  }
+
+  appLogger.warn(
+    {
+      paymentId: payment.id,
+      type: transaction.type,
+      interactionId: transaction.interactionId,
+      interfaceId: transaction.interfaceId,
+      from: findTransaction(payment, transaction)?.state,
+      to: transaction.state,
+      reason,
+    },
+    'Ignoring illegal Briqpay payment transition',
+  )
+
+  return undefined
+}
@@ -0,0 +1,201 @@
+import {
+  CommercetoolsPaymentService,
+  Payment,
+  TransactionData,
+  TransactionState,
+} from '@commercetools/connect-payments-sdk'
+import { appLogger } from '../../payment-sdk'
+import Briqpay from '../../libs/briqpay/BriqpayService'
+import { apiRoot } from '../../libs/commercetools/api-root'
+import { ReconciliationChangeDTO, ReconciliationResponseSchemaDTO } from '../../dtos/briqpay-payment.dto'
+import { MediumBriqpayResponse } from '../types/briqpay-payment.type'
+import { BriqpayMerchantEventService } from './merchant-event.service'
+import { guardTransition } from './payment-state-machine'
+import {
+  getActualAuthorizationStatus,
+  getCaptures,
+  getRefunds,
+  getTransaction,
+  transactionStatusToState,
+} from './utils'
+
+// Payments fetched per page; a run pages through all of them by id
+const RECONCILIATION_PAGE_SIZE = 500
+
+const NON_FINAL_STATES: TransactionState[] = ['Initial', 'Pending']
+
+type ReconciledPayment = ReconciliationResponseSchemaDTO['payments'][number]
+
+/**
+ * Finds drift between Briqpay sessions and the CT Payments they belong to, e.g. after a webhook
+ * failed in processNotification and left the payment Pending. Briqpay is the source of truth:
+ * CT transactions that are missing are added, and transactions still Initial or Pending are
+ * moved to the state Briqpay reports. Final CT states are never overwritten, and every change goes
+ * through the payment state machine and the merchant event stream like a webhook-driven one.
+ */
+export class BriqpayReconciliationService {
+  constructor(
+    private readonly ctPaymentService: CommercetoolsPaymentService,
+    private readonly merchantEventService: BriqpayMerchantEventService = new BriqpayMerchantEventService(),
+  ) {}
+
+  /**
+   * Reconciles Briqpay payments with non-final transactions.
+   *
+   * @param dryRun - Only report the changes without applying them
+   * @returns The changes per payment, applied or not depending on dryRun
+   */
+  public async reconcile(dryRun = true): Promise<ReconciliationResponseSchemaDTO> {
+    const payments: ReconciledPayment[] = []
+    for await (const payment of this.findUnsettledPayments()) {
+      payments.push(await this.reconcilePayment(payment, dryRun))
+    }
+
+    appLogger.info(
+      {
+        dryRun,
+        checked: payments.length,
+        drifted: payments.filter((p) => p.changes.length > 0).length,
+        failed: payments.filter((p) => p.error).length,
+      },
+      'Reconciled Briqpay payments',
+    )
+
+    return { dryRun, payments }
+  }
+
+  /**
+   * Pages through Briqpay payments with non-final transactions using an id cursor. Payments that
+   * stay unsettled would otherwise fill the first page on every run and hide the ones behind them.
+   */
+  private async *findUnsettledPayments(): AsyncGenerator<Payment> {
+    let lastId: string | undefined
+    while (true) {
+      const where = [`paymentMethodInfo(paymentInterface="Briqpay") and transactions(state in ("Initial", "Pending"))`]
+      if (lastId) {
+        where.push(`id > "${lastId}"`)
+      }
+
+      const response = await apiRoot
+        .payments()
+        .get({ queryArgs: { where, sort: 'id asc', limit: RECONCILIATION_PAGE_SIZE, withTotal: false } })
+        .execute()
+
+      const results = response.body.results as Payment[]
+      yield* results
+
+      if (results.length < RECONCILIATION_PAGE_SIZE) {
+        return
+      }
+      lastId = results[results.length - 1].id
+    }
+  }
+
+  private async reconcilePayment(payment: Payment, dryRun: boolean): Promise<ReconciledPayment> {
+    const sessionId =
+      payment.transactions.find((tx) => tx.type === 'Authorization')?.interactionId ?? payment.interfaceId ?? ''
+    if (!sessionId) {
+      return { paymentId: payment.id, sessionId, changes: [], error: 'No Briqpay session found on payment' }
+    }
+
+    try {
+      const briqpaySession = await Briqpay.getSession(sessionId)
+      const changes = this.findChanges(payment, briqpaySession)
+
+      if (!dryRun) {
+        let current = payment
+        for (const { type, interactionId, amount, state } of changes) {
+          current = (await this.applyTransaction(current, { type, interactionId, amount, state })) ?? current
+        }
+      }
+
+      if (changes.length) {
+        appLogger.info({ paymentId: payment.id, sessionId, dryRun, changes }, 'Briqpay payment drift found')
+      }
+
+      return { paymentId: payment.id, sessionId, changes }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      appLogger.error({ paymentId: payment.id, sessionId, error: message }, 'Failed to reconcile Briqpay payment')
+      return { paymentId: payment.id, sessionId, changes: [], error: message }
+    }
+  }
+
+  /**
+   * Writes a reconciled transaction to CT unless the payment state machine rejects it, and
+   * publishes the resulting merchant event without waiting for its delivery.
+   *
+   * @returns the updated payment, or undefined when the change was ignored
+   */
+  private async applyTransaction(payment: Payment, transaction: TransactionData): Promise<Payment | undefined> {
+    const allowed = guardTransition(payment, transaction)
+    if (!allowed) {
+      return undefined
+    }
+
+    const updatedPayment = await this.ctPaymentService.updatePayment({ id: payment.id, transaction: allowed })
+    void this.merchantEventService.publishTransaction(payment, allowed)
+
+    return updatedPayment
+  }
+
+  private findChanges(payment: Payment, briqpaySession: MediumBriqpayResponse): ReconciliationChangeDTO[] {
+    const changes: (ReconciliationChangeDTO | undefined)[] = []
+
+    const transaction = getTransaction(briqpaySession)
+    if (transaction) {
+      changes.push(
+        this.diffTransaction(
+          payment,
+          'Authorization',
+          briqpaySession.sessionId,
+          transactionStatusToState(getActualAuthorizationStatus(briqpaySession)),
+          { centAmount: transaction.amountIncVat, currencyCode: transaction.currency },
+        ),
+      )
+    }
+
+    for (const capture of getCaptures(briqpaySession)) {
+      changes.push(
+        this.diffTransaction(payment, 'Charge', capture.captureId, transactionStatusToState(capture.status), {
+          centAmount: capture.amountIncVat,
+          currencyCode: capture.currency,
+        }),
+      )
+    }
+
+    for (const refund of getRefunds(briqpaySession)) {
+      changes.push(
+        this.diffTransaction(payment, 'Refund', refund.refundId, transactionStatusToState(refund.status), {
+          centAmount: refund.amountIncVat,
+          currencyCode: refund.currency,
+        }),
+      )
+    }
+
+    return changes.filter((change): change is ReconciliationChangeDTO => change !== undefined)
+  }
+
+  /**
+   * Compares one Briqpay transaction with its CT counterpart (matched by interactionId).
+   * Returns the change needed, or undefined when CT is in sync or already in a final state.
+   */
+  private diffTransaction(
+    payment: Payment,
+    type: ReconciliationChangeDTO['type'],
+    interactionId: string,
+    state: TransactionState | undefined,
+    amount: ReconciliationChangeDTO['amount'],
+  ): ReconciliationChangeDTO | undefined {
+    if (!state) {
+      return undefined
+    }
+
+    const existing = payment.transactions.find((tx) => tx.type === type && tx.interactionId === interactionId)
+    if (existing && (existing.state === state || !NON_FINAL_STATES.includes(existing.state))) {
+      return undefined
+    }
+
+    return { type, interactionId, amount, state, previousState: existing?.state }
+  }
+}
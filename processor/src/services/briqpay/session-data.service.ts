@@ -9,6 +9,7 @@ import {
 import { MediumBriqpayResponse } from '../types/briqpay-payment.type'
 import { getBriqpayTypeKey } from '../../connectors/actions'
 import CtConflictRetry from '../../libs/commercetools/ct-conflict-retry'
+import { BriqpayHttpClient } from '../../libs/briqpay/briqpay-http-client'
 
 // Briqpay only ever issues these two custom-field actions. Typed locally (rather than pulling
 // the full OrderUpdateAction/CartUpdateAction unions) so the same actions array is assignable
@@ -37,8 +38,7 @@ type CtCustomFieldUpdateAction = SetCustomTypeAction | SetCustomFieldAction
  */
 export class BriqpaySessionDataService {
   private readonly baseUrl: string
-  private readonly username: string
-  private readonly secret: string
+  private readonly client: BriqpayHttpClient
 
   constructor() {
     const baseUrl = process.env.BRIQPAY_BASE_URL
@@ -52,8 +52,7 @@ export class BriqpaySessionDataService {
     }
 
     this.baseUrl = baseUrl
-    this.username = username
-    this.secret = secret
+    this.client = new BriqpayHttpClient({ username, secret, baseUrl })
   }
 
   /**
@@ -65,13 +64,7 @@ export class BriqpaySessionDataService {
 
     appLogger.info({ sessionId, url }, 'Fetching full Briqpay session data')
 
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        Authorization: `Basic ${btoa(this.username + ':' + this.secret)}`,
-        'Content-Type': 'application/json',
-      },
-    })
+    const response = await this.client.request({ method: 'GET', path: `/session/${sessionId}` })
 
     if (!response.ok) {
       const errorText = await response.text()
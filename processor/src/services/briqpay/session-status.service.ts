@@ -0,0 +1,141 @@
+import { Cart } from '@commercetools/platform-sdk'
+import { appLogger } from '../../payment-sdk'
+import { apiRoot } from '../../libs/commercetools/api-root'
+import CtConflictRetry from '../../libs/commercetools/ct-conflict-retry'
+import {
+  BRIQPAY_SESSION_WEBHOOK_STATUS,
+  BRIQPAY_WEBHOOK_EVENT,
+  NotificationRequestSchemaDTO,
+} from '../../dtos/briqpay-payment.dto'
+import {
+  briqpayModuleUiStatusFieldName,
+  briqpaySessionCompletedAtFieldName,
+  briqpaySessionIdFieldName,
+} from '../../custom-types/custom-types'
+import { ExtractedBriqpayCustomFields } from '../types/briqpay-session-data.type'
+import type { BriqpaySessionDataService } from './session-data.service'
+
+/**
+ * Session events carry no transaction: they are recorded on the cart instead of the CT Payment.
+ */
+export const isSessionEvent = (event: BRIQPAY_WEBHOOK_EVENT): boolean =>
+  event === BRIQPAY_WEBHOOK_EVENT.SESSION_STATUS || event === BRIQPAY_WEBHOOK_EVENT.MODULE_UI_STATUS
+
+/**
+ * Records the opt-in session_status and module_ui_status webhooks on the CT cart.
+ *
+ * Session completion stamps a timestamp, and each payment-module UI status is kept per module,
+ * so the checkout funnel of carts that never became orders can be analysed. CT copies both
+ * fields onto the order when the cart is ordered.
+ */
+export class BriqpaySessionStatusService {
+  constructor(private readonly sessionDataService: BriqpaySessionDataService) {}
+
+  /**
+   * Writes a session_status or module_ui_status webhook to the cart of its Briqpay session.
+   * Repeated events that would not change the cart are skipped.
+   */
+  public async recordSessionEvent(data: NotificationRequestSchemaDTO): Promise<void> {
+    const { sessionId: briqpaySessionId, event, status, module } = data
+
+    const cart = await this.findCart(briqpaySessionId, data.cartId)
+    if (!cart) {
+      appLogger.warn({ briqpaySessionId, event, status }, 'No cart found for Briqpay session event, skipping')
+      return
+    }
+
+    const fields =
+      event === BRIQPAY_WEBHOOK_EVENT.SESSION_STATUS
+        ? this.getSessionStatusFields(cart, status)
+        : this.getModuleUiStatusFields(cart, status, module)
+
+    if (!fields) {
+      appLogger.info({ briqpaySessionId, cartId: cart.id, event, status, module }, 'Cart already up to date, skipping')
+      return
+    }
+
+    await this.sessionDataService.updateResourceCustomFields({ resource: 'cart', id: cart.id }, fields)
+
+    appLogger.info({ briqpaySessionId, cartId: cart.id, event, status, module }, 'Recorded Briqpay session event')
+  }
+
+  /**
+   * Stamps the first completion of the session; later completions keep the original timestamp.
+   */
+  private getSessionStatusFields(
+    cart: Cart,
+    status: NotificationRequestSchemaDTO['status'],
+  ): ExtractedBriqpayCustomFields | undefined {
+    if (
+      status !== BRIQPAY_SESSION_WEBHOOK_STATUS.COMPLETED ||
+      cart.custom?.fields?.[briqpaySessionCompletedAtFieldName]
+    ) {
+      return undefined
+    }
+
+    return { [briqpaySessionCompletedAtFieldName]: new Date().toISOString() }
+  }
+
+  /**
+   * Merges the module's latest UI status into the JSON object stored on the cart.
+   */
+  private getModuleUiStatusFields(
+    cart: Cart,
+    status: NotificationRequestSchemaDTO['status'],
+    module?: string,
+  ): ExtractedBriqpayCustomFields | undefined {
+    if (!module) {
+      return undefined
+    }
+
+    const statuses = this.parseModuleUiStatuses(cart.custom?.fields?.[briqpayModuleUiStatusFieldName])
+    if (statuses[module] === status) {
+      return undefined
+    }
+
+    return { [briqpayModuleUiStatusFieldName]: JSON.stringify({ ...statuses, [module]: status }) }
+  }
+
+  private parseModuleUiStatuses(value: unknown): Record<string, string> {
+    if (typeof value !== 'string') {
+      return {}
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(value)
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, string>) : {}
+    } catch {
+      return {}
+    }
+  }
+
+  /**
+   * Finds the cart by the cartId on the webhook, falling back to the Briqpay session ID
+   * persisted on the cart when the session was created.
+   */
+  private async findCart(briqpaySessionId: string, cartId?: string): Promise<Cart | undefined> {
+    if (cartId) {
+      try {
+        const response = await apiRoot.carts().withId({ ID: cartId }).get().execute()
+        return response.body
+      } catch (error) {
+        if (CtConflictRetry.isNotFound(error)) {
+          return undefined
+        }
+        throw error
+      }
+    }
+
+    const response = await apiRoot
+      .carts()
+      .get({
+        queryArgs: {
+          where: `custom(fields(${briqpaySessionIdFieldName}="${briqpaySessionId}"))`,
+          limit: 1,
+        },
+      })
+      .execute()
+
+    return response.body.results[0]
+  }
+}
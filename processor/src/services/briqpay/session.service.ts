@@ -1,7 +1,7 @@
 import { Cart, CommercetoolsCartService } from '@commercetools/connect-payments-sdk'
 import { PaymentAmount } from '@commercetools/connect-payments-sdk/dist/commercetools/types/payment.type'
 import type { Cart as PlatformCart } from '@commercetools/platform-sdk'
-import { LineItem } from '@commercetools/platform-sdk'
+import { CustomLineItem, LineItem } from '@commercetools/platform-sdk'
 import { appLogger } from '../../payment-sdk'
 import { CartItem, MediumBriqpayResponse } from '../types/briqpay-payment.type'
 import Briqpay from '../../libs/briqpay/BriqpayService'
@@ -300,13 +300,16 @@ export class BriqpaySessionService {
       (item) => !('productType' in item && NON_PRODUCT_TYPES.has(String(item.productType))),
     )
     const cartItems = ctCart.lineItems
+    // Custom line items with a negative amount are sent as discount lines, filtered out above
+    const customLineItems = (ctCart.customLineItems ?? []).filter((item) => item.money.centAmount >= 0)
 
-    if (sessionItems.length !== cartItems.length) {
+    if (sessionItems.length !== cartItems.length + customLineItems.length) {
       appLogger.info(
         {
           briqpayCartLength: sessionItems.length,
           allSessionCartLength: allSessionItems.length,
           ctCartLength: cartItems.length,
+          ctCustomLineItemCount: customLineItems.length,
         },
         'Number of product items does not match',
       )
@@ -326,9 +329,36 @@ export class BriqpaySessionService {
       }
     }
 
+    for (const customLineItem of customLineItems) {
+      if (!this.isCustomLineItemInSession(customLineItem as CustomLineItem, sessionItems, locale)) {
+        appLogger.info({ slug: customLineItem.slug }, 'No matching session item found for custom line item')
+        return false
+      }
+    }
+
     return true
   }
 
+  /**
+   * Matches a custom line item against the lines built by `createCustomLineItem`, which use the
+   * slug as reference and the original unit price.
+   */
+  private isCustomLineItemInSession(item: CustomLineItem, sessionItems: CartItem[], locale: string): boolean {
+    const nameRecord = item.name as Record<string, string>
+    const itemName = nameRecord[locale] || nameRecord['en'] || Object.values(nameRecord)[0] || item.slug
+    const taxRate = Math.round((item.taxRate?.amount ?? 0) * 10000)
+
+    return sessionItems.some(
+      (sessionItem) =>
+        sessionItem.productType !== 'sales_tax' &&
+        sessionItem.reference === item.slug &&
+        sessionItem.name === itemName &&
+        sessionItem.quantity === item.quantity &&
+        sessionItem.unitPriceIncVat === item.money.centAmount &&
+        sessionItem.taxRate === taxRate,
+    )
+  }
+
   private isCartItemInSession(cartItem: LineItem, sessionItems: CartItem[], locale: string): boolean {
     const nameRecord = cartItem.name as Record<string, string>
     const cartItemName = nameRecord[locale] || nameRecord['en'] || Object.values(nameRecord)[0]
@@ -1,6 +1,7 @@
-import { TransactionState } from '@commercetools/connect-payments-sdk'
+import { createHash } from 'crypto'
+import { Payment, Transaction, TransactionState, TransactionType } from '@commercetools/connect-payments-sdk'
 import { BRIQPAY_WEBHOOK_STATUS, PaymentOutcome } from '../../dtos/briqpay-payment.dto'
-import { PaymentModificationStatus } from '../../dtos/operations/payment-intents.dto'
+import { LineItemQuantitySchemaDTO, PaymentModificationStatus } from '../../dtos/operations/payment-intents.dto'
 import {
   BriqpayCapture,
   BriqpayRefund,
@@ -110,6 +111,15 @@ export const transactionStatusToWebhookStatus = (transactionStatus: TRANSACTION_
   }
 }
 
+/**
+ * Converts a Briqpay authorization, capture or refund status to the CT transaction state it maps to.
+ *
+ * @param transactionStatus - The status from the session's transactions, captures or refunds array
+ * @returns The CT transaction state, or undefined when Briqpay reports no status
+ */
+export const transactionStatusToState = (transactionStatus?: TRANSACTION_STATUS): TransactionState | undefined =>
+  transactionStatus ? convertNotificationStatus(transactionStatusToWebhookStatus(transactionStatus)) : undefined
+
 /**
  * Gets the first transaction (authorization) from the session.
  * Transactions are located in data.transactions array.
@@ -133,6 +143,24 @@ export const getActualAuthorizationStatus = (session: MediumBriqpayResponse): TR
   return transaction?.status
 }
 
+/**
+ * Gets all captures of the session, preferring data.captures over the legacy top-level array.
+ *
+ * @param session - The Briqpay session response
+ * @returns The captures, or an empty array if none exist
+ */
+export const getCaptures = (session: MediumBriqpayResponse): BriqpayCapture[] =>
+  session.data?.captures ?? session.captures ?? []
+
+/**
+ * Gets all refunds of the session, preferring data.refunds over the legacy top-level array.
+ *
+ * @param session - The Briqpay session response
+ * @returns The refunds, or an empty array if none exist
+ */
+export const getRefunds = (session: MediumBriqpayResponse): BriqpayRefund[] =>
+  session.data?.refunds ?? session.refunds ?? []
+
 /**
  * Finds a capture by ID in the session's data.captures array and returns the full capture object.
  * Captures are located in data.captures array.
@@ -179,6 +207,24 @@ export const getRefund = (session: MediumBriqpayResponse, refundId: string): Bri
   )
 }
 
+/**
+ * Sums the amounts of all non-rejected, non-cancelled refunds that Briqpay has booked against
+ * a capture. Used to pick a parent capture with enough refundable balance left.
+ *
+ * @param session - The Briqpay session response
+ * @param captureId - The parent capture ID
+ * @returns The refunded amount (incl. VAT) in minor units
+ */
+export const getRefundedAmountForCapture = (session: MediumBriqpayResponse, captureId: string): number =>
+  (session.data?.refunds ?? session.refunds ?? [])
+    .filter(
+      (r) =>
+        r.parentCaptureId === captureId &&
+        r.status !== TRANSACTION_STATUS.REJECTED &&
+        r.status !== TRANSACTION_STATUS.CANCELLED,
+    )
+    .reduce((acc, r) => acc + r.amountIncVat, 0)
+
 /**
  * Finds a refund by ID in the session's refunds array and returns its actual status.
  *
@@ -193,3 +239,108 @@ export const getActualRefundStatus = (
   const refund = getRefund(session, refundId)
   return refund?.status
 }
+
+export type BriqpayModificationAction = 'capture' | 'refund' | 'cancel'
+
+export type IdempotencyDiscriminator = {
+  captureId?: string
+  lineItems?: LineItemQuantitySchemaDTO[]
+  merchantReference?: string
+  returnItemIds?: string[]
+}
+
+/**
+ * Fingerprint of a modification request, derived from the CT payment, the action, the amount and
+ * the optional discriminator. Two requests with the same fingerprint ask for the same modification.
+ *
+ * @param paymentId - The commercetools payment ID
+ * @param action - The modification being requested
+ * @param amount - The amount of the modification
+ * @param discriminator - Optional line-item selection, return items, refunded capture and merchant reference of the request
+ * @returns The fingerprint, e.g. `ct-{paymentId}-capture-5000-EUR`
+ */
+export const buildModificationFingerprint = (
+  paymentId: string,
+  action: BriqpayModificationAction,
+  amount: { centAmount: number; currencyCode: string },
+  discriminator: IdempotencyDiscriminator = {},
+): string => {
+  const key = `ct-${paymentId}-${action}-${amount.centAmount}-${amount.currencyCode}`
+  const { captureId, lineItems, merchantReference, returnItemIds } = discriminator
+  if (!lineItems?.length && !merchantReference && !returnItemIds?.length && !captureId) {
+    return key
+  }
+
+  const selection = [...(lineItems ?? [])]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(({ id, quantity }) => `${id}:${quantity}`)
+    .join(',')
+  const returns = returnItemIds?.length ? `|${[...returnItemIds].sort().join(',')}` : ''
+  const capture = captureId ? `|capture:${captureId}` : ''
+  const fingerprint = `${merchantReference ?? ''}|${selection}${returns}${capture}`
+  return `${key}-${createHash('sha256').update(fingerprint).digest('hex').slice(0, 16)}`
+}
+
+/**
+ * Builds the idempotency key for a Briqpay modification, always derived from the CT payment, the
+ * action, the amount and the discriminator, so a retried `/payment-intents` call sends the key of the
+ * call it retries and Briqpay deduplicates it instead of moving money twice. The caller's
+ * `merchantReference` identifies the request on its own. Without one, the number of transactions of
+ * the modification's type already recorded on the payment is added: a retry of a call that did not
+ * get as far as recording its transaction reproduces it, while a second partial capture of the same
+ * amount, made after the first was recorded, gets a key of its own. A failed attempt counts too, so
+ * retrying it is not answered with Briqpay's stored failure.
+ *
+ * @param paymentId - The commercetools payment ID
+ * @param action - The modification being requested
+ * @param amount - The amount of the modification
+ * @param discriminator - Optional line-item selection, return items, refunded capture and merchant reference of the request
+ * @param recordedCount - Transactions of the modification's type already recorded on the payment
+ * @returns The idempotency key sent to Briqpay and stored as the transaction interfaceId
+ */
+export const buildIdempotencyKey = (
+  paymentId: string,
+  action: BriqpayModificationAction,
+  amount: { centAmount: number; currencyCode: string },
+  discriminator: IdempotencyDiscriminator = {},
+  recordedCount = 0,
+): string => {
+  const fingerprint = buildModificationFingerprint(paymentId, action, amount, discriminator)
+  return discriminator.merchantReference ? fingerprint : `${fingerprint}-${recordedCount}`
+}
+
+/**
+ * Counts the transactions of the given type recorded on the payment, whatever their state.
+ *
+ * @param payment - The commercetools payment
+ * @param type - The transaction type the modification creates
+ * @returns The number of recorded transactions of that type
+ */
+export const countTransactions = (payment: Payment, type: TransactionType): number =>
+  payment.transactions.filter((tx) => tx.type === type).length
+
+/**
+ * Finds a non-failed transaction previously recorded for the given idempotency key.
+ *
+ * @param payment - The commercetools payment
+ * @param type - The transaction type the modification creates
+ * @param idempotencyKey - The key built by buildIdempotencyKey
+ * @returns The recorded transaction, or undefined if the modification has not been applied yet
+ */
+export const findTransactionByIdempotencyKey = (
+  payment: Payment,
+  type: TransactionType,
+  idempotencyKey: string,
+): Transaction | undefined =>
+  payment.transactions.find((tx) => tx.type === type && tx.interfaceId === idempotencyKey && tx.state !== 'Failure')
+
+export const convertTransactionStateToModificationStatus = (state: TransactionState): PaymentModificationStatus => {
+  switch (state) {
+    case 'Success':
+      return PaymentModificationStatus.APPROVED
+    case 'Failure':
+      return PaymentModificationStatus.REJECTED
+    default:
+      return PaymentModificationStatus.RECEIVED
+  }
+}
@@ -0,0 +1,350 @@
+import { createHash } from 'crypto'
+import { ErrorResourceNotFound } from '@commercetools/connect-payments-sdk'
+import { appLogger } from '../../payment-sdk'
+import { getConfig } from '../../config/config'
+import { apiRoot } from '../../libs/commercetools/api-root'
+import CtConflictRetry from '../../libs/commercetools/ct-conflict-retry'
+import { NotificationRequestSchemaDTO, WebhookInboxEntryDTO, WebhookInboxStatus } from '../../dtos/briqpay-payment.dto'
+import type { BriqpayNotificationService } from './notification.service'
+
+const WEBHOOK_INBOX_CONTAINER = 'briqpay-webhook-inbox'
+
+// Entries listed per request; replaying them moves them out of the listed status
+const WEBHOOK_INBOX_QUERY_LIMIT = 100
+
+// How long a claim keeps other instances off an entry; every attempt renews it. A pending entry not
+// updated for this long was interrupted mid-delivery and is picked up by sweepPending
+const CLAIM_TTL_MS = 5 * 60 * 1000
+
+// Processed entries are kept for inspection, then removed in batches at most once per interval per instance
+const PROCESSED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+const PURGE_INTERVAL_MS = 60 * 1000
+const PURGE_BATCH_SIZE = 50
+
+type StoredWebhookInboxEntry = Omit<WebhookInboxEntryDTO, 'key'>
+
+// An entry with the custom object version it was read or written at
+type VersionedEntry = { entry: WebhookInboxEntryDTO; version?: number }
+
+/**
+ * Durable inbox for verified Briqpay webhooks, stored as CT custom objects.
+ *
+ * A webhook is stored before it is acknowledged, so a commercetools outage while processing
+ * no longer loses the event. An instance claims an entry with a versioned write before processing
+ * it, so two instances never process the same webhook at once. Processing is retried with backoff up
+ * to BRIQPAY_WEBHOOK_MAX_ATTEMPTS; an event that still fails is moved to dead_letter, where operators
+ * can inspect and replay it. Processed entries are purged after PROCESSED_RETENTION_MS.
+ */
+export class BriqpayWebhookInboxService {
+  private lastPurgeAt = 0
+
+  constructor(private readonly notificationService: BriqpayNotificationService) {}
+
+  /**
+   * Verifies a webhook and stores it as pending. A webhook Briqpay delivers again (same body)
+   * returns the existing entry, so an already processed event is not applied twice.
+   *
+   * @throws Error when the webhook fails verification; unverified webhooks are never stored
+   */
+  public async receive(opts: {
+    data: NotificationRequestSchemaDTO
+    signatureHeader?: string
+    rawBody?: string
+  }): Promise<WebhookInboxEntryDTO> {
+    await this.notificationService.verifyNotification(opts)
+
+    const { data, rawBody = '' } = opts
+    const key = `${data.sessionId}-${createHash('sha256').update(rawBody).digest('hex').slice(0, 16)}`
+
+    const existing = await this.find(key)
+    if (existing) {
+      appLogger.info({ key, status: existing.entry.status }, 'Briqpay webhook already in inbox')
+      return existing.entry
+    }
+
+    const now = new Date()
+    const { entry } = await this.save({
+      key,
+      status: WebhookInboxStatus.PENDING,
+      attempts: 0,
+      receivedAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      data,
+    })
+
+    await this.purgeProcessed(now.getTime())
+    return entry
+  }
+
+  /**
+   * Claims a pending entry and processes it, retrying with exponential backoff until it succeeds
+   * or runs out of attempts. An entry that is no longer pending or is claimed by another instance
+   * is returned as passed in. Never throws: the outcome is recorded on the entry.
+   */
+  public async deliver(entry: WebhookInboxEntryDTO): Promise<WebhookInboxEntryDTO> {
+    const { webhookMaxAttempts, webhookRetryBaseDelay } = getConfig()
+
+    let current = await this.claim(entry.key)
+    if (!current) {
+      appLogger.info({ key: entry.key }, 'Briqpay webhook is not pending or is claimed elsewhere, skipping')
+      return entry
+    }
+
+    while (current.entry.status === WebhookInboxStatus.PENDING) {
+      const next = await this.attempt(current, webhookMaxAttempts)
+      if (!next) {
+        return current.entry
+      }
+      current = next
+
+      if (current.entry.status === WebhookInboxStatus.PENDING) {
+        const { key, attempts, lastError } = current.entry
+        appLogger.warn({ key, attempts, error: lastError }, 'Retrying Briqpay webhook')
+        await new Promise((resolve) => setTimeout(resolve, webhookRetryBaseDelay * Math.pow(2, attempts - 1)))
+      }
+    }
+
+    return current.entry
+  }
+
+  /**
+   * Delivers pending entries whose delivery was interrupted, e.g. by a restart right after the
+   * webhook was acknowledged: entries not updated within the claim TTL. Run by a scheduled job.
+   *
+   * @param now - Reference time, defaults to the current time
+   * @returns The swept entries with their new status
+   */
+  public async sweepPending(now = new Date()): Promise<WebhookInboxEntryDTO[]> {
+    const staleBefore = new Date(now.getTime() - CLAIM_TTL_MS).toISOString()
+    const response = await apiRoot
+      .customObjects()
+      .withContainer({ container: WEBHOOK_INBOX_CONTAINER })
+      .get({
+        queryArgs: {
+          where: `value(status="${WebhookInboxStatus.PENDING}" and updatedAt < "${staleBefore}")`,
+          sort: 'createdAt asc',
+          limit: WEBHOOK_INBOX_QUERY_LIMIT,
+        },
+      })
+      .execute()
+
+    const entries: WebhookInboxEntryDTO[] = []
+    for (const { key, value } of response.body.results) {
+      entries.push(await this.deliver({ key, ...(value as StoredWebhookInboxEntry) }))
+    }
+
+    appLogger.info({ staleBefore, swept: entries.length }, 'Swept stale Briqpay webhook inbox entries')
+
+    return entries
+  }
+
+  /**
+   * Lists inbox entries in the given status, oldest first.
+   */
+  public async list(status: WebhookInboxStatus = WebhookInboxStatus.DEAD_LETTER): Promise<WebhookInboxEntryDTO[]> {
+    const response = await apiRoot
+      .customObjects()
+      .withContainer({ container: WEBHOOK_INBOX_CONTAINER })
+      .get({
+        queryArgs: {
+          where: `value(status="${status}")`,
+          sort: 'createdAt asc',
+          limit: WEBHOOK_INBOX_QUERY_LIMIT,
+        },
+      })
+      .execute()
+
+    return response.body.results.map(({ key, value }) => ({ key, ...(value as StoredWebhookInboxEntry) }))
+  }
+
+  /**
+   * Resets an entry's attempts and delivers it again, e.g. after fixing the cause of a dead letter.
+   * An entry another instance is still delivering keeps its claim and is not processed twice.
+   *
+   * @throws ErrorResourceNotFound when the inbox has no entry with this key
+   */
+  public async replay(key: string): Promise<WebhookInboxEntryDTO> {
+    const reset = await CtConflictRetry.withConflictRetry(async () => {
+      const found = await this.find(key)
+      if (!found) {
+        throw new ErrorResourceNotFound(key)
+      }
+
+      appLogger.info({ key, status: found.entry.status, attempts: found.entry.attempts }, 'Replaying Briqpay webhook')
+
+      return this.save(
+        { ...found.entry, status: WebhookInboxStatus.PENDING, attempts: 0, updatedAt: new Date().toISOString() },
+        found.version,
+      )
+    })
+
+    return this.deliver(reset.entry)
+  }
+
+  /**
+   * Marks a pending entry as claimed by this instance. The write carries the version that was
+   * read, so when two instances claim the same entry only one succeeds and the other gets a 409.
+   *
+   * @returns the claimed entry, or undefined when it is not pending, someone else holds the claim or
+   * CT could not be reached; the entry then stays pending for the sweep
+   */
+  private async claim(key: string): Promise<VersionedEntry | undefined> {
+    try {
+      const found = await this.find(key)
+      const now = Date.now()
+      if (
+        !found ||
+        found.entry.status !== WebhookInboxStatus.PENDING ||
+        (found.entry.claimedAt && Date.parse(found.entry.claimedAt) > now - CLAIM_TTL_MS)
+      ) {
+        return undefined
+      }
+
+      const claimedAt = new Date(now).toISOString()
+      return await this.save({ ...found.entry, claimedAt, updatedAt: claimedAt }, found.version)
+    } catch (error) {
+      if (!CtConflictRetry.isConflict(error)) {
+        appLogger.error(
+          { key, error: error instanceof Error ? error.message : error },
+          'Failed to claim Briqpay webhook inbox entry',
+        )
+      }
+      return undefined
+    }
+  }
+
+  /**
+   * Runs one processing attempt and records its outcome under the claim.
+   *
+   * @returns the recorded entry, or undefined when another instance took the entry over
+   */
+  private async attempt(current: VersionedEntry, maxAttempts: number): Promise<VersionedEntry | undefined> {
+    const attempts = current.entry.attempts + 1
+    let lastError: string | undefined
+    try {
+      await this.notificationService.processVerifiedNotification(current.entry.data)
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error)
+    }
+
+    let status = WebhookInboxStatus.PROCESSED
+    if (lastError) {
+      status = attempts >= maxAttempts ? WebhookInboxStatus.DEAD_LETTER : WebhookInboxStatus.PENDING
+    }
+
+    const next = await this.record(
+      {
+        ...current.entry,
+        status,
+        attempts,
+        lastError,
+        // A retry renews the claim; a final outcome releases it
+        claimedAt: status === WebhookInboxStatus.PENDING ? new Date().toISOString() : undefined,
+      },
+      current.version,
+    )
+
+    if (next?.entry.status === WebhookInboxStatus.DEAD_LETTER) {
+      appLogger.error(
+        {
+          event: 'briqpay.webhook.dead_letter',
+          key: next.entry.key,
+          sessionId: next.entry.data.sessionId,
+          attempts,
+          error: lastError,
+        },
+        'Briqpay webhook moved to dead letter',
+      )
+    }
+
+    return next
+  }
+
+  private async find(key: string): Promise<VersionedEntry | undefined> {
+    try {
+      const response = await apiRoot
+        .customObjects()
+        .withContainerAndKey({ container: WEBHOOK_INBOX_CONTAINER, key })
+        .get()
+        .execute()
+      return { entry: { key, ...(response.body.value as StoredWebhookInboxEntry) }, version: response.body.version }
+    } catch (error) {
+      if (CtConflictRetry.isNotFound(error)) {
+        return undefined
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Writes an entry. With a version the write fails with 409 when the entry changed since it was read.
+   */
+  private async save(entry: WebhookInboxEntryDTO, version?: number): Promise<VersionedEntry> {
+    const { key, ...value } = entry
+    const response = await apiRoot
+      .customObjects()
+      .post({ body: { container: WEBHOOK_INBOX_CONTAINER, key, value, ...(version !== undefined && { version }) } })
+      .execute()
+    return { entry, version: response.body.version }
+  }
+
+  /**
+   * Saves a delivery outcome under the claim. The event is already acknowledged at this point, so
+   * a failed write is logged and the entry stays in its previous stored state, where it can be
+   * listed, swept and replayed.
+   *
+   * @returns the saved entry, or undefined when another instance took over the entry (409)
+   */
+  private async record(entry: WebhookInboxEntryDTO, version?: number): Promise<VersionedEntry | undefined> {
+    const updated = { ...entry, updatedAt: new Date().toISOString() }
+    try {
+      return await this.save(updated, version)
+    } catch (error) {
+      if (CtConflictRetry.isConflict(error)) {
+        appLogger.warn({ key: entry.key, status: entry.status }, 'Lost the claim on a Briqpay webhook inbox entry')
+        return undefined
+      }
+
+      appLogger.error(
+        { key: entry.key, status: entry.status, error: error instanceof Error ? error.message : error },
+        'Failed to update Briqpay webhook inbox entry',
+      )
+      return { entry: updated, version }
+    }
+  }
+
+  private async purgeProcessed(now: number): Promise<void> {
+    if (now - this.lastPurgeAt < PURGE_INTERVAL_MS) {
+      return
+    }
+    this.lastPurgeAt = now
+
+    try {
+      const processedBefore = new Date(now - PROCESSED_RETENTION_MS).toISOString()
+      const response = await apiRoot
+        .customObjects()
+        .withContainer({ container: WEBHOOK_INBOX_CONTAINER })
+        .get({
+          queryArgs: {
+            where: `value(status="${WebhookInboxStatus.PROCESSED}" and updatedAt < "${processedBefore}")`,
+            limit: PURGE_BATCH_SIZE,
+          },
+        })
+        .execute()
+
+      for (const { key, version } of response.body.results) {
+        await apiRoot
+          .customObjects()
+          .withContainerAndKey({ container: WEBHOOK_INBOX_CONTAINER, key })
+          .delete({ queryArgs: { version } })
+          .execute()
+      }
+    } catch (error) {
+      // Best-effort: leftover entries were processed already and only take up space
+      appLogger.warn(
+        { error: error instanceof Error ? error.message : error },
+        'Failed to purge processed webhook inbox entries',
+      )
+    }
+  }
+}
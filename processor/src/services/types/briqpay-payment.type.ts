@@ -325,6 +325,7 @@ export interface BriqpayTransaction {
   amountExVat?: number
   currency: string
   createdAt?: string
+  expiresAt?: string
   reservationId?: string
   pspId?: string
   pspDisplayName?: string
@@ -1,6 +1,7 @@
 import { ConfigResponseSchemaDTO } from '../../dtos/operations/config.dto'
 import {
   AmountSchemaDTO,
+  LineItemQuantitySchemaDTO,
   PaymentIntentRequestSchemaDTO,
   PaymentModificationStatus,
 } from '../../dtos/operations/payment-intents.dto'
@@ -11,6 +12,7 @@ export type CapturePaymentRequest = {
   amount: AmountSchemaDTO
   payment: Payment
   merchantReference?: string
+  lineItems?: LineItemQuantitySchemaDTO[]
 }
 
 export type CancelPaymentRequest = {
@@ -22,6 +24,8 @@ export type RefundPaymentRequest = {
   amount: AmountSchemaDTO
   payment: Payment
   merchantReference?: string
+  returnItemIds?: string[]
+  captureId?: string
 }
 
 export type ReversePaymentRequest = {
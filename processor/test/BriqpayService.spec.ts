@@ -2,8 +2,9 @@ import BriqpayService from '../src/libs/briqpay/BriqpayService'
 import { beforeEach, describe, expect, it, jest, afterEach } from '@jest/globals'
 import { mockGetCartResult } from './utils/mock-cart-data'
 import { BRIQPAY_DECISION } from '../src/dtos/briqpay-payment.dto'
-import { Cart } from '@commercetools/platform-sdk'
+import { Cart, Order } from '@commercetools/platform-sdk'
 import { apiRoot } from '../src/libs/commercetools/api-root'
+import * as Config from '../src/config/config'
 
 // Mock the apiRoot for fetchCartDiscountNames
 jest.mock('../src/libs/commercetools/api-root', () => ({
@@ -250,6 +251,672 @@ describe('BriqpayService', () => {
     expect(response).toEqual(mockCaptureResponse)
   })
 
+  describe('partial capture and refund payloads', () => {
+    const partialCart = () => {
+      const cart = mockGetCartResult()
+      const [item] = cart.lineItems
+      return {
+        ...cart,
+        lineItems: [
+          {
+            ...item,
+            quantity: 2,
+            taxRate: { name: 'VAT', amount: 0.25, includedInPrice: true, country: 'SE' },
+            totalPrice: { ...item.totalPrice, centAmount: 20000 },
+            price: { ...item.price, value: { ...item.price.value, centAmount: 10000 } },
+            taxedPrice: {
+              totalNet: { ...item.totalPrice, centAmount: 16000 },
+              totalGross: { ...item.totalPrice, centAmount: 20000 },
+              totalTax: { ...item.totalPrice, centAmount: 4000 },
+              taxPortions: [],
+            },
+          },
+        ],
+      } as typeof cart
+    }
+
+    const capturedOrder = () => {
+      const [, init] = (global.fetch as jest.Mock).mock.calls[0] as [string, RequestInit]
+      return JSON.parse(init.body as string).data.order
+    }
+
+    beforeEach(() => {
+      global.fetch = jest
+        .fn()
+        .mockReturnValue(
+          Promise.resolve({ ok: true, json: async () => ({ captureId: 'capture123' }) } as Response),
+        ) as typeof fetch
+    })
+
+    it('sends only the selected line items scaled to the selected quantity', async () => {
+      await BriqpayService.capture(partialCart(), { centAmount: 10000, currencyCode: 'EUR' }, 'abc123', {
+        lineItems: [{ id: 'lineitem-id-1', quantity: 1 }],
+      })
+
+      const order = capturedOrder()
+      expect(order.amountIncVat).toBe(10000)
+      expect(order.amountExVat).toBe(8000)
+      expect(order.cart).toHaveLength(1)
+      expect(order.cart[0]).toEqual(
+        expect.objectContaining({ quantity: 1, totalAmount: 10000, unitPriceIncVat: 10000 }),
+      )
+    })
+
+    it('sends a single partial-capture line for an amount-only partial capture', async () => {
+      await BriqpayService.capture(partialCart(), { centAmount: 5000, currencyCode: 'EUR' }, 'abc123')
+
+      const order = capturedOrder()
+      expect(order.amountIncVat).toBe(5000)
+      expect(order.amountExVat).toBe(4000)
+      expect(order.cart).toEqual([
+        expect.objectContaining({
+          reference: 'partial-capture',
+          quantity: 1,
+          totalAmount: 5000,
+          totalVatAmount: 1000,
+          taxRate: 2500,
+        }),
+      ])
+    })
+
+    it('splits an amount-only partial capture across the tax rates of a mixed-rate cart', async () => {
+      const cart = partialCart()
+      const [customLineItem] = cart.customLineItems
+      const mixedRateCart = {
+        ...cart,
+        shippingInfo: undefined,
+        customLineItems: [
+          {
+            ...customLineItem,
+            taxRate: { name: 'VAT', amount: 0.12, includedInPrice: true, country: 'SE' },
+            totalPrice: { ...customLineItem.totalPrice, centAmount: 10000 },
+            taxedPrice: {
+              totalNet: { ...customLineItem.totalPrice, centAmount: 8929 },
+              totalGross: { ...customLineItem.totalPrice, centAmount: 10000 },
+              totalTax: { ...customLineItem.totalPrice, centAmount: 1071 },
+              taxPortions: [],
+            },
+          },
+        ],
+      } as Cart
+
+      await BriqpayService.capture(mixedRateCart, { centAmount: 15000, currencyCode: 'EUR' }, 'abc123')
+
+      const order = capturedOrder()
+      expect(order.amountIncVat).toBe(15000)
+      expect(order.amountExVat).toBe(12464)
+      expect(order.cart).toEqual([
+        expect.objectContaining({ reference: 'partial-capture-2500', totalAmount: 10000, totalVatAmount: 2000 }),
+        expect.objectContaining({
+          reference: 'partial-capture-1200',
+          name: 'Partial capture (12% VAT)',
+          totalAmount: 5000,
+          totalVatAmount: 536,
+          taxRate: 1200,
+        }),
+      ])
+    })
+
+    it('sends a single partial-refund line against the parent capture for a partial refund', async () => {
+      await BriqpayService.refund(partialCart(), { centAmount: 2500, currencyCode: 'EUR' }, 'abc123', 'capture123')
+
+      const [, init] = (global.fetch as jest.Mock).mock.calls[0] as [string, RequestInit]
+      const body = JSON.parse(init.body as string)
+      expect(body.captureId).toBe('capture123')
+      expect(body.data.order).toEqual(
+        expect.objectContaining({
+          amountIncVat: 2500,
+          amountExVat: 2000,
+          cart: [expect.objectContaining({ reference: 'partial-refund', name: 'Partial refund', totalAmount: 2500 })],
+        }),
+      )
+    })
+
+    it('sends the returned order lines for a return refund', async () => {
+      const ctOrder = { ...partialCart(), id: 'order-id-1', orderState: 'Open' } as unknown as Order
+
+      await BriqpayService.refund(ctOrder, { centAmount: 10000, currencyCode: 'EUR' }, 'abc123', undefined, {
+        lineItems: [{ id: 'lineitem-id-1', quantity: 1 }],
+      })
+
+      const order = capturedOrder()
+      expect(order.amountExVat).toBe(8000)
+      expect(order.cart).toEqual([expect.objectContaining({ quantity: 1, totalAmount: 10000 })])
+    })
+  })
+
+  describe('line item images', () => {
+    const cartWithImages = (images: { url: string; label?: string }[]) => {
+      const cart = mockGetCartResult()
+      const [item] = cart.lineItems
+      return {
+        ...cart,
+        lineItems: [
+          {
+            ...item,
+            variant: { ...item.variant, images: images.map((image) => ({ dimensions: { w: 100, h: 100 }, ...image })) },
+          },
+        ],
+      } as typeof cart
+    }
+
+    const capturedImageUrl = async (cart: ReturnType<typeof cartWithImages>) => {
+      await BriqpayService.capture(
+        cart,
+        { centAmount: cart.totalPrice.centAmount, currencyCode: cart.totalPrice.currencyCode },
+        'abc123',
+      )
+      const [, init] = (global.fetch as jest.Mock).mock.calls[0] as [string, RequestInit]
+      return JSON.parse(init.body as string).data.order.cart[0].imageUrl
+    }
+
+    beforeEach(() => {
+      global.fetch = jest
+        .fn()
+        .mockReturnValue(
+          Promise.resolve({ ok: true, json: async () => ({ captureId: 'capture123' }) } as Response),
+        ) as typeof fetch
+    })
+
+    it('sends the first variant image by default', async () => {
+      const cart = cartWithImages([
+        { url: 'https://images.example.com/front.jpg' },
+        { url: 'https://images.example.com/back.jpg' },
+      ])
+
+      expect(await capturedImageUrl(cart)).toBe('https://images.example.com/front.jpg')
+    })
+
+    it('sends the variant image with the configured label', async () => {
+      jest.spyOn(Config, 'getConfig').mockReturnValue({ ...Config.config, lineItemImageLabel: 'thumbnail' })
+      const cart = cartWithImages([
+        { url: 'https://images.example.com/front.jpg' },
+        { url: 'https://images.example.com/thumb.jpg', label: 'thumbnail' },
+      ])
+
+      expect(await capturedImageUrl(cart)).toBe('https://images.example.com/thumb.jpg')
+    })
+
+    it('leaves out image URLs that are not HTTPS', async () => {
+      const cart = cartWithImages([{ url: 'http://images.example.com/front.jpg' }])
+
+      expect(await capturedImageUrl(cart)).toBeUndefined()
+    })
+
+    it('leaves out images when disabled', async () => {
+      jest.spyOn(Config, 'getConfig').mockReturnValue({ ...Config.config, lineItemImagesEnabled: false })
+      const cart = cartWithImages([{ url: 'https://images.example.com/front.jpg' }])
+
+      expect(await capturedImageUrl(cart)).toBeUndefined()
+    })
+  })
+
+  describe('gift card lines', () => {
+    const money = (centAmount: number) => ({
+      type: 'centPrecision',
+      centAmount,
+      currencyCode: 'EUR',
+      fractionDigits: 2,
+    })
+
+    const cartWithGiftCard = (unitGross: number) => {
+      const cart = mockGetCartResult()
+      const [item] = cart.lineItems
+      return {
+        ...cart,
+        lineItems: [
+          {
+            ...item,
+            lineItemMode: 'GiftCard',
+            productKey: 'gift-card-redemption',
+            variant: {
+              ...item.variant,
+              images: [{ url: 'https://images.example.com/card.jpg', dimensions: { w: 1, h: 1 } }],
+            },
+            quantity: 2,
+            price: { ...item.price, value: money(unitGross) },
+            taxRate: { name: 'VAT', amount: 0.25, includedInPrice: true, country: 'SE' },
+            taxedPrice: {
+              totalNet: money(unitGross * 1.6),
+              totalGross: money(unitGross * 2),
+              totalTax: money(unitGross * 0.4),
+              taxPortions: [],
+            },
+            discountedPricePerQuantity: [],
+          },
+        ],
+        taxedPrice: {
+          totalNet: money(unitGross * 1.6),
+          totalGross: money(unitGross * 2),
+          totalTax: money(unitGross * 0.4),
+          taxPortions: [],
+        },
+      } as typeof cart
+    }
+
+    const capturedOrder = async (cart: ReturnType<typeof cartWithGiftCard>) => {
+      await BriqpayService.capture(
+        cart,
+        { centAmount: cart.totalPrice.centAmount, currencyCode: cart.totalPrice.currencyCode },
+        'abc123',
+      )
+      const [, init] = (global.fetch as jest.Mock).mock.calls[0] as [string, RequestInit]
+      return JSON.parse(init.body as string).data.order
+    }
+
+    const capturedLine = async (cart: ReturnType<typeof cartWithGiftCard>) => (await capturedOrder(cart)).cart[0]
+
+    beforeEach(() => {
+      global.fetch = jest
+        .fn()
+        .mockReturnValue(
+          Promise.resolve({ ok: true, json: async () => ({ captureId: 'capture123' }) } as Response),
+        ) as typeof fetch
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('sends a gift card purchase as a VAT-exempt gift card line', async () => {
+      expect(await capturedLine(cartWithGiftCard(5000))).toEqual(
+        expect.objectContaining({
+          productType: 'gift_card',
+          quantity: 2,
+          unitPrice: 5000,
+          unitPriceIncVat: 5000,
+          taxRate: 0,
+          totalAmount: 10000,
+          totalVatAmount: 0,
+        }),
+      )
+    })
+
+    it('sends the order net amount with exempt gift card lines at their gross', async () => {
+      const order = await capturedOrder(cartWithGiftCard(5000))
+
+      expect(order.amountExVat).toBe(10000)
+      expect(order.amountExVat).toBe(order.cart[0].unitPrice * order.cart[0].quantity)
+    })
+
+    it('sends a gift card redemption, identified by its product key, without an image', async () => {
+      jest
+        .spyOn(Config, 'getConfig')
+        .mockReturnValue({ ...Config.config, giftCardRedemptionKeys: ['gift-card-redemption'] })
+
+      const line = await capturedLine(cartWithGiftCard(-2500))
+
+      expect(line).toEqual(expect.objectContaining({ productType: 'gift_card', totalAmount: -5000, totalVatAmount: 0 }))
+      expect(line.imageUrl).toBeUndefined()
+    })
+
+    it('identifies a gift card redemption by its product type', async () => {
+      jest
+        .spyOn(Config, 'getConfig')
+        .mockReturnValue({ ...Config.config, giftCardRedemptionProductTypes: ['product-type-reference-1'] })
+
+      expect((await capturedLine(cartWithGiftCard(2500))).imageUrl).toBeUndefined()
+    })
+
+    it('sends a gift card line outside the configured redemptions as a sale, with its image', async () => {
+      expect((await capturedLine(cartWithGiftCard(-2500))).imageUrl).toBe('https://images.example.com/card.jpg')
+    })
+
+    it('keeps the commercetools VAT when configured', async () => {
+      jest.spyOn(Config, 'getConfig').mockReturnValue({ ...Config.config, giftCardVat: 'commercetools' })
+
+      expect(await capturedLine(cartWithGiftCard(5000))).toEqual(
+        expect.objectContaining({
+          productType: 'gift_card',
+          unitPrice: 4000,
+          unitPriceIncVat: 5000,
+          taxRate: 2500,
+          totalAmount: 10000,
+          totalVatAmount: 2000,
+        }),
+      )
+    })
+  })
+
+  describe('sales-tax mode', () => {
+    const money = (centAmount: number) => ({
+      type: 'centPrecision' as const,
+      centAmount,
+      currencyCode: 'USD',
+      fractionDigits: 2,
+    })
+
+    // Two units at $100.00 entered net, with 8% sales tax split into state and county portions
+    const usCart = () => {
+      const cart = mockGetCartResult()
+      const [item] = cart.lineItems
+      return {
+        ...cart,
+        country: 'US',
+        taxMode: 'Platform',
+        shippingAddress: { country: 'US', state: 'NY' },
+        shippingInfo: undefined,
+        totalPrice: money(21600),
+        taxedPrice: {
+          totalNet: money(20000),
+          totalGross: money(21600),
+          totalTax: money(1600),
+          taxPortions: [
+            { name: 'State', rate: 0.04, amount: money(800) },
+            { name: 'County', rate: 0.04, amount: money(800) },
+          ],
+        },
+        lineItems: [
+          {
+            ...item,
+            quantity: 2,
+            price: { ...item.price, value: money(10000) },
+            totalPrice: money(20000),
+            taxRate: { name: 'NY', amount: 0.08, includedInPrice: false, country: 'US' },
+            taxedPrice: { totalNet: money(20000), totalGross: money(21600), totalTax: money(1600), taxPortions: [] },
+          },
+        ],
+        customLineItems: [],
+      } as Cart
+    }
+
+    const capturedCart = async (cart: Cart, lineItems?: { id: string; quantity: number }[], centAmount = 21600) => {
+      await BriqpayService.capture(cart, { centAmount, currencyCode: 'USD' }, 'abc123', { lineItems })
+      const [, init] = (global.fetch as jest.Mock).mock.calls[0] as [string, RequestInit]
+      return JSON.parse(init.body as string).data.order.cart
+    }
+
+    beforeEach(() => {
+      global.fetch = jest
+        .fn()
+        .mockReturnValue(
+          Promise.resolve({ ok: true, json: async () => ({ captureId: 'capture123' }) } as Response),
+        ) as typeof fetch
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('sends lines net with their tax in a single sales_tax line', async () => {
+      jest.spyOn(Config, 'getConfig').mockReturnValue({ ...Config.config, salesTaxCountries: ['US'] })
+
+      const cart = await capturedCart(usCart())
+
+      expect(cart).toEqual([
+        expect.objectContaining({
+          reference: 'variant-sku-1',
+          quantity: 2,
+          unitPrice: 10000,
+          unitPriceIncVat: 10000,
+          taxRate: 0,
+          totalAmount: 20000,
+          totalVatAmount: 0,
+        }),
+        { productType: 'sales_tax', reference: 'sales-tax', name: 'Sales tax', totalTaxAmount: 1600 },
+      ])
+    })
+
+    it('is chosen by the cart tax mode', async () => {
+      jest.spyOn(Config, 'getConfig').mockReturnValue({ ...Config.config, salesTaxModes: ['External'] })
+
+      const cart = await capturedCart({ ...usCart(), country: 'CA', taxMode: 'External' } as Cart)
+
+      expect(cart.at(-1)).toEqual(expect.objectContaining({ productType: 'sales_tax', totalTaxAmount: 1600 }))
+    })
+
+    it('sends the tax of the selected lines for a line-item capture', async () => {
+      jest.spyOn(Config, 'getConfig').mockReturnValue({ ...Config.config, salesTaxCountries: ['US'] })
+
+      const cart = await capturedCart(usCart(), [{ id: 'lineitem-id-1', quantity: 1 }])
+
+      expect(cart).toEqual([
+        expect.objectContaining({ quantity: 1, unitPriceIncVat: 10000, totalAmount: 10000, taxRate: 0 }),
+        expect.objectContaining({ productType: 'sales_tax', totalTaxAmount: 800 }),
+      ])
+    })
+
+    it('includes the shipping and its tax in a full capture', async () => {
+      jest.spyOn(Config, 'getConfig').mockReturnValue({ ...Config.config, salesTaxCountries: ['US'] })
+      // $10.00 shipping entered net, taxed at 8%
+      const cart = usCart()
+      const withShipping = {
+        ...cart,
+        shippingInfo: {
+          shippingMethodName: 'Standard',
+          price: money(1000),
+          taxRate: { name: 'NY', amount: 0.08, includedInPrice: false, country: 'US' },
+          taxedPrice: { totalNet: money(1000), totalGross: money(1080), totalTax: money(80) },
+        },
+        totalPrice: money(22680),
+        taxedPrice: {
+          ...cart.taxedPrice!,
+          totalNet: money(21000),
+          totalGross: money(22680),
+          totalTax: money(1680),
+          taxPortions: [
+            { name: 'State', rate: 0.04, amount: money(840) },
+            { name: 'County', rate: 0.04, amount: money(840) },
+          ],
+        },
+      } as Cart
+
+      const sent = await capturedCart(withShipping, undefined, 22680)
+
+      expect(sent).toEqual([
+        expect.objectContaining({ reference: 'variant-sku-1', totalAmount: 20000 }),
+        expect.objectContaining({ productType: 'shipping_fee', unitPriceIncVat: 1000, totalAmount: 1000, taxRate: 0 }),
+        expect.objectContaining({ productType: 'sales_tax', totalTaxAmount: 1680 }),
+      ])
+    })
+
+    it('sends the tax of the partial line for an amount-only capture', async () => {
+      jest.spyOn(Config, 'getConfig').mockReturnValue({ ...Config.config, salesTaxCountries: ['US'] })
+
+      const cart = await capturedCart(usCart(), undefined, 10800)
+
+      expect(cart).toEqual([
+        expect.objectContaining({
+          reference: 'partial-capture',
+          unitPrice: 10000,
+          unitPriceIncVat: 10000,
+          taxRate: 0,
+          totalAmount: 10000,
+          totalVatAmount: 0,
+        }),
+        expect.objectContaining({ productType: 'sales_tax', totalTaxAmount: 800 }),
+      ])
+    })
+
+    it('keeps VAT on every line for other carts, grossing up net prices', async () => {
+      const cart = await capturedCart(usCart())
+
+      expect(cart).toEqual([
+        expect.objectContaining({
+          unitPrice: 10000,
+          unitPriceIncVat: 10800,
+          taxRate: 800,
+          totalAmount: 21600,
+          totalVatAmount: 1600,
+        }),
+      ])
+    })
+  })
+
+  describe('custom line items', () => {
+    const money = (centAmount: number) => ({
+      type: 'centPrecision' as const,
+      centAmount,
+      currencyCode: 'EUR',
+      fractionDigits: 2,
+    })
+
+    const customLineItem = (
+      slug: string,
+      name: string,
+      centAmount: number,
+      overrides: Record<string, unknown> = {},
+    ) => ({
+      id: `${slug}-id`,
+      name: { en: name },
+      slug,
+      quantity: 1,
+      money: money(centAmount),
+      totalPrice: money(centAmount),
+      taxRate: { name: 'VAT', amount: 0.25, includedInPrice: true, country: 'SE' },
+      discountedPricePerQuantity: [],
+      ...overrides,
+    })
+
+    const capturedCart = async (customLineItems: ReturnType<typeof customLineItem>[]) => {
+      const cart = { ...mockGetCartResult(), shippingInfo: undefined, customLineItems } as unknown as Cart
+      await BriqpayService.capture(
+        cart,
+        { centAmount: cart.totalPrice.centAmount, currencyCode: cart.totalPrice.currencyCode },
+        'abc123',
+      )
+      const [, init] = (global.fetch as jest.Mock).mock.calls[0] as [string, RequestInit]
+      return JSON.parse(init.body as string).data.order.cart.slice(mockGetCartResult().lineItems.length)
+    }
+
+    beforeEach(() => {
+      global.fetch = jest
+        .fn()
+        .mockReturnValue(
+          Promise.resolve({ ok: true, json: async () => ({ captureId: 'capture123' }) } as Response),
+        ) as typeof fetch
+    })
+
+    it('maps custom line items to surcharge, digital and discount lines with their own tax rate', async () => {
+      const lines = await capturedCart([
+        customLineItem('gift-wrapping', 'Gift wrapping', 500),
+        customLineItem('digital-engraving-preview', 'Engraving preview', 1000, {
+          taxRate: { name: 'VAT', amount: 0.06, includedInPrice: true, country: 'SE' },
+        }),
+        customLineItem('loyalty-credit', 'Loyalty credit', -1000),
+      ])
+
+      expect(lines).toEqual([
+        expect.objectContaining({
+          productType: 'surcharge',
+          reference: 'gift-wrapping',
+          name: 'Gift wrapping',
+          unitPrice: 400,
+          unitPriceIncVat: 500,
+          taxRate: 2500,
+          totalAmount: 500,
+          totalVatAmount: 100,
+        }),
+        expect.objectContaining({ productType: 'digital', reference: 'digital-engraving-preview', taxRate: 600 }),
+        expect.objectContaining({ productType: 'discount', reference: 'loyalty-credit', totalAmount: -1000 }),
+      ])
+    })
+
+    it('adds a discount line for a discounted custom line item', async () => {
+      const lines = await capturedCart([
+        customLineItem('service-fee', 'Service fee', 1000, {
+          taxedPrice: { totalNet: money(640), totalGross: money(800), totalTax: money(160), taxPortions: [] },
+          discountedPricePerQuantity: [
+            {
+              quantity: 1,
+              discountedPrice: { value: money(800), includedDiscounts: [{ discount: { id: 'fee-discount' } }] },
+            },
+          ],
+        }),
+      ])
+
+      expect(lines).toEqual([
+        expect.objectContaining({ productType: 'surcharge', totalAmount: 1000 }),
+        expect.objectContaining({
+          productType: 'discount',
+          reference: 'discount-fee-discount',
+          totalAmount: -200,
+          totalVatAmount: -40,
+        }),
+      ])
+    })
+  })
+
+  describe('whole-order captures and refunds', () => {
+    const money = (centAmount: number) => ({
+      type: 'centPrecision' as const,
+      centAmount,
+      currencyCode: 'EUR',
+      fractionDigits: 2,
+    })
+
+    // A 100.00 line and a 10.00 shipping fee at 25% VAT, with 5.00 off the order total
+    const orderWithShippingAndDiscount = () => {
+      const cart = mockGetCartResult()
+      const [item] = cart.lineItems
+      const taxRate = { name: 'VAT', amount: 0.25, includedInPrice: true, country: 'SE' }
+      return {
+        ...cart,
+        lineItems: [
+          {
+            ...item,
+            price: { ...item.price, value: money(10000) },
+            totalPrice: money(10000),
+            taxRate,
+            taxedPrice: { totalNet: money(8000), totalGross: money(10000), totalTax: money(2000), taxPortions: [] },
+          },
+        ],
+        customLineItems: [],
+        shippingInfo: {
+          ...cart.shippingInfo!,
+          price: money(1000),
+          taxRate,
+          taxedPrice: { totalNet: money(800), totalGross: money(1000), totalTax: money(200) },
+        },
+        discountOnTotalPrice: {
+          discountedAmount: money(-500),
+          discountedNetAmount: money(-400),
+          discountedGrossAmount: money(-500),
+          includedDiscounts: [],
+        },
+        totalPrice: money(10500),
+        taxedPrice: { totalNet: money(8400), totalGross: money(10500), totalTax: money(2100), taxPortions: [] },
+      } as Cart
+    }
+
+    const sentOrder = (call = 0) => {
+      const [, init] = (global.fetch as jest.Mock).mock.calls[call] as [string, RequestInit]
+      return JSON.parse(init.body as string).data.order
+    }
+
+    beforeEach(() => {
+      global.fetch = jest.fn().mockReturnValue(
+        Promise.resolve({
+          ok: true,
+          json: async () => ({ sessionId: 'abc123', captureId: 'capture123', refundId: 'refund123' }),
+        }),
+      ) as typeof fetch
+    })
+
+    it('sends the lines of the session, shipping fee and order discount included, with a full capture', async () => {
+      const cart = orderWithShippingAndDiscount()
+      await BriqpayService.updateSession('abc123', cart, money(10500))
+      await BriqpayService.capture(cart, { centAmount: 10500, currencyCode: 'EUR' }, 'abc123')
+
+      const order = sentOrder(1)
+      expect(order.cart).toEqual([
+        expect.objectContaining({ reference: 'variant-sku-1', totalAmount: 10000 }),
+        expect.objectContaining({ productType: 'discount', reference: 'total-discount', totalAmount: 500 }),
+        expect.objectContaining({ productType: 'shipping_fee', reference: 'shippingfee', totalAmount: 1000 }),
+      ])
+      expect(order.cart).toEqual(sentOrder(0).cart)
+      expect(order.amountExVat).toBe(8400)
+    })
+
+    it('sends the lines of the session with a full refund', async () => {
+      const cart = orderWithShippingAndDiscount()
+      await BriqpayService.updateSession('abc123', cart, money(10500))
+      await BriqpayService.refund(cart, { centAmount: 10500, currencyCode: 'EUR' }, 'abc123')
+
+      expect(sentOrder(1).cart).toEqual(sentOrder(0).cart)
+    })
+  })
+
   it('should refund an order successfully', async () => {
     const mockCart = mockGetCartResult()
 
@@ -299,6 +966,20 @@ describe('BriqpayService', () => {
     expect(response.status).toEqual('approved')
   })
 
+  it('should send the idempotency key with cancel', async () => {
+    global.fetch = jest.fn().mockReturnValue(
+      Promise.resolve({
+        ok: true,
+        status: 204,
+      } as Response),
+    ) as typeof fetch
+
+    await BriqpayService.cancel('abc123', 'ct-payment-1-cancel-10000-SEK')
+
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0] as [string, RequestInit]
+    expect((init.headers as Record<string, string>)['Idempotency-Key']).toBe('ct-payment-1-cancel-10000-SEK')
+  })
+
   it('should parse an error when response.text() works in cancel', async () => {
     global.fetch = jest.fn().mockReturnValue(
       Promise.resolve({
@@ -383,16 +1064,27 @@ describe('BriqpayService', () => {
       jest.restoreAllMocks()
     })
 
-    it('should return response when health check succeeds', async () => {
-      const mockResponse = { ok: true, status: 200 } as Response
+    it('should make an authenticated call against the configured base URL', async () => {
+      const mockResponse = { ok: false, status: 404 } as Response
       ;(global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue(mockResponse)
 
       const result = await BriqpayService.healthCheck()
 
-      expect(global.fetch).toHaveBeenCalledWith('https://api.briqpay.com/')
+      const [url, init] = (global.fetch as jest.Mock).mock.calls[0] as [string, RequestInit]
+      expect(url).toBe('https://mock-briqpay.api/session/connector-health-check')
+      expect((init.headers as Record<string, string>).Authorization).toMatch(/^Basic /)
       expect(result).toBe(mockResponse)
     })
 
+    it('should throw error when Briqpay rejects the credentials', async () => {
+      const mockResponse = { ok: false, status: 401 } as Response
+      ;(global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue(mockResponse)
+
+      await expect(BriqpayService.healthCheck()).rejects.toThrow(
+        'Briqpay rejected the configured credentials with status 401',
+      )
+    })
+
     it('should throw error when health check fails', async () => {
       const mockResponse = { ok: false, status: 500 } as Response
       ;(global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue(mockResponse)
@@ -713,6 +1405,86 @@ describe('BriqpayService', () => {
     })
   })
 
+  describe('multi-shipping carts', () => {
+    const address = (city: string) => ({ country: 'SE', city, streetName: `${city} street`, postalCode: '11122' })
+
+    const shippingEntry = (shippingKey: string, shippingMethodName: string, centAmount: number, extra = {}) => ({
+      shippingKey,
+      shippingAddress: { key: shippingKey, ...address(shippingKey) },
+      shippingInfo: {
+        shippingMethodName,
+        price: { type: 'centPrecision', centAmount, currencyCode: 'EUR', fractionDigits: 2 },
+        taxRate: { name: 'VAT', amount: 0.25, includedInPrice: true, country: 'SE' },
+        shippingMethodState: 'MatchesCart',
+        ...extra,
+      },
+    })
+
+    const multiShippingCart = () => {
+      const cart = JSON.parse(JSON.stringify(mockGetCartResult()))
+      delete cart.shippingInfo
+      delete cart.shippingAddress
+      return {
+        ...cart,
+        shippingMode: 'Multiple',
+        shipping: [
+          shippingEntry('stockholm', 'Express', 1000),
+          shippingEntry('gothenburg', 'Standard', 500, {
+            discountedPrice: { value: { centAmount: 0, currencyCode: 'EUR' }, includedDiscounts: [] },
+          }),
+        ],
+      } as Cart
+    }
+
+    let requestBody: any
+
+    beforeEach(() => {
+      requestBody = undefined
+      global.fetch = jest.fn().mockImplementation((_url, init: any) => {
+        requestBody = JSON.parse(init.body)
+        return Promise.resolve({ ok: true, json: async () => ({ sessionId: 'abc123' }) } as Response)
+      }) as typeof fetch
+    })
+
+    it('should send one shipping fee line per shipping entry on session creation', async () => {
+      await BriqpayService.createSession(
+        multiShippingCart(),
+        { centAmount: 10000, currencyCode: 'EUR', fractionDigits: 2 },
+        'localhost',
+      )
+
+      const shippingLines = requestBody.data.order.cart.filter((item: any) => item.reference.startsWith('shipping'))
+      expect(shippingLines).toEqual([
+        expect.objectContaining({
+          productType: 'shipping_fee',
+          reference: 'shippingfee-stockholm',
+          name: 'Express',
+          unitPriceIncVat: 1000,
+          unitPrice: 800,
+          taxRate: 2500,
+        }),
+        expect.objectContaining({ productType: 'shipping_fee', reference: 'shippingfee-gothenburg', name: 'Standard' }),
+        expect.objectContaining({
+          productType: 'discount',
+          reference: 'shipping-discount-gothenburg',
+          name: 'Shipping Discount: Standard',
+          totalAmount: -500,
+        }),
+      ])
+    })
+
+    it('should send the shipping entry addresses on session update', async () => {
+      await BriqpayService.updateSession('abc123', multiShippingCart(), { centAmount: 10000, currencyCode: 'EUR' })
+
+      expect(requestBody.data.shipping).toEqual(expect.objectContaining({ city: 'stockholm' }))
+      expect(requestBody.data.shippingAddresses.map((shipping: any) => shipping.city)).toEqual([
+        'stockholm',
+        'gothenburg',
+      ])
+      expect(requestBody.data.order.cart.filter((item: any) => item.productType === 'shipping_fee')).toHaveLength(2)
+    })
+  })
+
   describe('cart item mapping edge cases', () => {
     it('should handle discounted price mode items', async () => {
       const mockCart = JSON.parse(JSON.stringify(mockGetCartResult()))
@@ -1245,6 +2017,63 @@ describe('BriqpayService', () => {
     })
   })
 
+  describe('opt-in session hooks', () => {
+    const captureRequestBody = async () => {
+      let requestBody: any = null
+      global.fetch = jest.fn().mockImplementation((_url, init: any) => {
+        requestBody = JSON.parse(init.body)
+        return Promise.resolve({
+          ok: true,
+          json: async () => ({ sessionId: 'abc123' }),
+        } as Response)
+      }) as typeof fetch
+
+      await BriqpayService.createSession(
+        mockGetCartResult(),
+        { centAmount: 10000, currencyCode: 'SEK', fractionDigits: 2 },
+        'localhost',
+      )
+
+      return requestBody
+    }
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should not register session hooks by default', async () => {
+      const requestBody = await captureRequestBody()
+
+      const eventTypes = requestBody.hooks.map((h: any) => h.eventType)
+      expect(eventTypes).not.toContain('session_status')
+      expect(eventTypes).not.toContain('module_ui_status')
+    })
+
+    it('should register session_status and per-module module_ui_status hooks when enabled', async () => {
+      jest.spyOn(Config, 'getConfig').mockReturnValue({
+        ...Config.config,
+        sessionStatusHookEnabled: true,
+        moduleUiStatusHookEnabled: true,
+      })
+
+      const requestBody = await captureRequestBody()
+
+      const sessionHooks = requestBody.hooks.filter((h: any) => h.eventType === 'session_status')
+      expect(sessionHooks).toEqual([
+        {
+          eventType: 'session_status',
+          statuses: ['completed'],
+          method: 'POST',
+          url: 'https://localhost/notifications',
+        },
+      ])
+
+      const moduleHooks = requestBody.hooks.filter((h: any) => h.eventType === 'module_ui_status')
+      expect(moduleHooks.map((h: any) => h.module)).toEqual(['billing', 'shipping', 'payment'])
+      expect(moduleHooks[0].statuses).toEqual(expect.arrayContaining(['visible', 'completed']))
+    })
+  })
+
   describe('external webhook hooks', () => {
     const originalExternalUrl = process.env.BRIQPAY_EXTERNAL_WEBHOOK_URL
 
@@ -22,8 +22,10 @@ import * as FastifyContext from '../src/libs/fastify/context/context'
 import * as StatusHandler from '@commercetools/connect-payments-sdk/dist/api/handlers/status.handler'
 import {
   BRIQPAY_DECISION,
+  BRIQPAY_MODULE_UI_WEBHOOK_STATUS,
   BRIQPAY_REJECT_TYPE,
   BRIQPAY_WEBHOOK_EVENT,
+  BRIQPAY_WEBHOOK_MODULE,
   BRIQPAY_WEBHOOK_STATUS,
   NotificationRequestSchemaDTO,
   PaymentMethodType,
@@ -34,6 +36,9 @@ import Briqpay from '../src/libs/briqpay/BriqpayService'
 import { Cart, Payment, Transaction, TransactionState, TransactionType } from '@commercetools/connect-payments-sdk'
 import { TransactionDraftDTO } from '../src/dtos/operations/transaction.dto'
 import { briqpaySessionIdCustomType } from '../src/custom-types/custom-types'
+import { BriqpaySessionStatusService } from '../src/services/briqpay/session-status.service'
+import { findMissingBriqpayFieldDefinitions } from '../src/connectors/actions'
+import { buildIdempotencyKey } from '../src/services/briqpay/utils'
 
 /**
  * Helper to create a mock Briqpay session response with the appropriate moduleStatus.
@@ -121,6 +126,7 @@ const createSignedWebhookRequest = (data: NotificationRequestSchemaDTO) => {
 jest.mock('../src/connectors/actions', () => ({
   getBriqpayTypeKey: jest.fn().mockResolvedValue('briqpay-session-id'),
   clearBriqpayTypeKeyCache: jest.fn(),
+  findMissingBriqpayFieldDefinitions: jest.fn(),
 }))
 
 // Mock the apiRoot
@@ -134,6 +140,7 @@ jest.mock('../src/libs/commercetools/api-root', () => ({
       }),
     }),
     payments: jest.fn(),
+    orders: jest.fn(),
   },
 }))
 
@@ -208,6 +215,12 @@ describe('briqpay-payment.service', () => {
         }),
       }),
     })
+    // No order yet by default, so payment modifications fall back to the cart
+    ;(apiRoot.orders as jest.Mock<any>).mockReturnValue({
+      get: jest.fn<any>().mockReturnValue({
+        execute: jest.fn<any>().mockResolvedValue({ body: { results: [] } }),
+      }),
+    })
 
     // Mock Briqpay service methods
     // Note: moduleStatus is the source of truth for status in notification processing
@@ -349,6 +362,27 @@ describe('briqpay-payment.service', () => {
     )
   })
 
+  test('getConfig with a multi-shipping cart without a cart-level shipping address', async () => {
+    const cart = mockGetCartResult()
+    jest.spyOn(paymentSDK.ctCartService, 'getCart').mockResolvedValue({
+      ...cart,
+      shippingMode: 'Multiple',
+      shippingAddress: undefined,
+      shipping: [{ shippingKey: 'home', shippingAddress: cart.shippingAddress! } as Cart['shipping'][number]],
+    })
+
+    setupMockConfig({ mockClientKey: '', mockEnvironment: 'test' })
+    jest.spyOn(Briqpay, 'createSession').mockReturnValue(
+      Promise.resolve({
+        sessionId: 'abc123',
+      }),
+    )
+
+    const result: ConfigResponse = await paymentService.config('localhost')
+
+    expect(result?.briqpaySessionId).toStrictEqual('abc123')
+  })
+
   test('getConfig with getSession error', async () => {
     jest.spyOn(paymentSDK.ctCartService, 'getCart').mockResolvedValue({
       ...mockGetCartResult(),
@@ -673,6 +707,174 @@ describe('briqpay-payment.service', () => {
     await expect(result).rejects.toThrow('Cannot cancel a payment that has been captured')
   })
 
+  test('cancelPayment releases the uncaptured remainder after a partial capture', async () => {
+    const modifyPaymentOpts: ModifyPayment = {
+      paymentId: 'dummy-paymentId',
+      data: {
+        actions: [
+          {
+            action: 'cancelPayment',
+          },
+        ],
+      },
+    }
+
+    const mockPayment = {
+      ...mockGetPaymentResult,
+      amountPlanned: {
+        type: 'centPrecision' as const,
+        centAmount: 119000,
+        currencyCode: 'EUR',
+        fractionDigits: 2,
+      },
+      transactions: [
+        {
+          id: 'auth-transaction-id',
+          type: 'Authorization',
+          interactionId: 'test-session-id',
+          state: 'Success',
+          amount: {
+            type: 'centPrecision' as const,
+            centAmount: 119000,
+            currencyCode: 'EUR',
+            fractionDigits: 2,
+          },
+        },
+        {
+          id: 'capture-transaction-id',
+          type: 'Charge',
+          interactionId: 'test-capture-id',
+          state: 'Success',
+          amount: {
+            type: 'centPrecision' as const,
+            centAmount: 40000,
+            currencyCode: 'EUR',
+            fractionDigits: 2,
+          },
+        },
+      ],
+    }
+
+    jest.spyOn(paymentSDK.ctPaymentService, 'getPayment').mockResolvedValue(mockPayment)
+    const updatePaymentSpy = jest
+      .spyOn(paymentSDK.ctPaymentService, 'updatePayment')
+      .mockResolvedValue(mockUpdatePaymentResult)
+    const cancelSpy = jest.spyOn(Briqpay, 'cancel').mockResolvedValue({ status: PaymentOutcome.APPROVED })
+
+    const result = await paymentService.modifyPayment(modifyPaymentOpts)
+
+    expect(result?.outcome).toStrictEqual('approved')
+    expect(cancelSpy).toHaveBeenCalledWith('test-session-id', 'ct-123456-cancel-79000-EUR')
+    expect(updatePaymentSpy).toHaveBeenCalledWith({
+      id: '123456',
+      transaction: {
+        type: 'CancelAuthorization',
+        amount: { centAmount: 79000, currencyCode: 'EUR' },
+        state: 'Success',
+        interfaceId: 'ct-123456-cancel-79000-EUR',
+      },
+    })
+  })
+
+  test('cancelPayment does not release a remainder twice', async () => {
+    const modifyPaymentOpts: ModifyPayment = {
+      paymentId: 'dummy-paymentId',
+      data: {
+        actions: [
+          {
+            action: 'cancelPayment',
+          },
+        ],
+      },
+    }
+
+    const mockPayment = {
+      ...mockGetPaymentResult,
+      amountPlanned: {
+        type: 'centPrecision' as const,
+        centAmount: 119000,
+        currencyCode: 'EUR',
+        fractionDigits: 2,
+      },
+      transactions: [
+        {
+          id: 'auth-transaction-id',
+          type: 'Authorization',
+          interactionId: 'test-session-id',
+          state: 'Success',
+          amount: { type: 'centPrecision' as const, centAmount: 119000, currencyCode: 'EUR', fractionDigits: 2 },
+        },
+        {
+          id: 'capture-transaction-id',
+          type: 'Charge',
+          interactionId: 'test-capture-id',
+          state: 'Success',
+          amount: { type: 'centPrecision' as const, centAmount: 40000, currencyCode: 'EUR', fractionDigits: 2 },
+        },
+        {
+          id: 'release-transaction-id',
+          type: 'CancelAuthorization',
+          interfaceId: 'ct-123456-cancel-79000-EUR',
+          state: 'Success',
+          amount: { type: 'centPrecision' as const, centAmount: 79000, currencyCode: 'EUR', fractionDigits: 2 },
+        },
+      ],
+    }
+
+    jest.spyOn(paymentSDK.ctPaymentService, 'getPayment').mockResolvedValue(mockPayment)
+    const cancelSpy = jest.spyOn(Briqpay, 'cancel')
+
+    const result = await paymentService.modifyPayment(modifyPaymentOpts)
+
+    expect(result?.outcome).toStrictEqual('approved')
+    expect(cancelSpy).not.toHaveBeenCalled()
+  })
+
+  test('cancelPayment after a partial capture and a pending release leaves the captured part intact', async () => {
+    const money = (centAmount: number) => ({
+      type: 'centPrecision' as const,
+      centAmount,
+      currencyCode: 'EUR',
+      fractionDigits: 2,
+    })
+    jest.spyOn(paymentSDK.ctPaymentService, 'getPayment').mockResolvedValue({
+      ...mockGetPaymentResult,
+      amountPlanned: money(119000),
+      transactions: [
+        {
+          id: 'auth-1',
+          type: 'Authorization',
+          interactionId: 'test-session-id',
+          state: 'Success',
+          amount: money(119000),
+        },
+        { id: 'charge-1', type: 'Charge', interactionId: 'capture-1', state: 'Success', amount: money(40000) },
+        // Released by the authorization-expiry job under a different key
+        {
+          id: 'release-1',
+          type: 'CancelAuthorization',
+          interfaceId: 'expiry-key',
+          state: 'Pending',
+          amount: money(79000),
+        },
+      ],
+    })
+    jest.spyOn(Briqpay, 'getSession').mockResolvedValue(createMockBriqpaySession({ sessionId: 'test-session-id' }))
+    const updatePaymentSpy = jest.spyOn(paymentSDK.ctPaymentService, 'updatePayment')
+    const cancelSpy = jest.spyOn(Briqpay, 'cancel')
+    const refundSpy = jest.spyOn(Briqpay, 'refund')
+
+    const result = await paymentService.modifyPayment({
+      paymentId: 'dummy-paymentId',
+      data: { actions: [{ action: 'cancelPayment' }] },
+    })
+
+    expect(result.outcome).toBe('received')
+    expect(cancelSpy).not.toHaveBeenCalled()
+    expect(refundSpy).not.toHaveBeenCalled()
+    expect(updatePaymentSpy).not.toHaveBeenCalled()
+  })
+
   test('cancelPayment should fail if no session ID found', async () => {
     const modifyPaymentOpts: ModifyPayment = {
       paymentId: 'dummy-paymentId',
@@ -757,16 +959,609 @@ describe('briqpay-payment.service', () => {
       fractionDigits: 2,
     })
 
-    // Mock Briqpay capture
-    jest.spyOn(Briqpay, 'capture').mockReturnValue(
-      Promise.resolve({
-        captureId: '123',
-        status: PaymentOutcome.APPROVED,
-      }),
-    )
+    // Mock Briqpay capture
+    jest.spyOn(Briqpay, 'capture').mockReturnValue(
+      Promise.resolve({
+        captureId: '123',
+        status: PaymentOutcome.APPROVED,
+      }),
+    )
+
+    const result = await paymentService.modifyPayment(modifyPaymentOpts)
+    expect(result?.outcome).toStrictEqual('approved')
+  })
+
+  test('capturePayment derives the idempotency key from the merchant reference and records it on the Charge', async () => {
+    const modifyPaymentOpts: ModifyPayment = {
+      paymentId: 'dummy-paymentId',
+      data: {
+        actions: [
+          {
+            action: 'capturePayment',
+            amount: {
+              centAmount: 119000,
+              currencyCode: 'EUR',
+            },
+            merchantReference: 'shipment-1',
+          },
+        ],
+      },
+    }
+
+    const mockPayment = {
+      ...mockGetPaymentResult,
+      transactions: [
+        {
+          id: 'auth-transaction-id',
+          type: 'Authorization',
+          interactionId: 'test-session-id',
+          state: 'Success',
+          amount: {
+            type: 'centPrecision' as const,
+            centAmount: 119000,
+            currencyCode: 'EUR',
+            fractionDigits: 2,
+          },
+        },
+      ],
+    }
+
+    jest.spyOn(paymentSDK.ctPaymentService, 'getPayment').mockResolvedValue(mockPayment)
+    const updatePaymentSpy = jest
+      .spyOn(paymentSDK.ctPaymentService, 'updatePayment')
+      .mockResolvedValue(mockUpdatePaymentResult)
+    jest.spyOn(paymentSDK.ctCartService, 'getCartByPaymentId').mockResolvedValue(mockGetCartResult())
+    const captureSpy = jest.spyOn(Briqpay, 'capture').mockResolvedValue({
+      captureId: '123',
+      status: PaymentOutcome.APPROVED,
+    })
+
+    await paymentService.modifyPayment(modifyPaymentOpts)
+
+    const expectedKey = buildIdempotencyKey(
+      mockPayment.id,
+      'capture',
+      { centAmount: 119000, currencyCode: 'EUR' },
+      {
+        merchantReference: 'shipment-1',
+      },
+    )
+    expect(expectedKey).toMatch(new RegExp(`^ct-${mockPayment.id}-capture-119000-EUR-[0-9a-f]{16}$`))
+    expect(captureSpy).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      'test-session-id',
+      expect.objectContaining({ idempotencyKey: expectedKey }),
+    )
+    expect(updatePaymentSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        transaction: expect.objectContaining({ type: 'Charge', interactionId: '123', interfaceId: expectedKey }),
+      }),
+    )
+  })
+
+  describe('partial captures', () => {
+    const authorizedPayment = {
+      ...mockGetPaymentResult,
+      transactions: [
+        {
+          id: 'auth-transaction-id',
+          type: 'Authorization',
+          interactionId: 'test-session-id',
+          state: 'Success',
+          amount: { type: 'centPrecision' as const, centAmount: 119000, currencyCode: 'EUR', fractionDigits: 2 },
+        },
+      ],
+    }
+
+    const capture = (action: Record<string, unknown>) =>
+      paymentService.modifyPayment({
+        paymentId: 'dummy-paymentId',
+        data: { actions: [{ action: 'capturePayment', ...action }] },
+      } as ModifyPayment)
+
+    beforeEach(() => {
+      jest.spyOn(paymentSDK.ctPaymentService, 'getPayment').mockResolvedValue(authorizedPayment)
+      jest.spyOn(paymentSDK.ctPaymentService, 'updatePayment').mockResolvedValue(mockUpdatePaymentResult)
+      jest.spyOn(paymentSDK.ctCartService, 'getCartByPaymentId').mockResolvedValue(mockGetCartResult())
+    })
+
+    test('captures a partial amount and records it as a Charge with the captured amount', async () => {
+      const captureSpy = jest.spyOn(Briqpay, 'capture').mockResolvedValue({
+        captureId: 'partial-capture-1',
+        status: PaymentOutcome.APPROVED,
+      })
+
+      const result = await capture({ amount: { centAmount: 50000, currencyCode: 'EUR' } })
+
+      expect(result.outcome).toBe('approved')
+      expect(captureSpy).toHaveBeenCalledWith(
+        expect.anything(),
+        { centAmount: 50000, currencyCode: 'EUR' },
+        'test-session-id',
+        expect.objectContaining({ lineItems: undefined }),
+      )
+      expect(paymentSDK.ctPaymentService.updatePayment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          transaction: expect.objectContaining({
+            type: 'Charge',
+            amount: { centAmount: 50000, currencyCode: 'EUR' },
+            interactionId: 'partial-capture-1',
+          }),
+        }),
+      )
+    })
+
+    test('sends two equal-amount partial captures to Briqpay with distinct idempotency keys', async () => {
+      const captureSpy = jest
+        .spyOn(Briqpay, 'capture')
+        .mockResolvedValueOnce({ captureId: 'partial-capture-1', status: PaymentOutcome.APPROVED })
+        .mockResolvedValueOnce({ captureId: 'partial-capture-2', status: PaymentOutcome.APPROVED })
+
+      await capture({ amount: { centAmount: 50000, currencyCode: 'EUR' } })
+      const [firstCall] = captureSpy.mock.calls
+      const firstKey = firstCall[3]?.idempotencyKey
+
+      jest.spyOn(paymentSDK.ctPaymentService, 'getPayment').mockResolvedValue({
+        ...authorizedPayment,
+        transactions: [
+          ...authorizedPayment.transactions,
+          {
+            id: 'charge-transaction-id',
+            type: 'Charge',
+            interactionId: 'partial-capture-1',
+            interfaceId: firstKey,
+            state: 'Success',
+            amount: { type: 'centPrecision' as const, centAmount: 50000, currencyCode: 'EUR', fractionDigits: 2 },
+          },
+        ],
+      })
+      const result = await capture({ amount: { centAmount: 50000, currencyCode: 'EUR' } })
+
+      expect(result.outcome).toBe('approved')
+      expect(captureSpy).toHaveBeenCalledTimes(2)
+      expect(captureSpy.mock.calls[1][3]?.idempotencyKey).not.toBe(firstKey)
+      expect(paymentSDK.ctPaymentService.updatePayment).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          transaction: expect.objectContaining({ type: 'Charge', interactionId: 'partial-capture-2' }),
+        }),
+      )
+    })
+
+    test('sends a retried capture without a merchant reference with the same idempotency key', async () => {
+      const captureSpy = jest
+        .spyOn(Briqpay, 'capture')
+        .mockRejectedValueOnce(new Error('Briqpay request timed out'))
+        .mockResolvedValueOnce({ captureId: 'partial-capture-1', status: PaymentOutcome.APPROVED })
+
+      await expect(capture({ amount: { centAmount: 50000, currencyCode: 'EUR' } })).rejects.toThrow('timed out')
+      await capture({ amount: { centAmount: 50000, currencyCode: 'EUR' } })
+
+      expect(captureSpy).toHaveBeenCalledTimes(2)
+      const [firstKey, retryKey] = captureSpy.mock.calls.map((call) => call[3]?.idempotencyKey)
+      expect(firstKey).toBe(`ct-${authorizedPayment.id}-capture-50000-EUR-0`)
+      expect(retryKey).toBe(firstKey)
+    })
+
+    test('collapses identical captures that are still in flight', async () => {
+      const captureSpy = jest
+        .spyOn(Briqpay, 'capture')
+        .mockResolvedValue({ captureId: 'partial-capture-1', status: PaymentOutcome.APPROVED })
+
+      const results = await Promise.all([
+        capture({ amount: { centAmount: 50000, currencyCode: 'EUR' } }),
+        capture({ amount: { centAmount: 50000, currencyCode: 'EUR' } }),
+      ])
+
+      expect(results.map((result) => result.outcome)).toEqual(['approved', 'approved'])
+      expect(captureSpy).toHaveBeenCalledTimes(1)
+    })
+
+    test('forwards the line-item selection to Briqpay', async () => {
+      const captureSpy = jest.spyOn(Briqpay, 'capture').mockResolvedValue({
+        captureId: 'partial-capture-2',
+        status: PaymentOutcome.APPROVED,
+      })
+      const lineItems = [{ id: 'lineitem-id-1', quantity: 1 }]
+
+      await capture({ amount: { centAmount: 119000, currencyCode: 'EUR' }, lineItems })
+
+      expect(captureSpy).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        'test-session-id',
+        expect.objectContaining({ lineItems }),
+      )
+    })
+
+    test('rejects amounts above the authorized amount', async () => {
+      const captureSpy = jest.spyOn(Briqpay, 'capture')
+
+      await expect(capture({ amount: { centAmount: 119001, currencyCode: 'EUR' } })).rejects.toThrow(
+        'Capture amount 119001 must be greater than 0 and at most the remaining authorized amount 119000',
+      )
+      expect(captureSpy).not.toHaveBeenCalled()
+    })
+
+    test('builds the capture from the edited order instead of the stale cart', async () => {
+      const cart = mockGetCartResult()
+      const [lineItem] = cart.lineItems
+      // An order edit halved the line; the cart still has the original total
+      const editedOrder = {
+        ...cart,
+        id: 'order-id-1',
+        orderState: 'Open',
+        lineItems: [{ ...lineItem, totalPrice: { ...lineItem.totalPrice, centAmount: 59500 } }],
+        totalPrice: { ...cart.totalPrice, centAmount: 59500 },
+      }
+      ;(apiRoot.orders as jest.Mock<any>).mockReturnValue({
+        get: jest.fn<any>().mockReturnValue({
+          execute: jest.fn<any>().mockResolvedValue({ body: { results: [editedOrder] } }),
+        }),
+      })
+      const captureSpy = jest.spyOn(Briqpay, 'capture').mockResolvedValue({
+        captureId: 'order-capture-1',
+        status: PaymentOutcome.APPROVED,
+      })
+
+      await capture({ amount: { centAmount: 59500, currencyCode: 'EUR' } })
+
+      expect(captureSpy).toHaveBeenCalledWith(
+        editedOrder,
+        { centAmount: 59500, currencyCode: 'EUR' },
+        'test-session-id',
+        expect.anything(),
+      )
+      expect(paymentSDK.ctCartService.getCartByPaymentId).not.toHaveBeenCalled()
+    })
+
+    test('keeps capturing until the Briqpay transaction amount is used up', async () => {
+      const amount = (centAmount: number) => ({
+        type: 'centPrecision' as const,
+        centAmount,
+        currencyCode: 'EUR',
+        fractionDigits: 2,
+      })
+      jest.spyOn(paymentSDK.ctPaymentService, 'getPayment').mockResolvedValue({
+        ...authorizedPayment,
+        transactions: [
+          ...authorizedPayment.transactions,
+          { id: 'charge-1', type: 'Charge', interactionId: 'capture-1', state: 'Success', amount: amount(40000) },
+          { id: 'charge-2', type: 'Charge', interactionId: 'capture-2', state: 'Pending', amount: amount(30000) },
+          { id: 'charge-3', type: 'Charge', interactionId: 'capture-3', state: 'Failure', amount: amount(30000) },
+        ],
+      })
+      // Briqpay authorized less than the cart total; its transaction amount is authoritative
+      const briqpaySession = createMockBriqpaySession({ sessionId: 'test-session-id' })
+      briqpaySession.data!.transactions = [
+        { transactionId: 'tx-1', status: TRANSACTION_STATUS.APPROVED, amountIncVat: 100000, currency: 'EUR' },
+      ] as NonNullable<MediumBriqpayResponse['data']>['transactions']
+      jest.spyOn(Briqpay, 'getSession').mockResolvedValue(briqpaySession)
+      const captureSpy = jest.spyOn(Briqpay, 'capture').mockResolvedValue({
+        captureId: 'capture-4',
+        status: PaymentOutcome.APPROVED,
+      })
+
+      await expect(capture({ amount: { centAmount: 30001, currencyCode: 'EUR' } })).rejects.toThrow(
+        'Capture amount 30001 must be greater than 0 and at most the remaining authorized amount 30000',
+      )
+      expect(captureSpy).not.toHaveBeenCalled()
+
+      const result = await capture({ amount: { centAmount: 30000, currencyCode: 'EUR' } })
+      expect(result.outcome).toBe('approved')
+      expect(paymentSDK.ctPaymentService.updatePayment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          transaction: expect.objectContaining({ type: 'Charge', interactionId: 'capture-4' }),
+        }),
+      )
+    })
+
+    test('rejects a line-item capture whose amount does not match the selected lines', async () => {
+      const captureSpy = jest.spyOn(Briqpay, 'capture')
+
+      await expect(
+        capture({
+          amount: { centAmount: 100000, currencyCode: 'EUR' },
+          lineItems: [{ id: 'lineitem-id-1', quantity: 1 }],
+        }),
+      ).rejects.toThrow('Capture amount 100000 does not match the selected line items total 119000')
+      expect(captureSpy).not.toHaveBeenCalled()
+    })
+
+    test('rejects unknown line items and quantities above the ordered quantity', async () => {
+      await expect(
+        capture({ amount: { centAmount: 1000, currencyCode: 'EUR' }, lineItems: [{ id: 'unknown', quantity: 1 }] }),
+      ).rejects.toThrow('Line item unknown not found in cart')
+      await expect(
+        capture({
+          amount: { centAmount: 1000, currencyCode: 'EUR' },
+          lineItems: [{ id: 'lineitem-id-1', quantity: 2 }],
+        }),
+      ).rejects.toThrow('Cannot capture 2 of line item lineitem-id-1: only 1 ordered')
+    })
+  })
+
+  describe('partial refunds', () => {
+    const money = (centAmount: number) => ({
+      type: 'centPrecision' as const,
+      centAmount,
+      currencyCode: 'EUR',
+      fractionDigits: 2,
+    })
+
+    const capturedPayment = (...transactions: Payment['transactions']) => ({
+      ...mockGetPaymentResult,
+      transactions: [
+        {
+          id: 'auth-transaction-id',
+          type: 'Authorization',
+          interactionId: 'test-session-id',
+          state: 'Success',
+          amount: money(119000),
+        },
+        ...transactions,
+      ],
+    })
+
+    const charge = (captureId: string, centAmount: number) => ({
+      id: `charge-${captureId}`,
+      type: 'Charge',
+      interactionId: captureId,
+      state: 'Success',
+      amount: money(centAmount),
+    })
+
+    const refund = (action: Record<string, unknown>) =>
+      paymentService.modifyPayment({
+        paymentId: 'dummy-paymentId',
+        data: { actions: [{ action: 'refundPayment', ...action }] },
+      } as ModifyPayment)
+
+    beforeEach(() => {
+      jest.spyOn(paymentSDK.ctPaymentService, 'updatePayment').mockResolvedValue(mockUpdatePaymentResult)
+      jest.spyOn(paymentSDK.ctCartService, 'getCartByPaymentId').mockResolvedValue(mockGetCartResult())
+    })
+
+    test('refunds part of a capture and records one Refund transaction per Briqpay refund', async () => {
+      jest
+        .spyOn(paymentSDK.ctPaymentService, 'getPayment')
+        .mockResolvedValue(capturedPayment(charge('capture-1', 119000)))
+      const refundSpy = jest.spyOn(Briqpay, 'refund').mockResolvedValue({
+        refundId: 'refund-1',
+        status: PaymentOutcome.APPROVED,
+      })
+      const getSessionSpy = jest.spyOn(Briqpay, 'getSession')
+
+      const result = await refund({ amount: { centAmount: 20000, currencyCode: 'EUR' } })
+
+      expect(result.outcome).toBe('approved')
+      expect(getSessionSpy).not.toHaveBeenCalled()
+      expect(refundSpy).toHaveBeenCalledWith(
+        expect.anything(),
+        { centAmount: 20000, currencyCode: 'EUR' },
+        'test-session-id',
+        'capture-1',
+        { idempotencyKey: expect.stringMatching(new RegExp(`^ct-${mockGetPaymentResult.id}-refund-`)) },
+      )
+      expect(paymentSDK.ctPaymentService.updatePayment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          transaction: expect.objectContaining({
+            type: 'Refund',
+            amount: { centAmount: 20000, currencyCode: 'EUR' },
+            interactionId: 'refund-1',
+          }),
+        }),
+      )
+    })
+
+    test('counts earlier successful and pending refunds against the refundable balance', async () => {
+      jest
+        .spyOn(paymentSDK.ctPaymentService, 'getPayment')
+        .mockResolvedValue(
+          capturedPayment(
+            charge('capture-1', 119000),
+            { id: 'refund-a', type: 'Refund', interactionId: 'refund-a', state: 'Success', amount: money(60000) },
+            { id: 'refund-b', type: 'Refund', interactionId: 'refund-b', state: 'Pending', amount: money(40000) },
+            { id: 'refund-c', type: 'Refund', interactionId: 'refund-c', state: 'Failure', amount: money(19000) },
+          ),
+        )
+      const refundSpy = jest.spyOn(Briqpay, 'refund')
+
+      await expect(refund({ amount: { centAmount: 19001, currencyCode: 'EUR' } })).rejects.toThrow(
+        'Refund amount 19001 must be greater than 0 and at most the refundable balance 19000',
+      )
+      expect(refundSpy).not.toHaveBeenCalled()
+    })
+
+    test('targets the capture that still has enough refundable balance', async () => {
+      jest
+        .spyOn(paymentSDK.ctPaymentService, 'getPayment')
+        .mockResolvedValue(capturedPayment(charge('capture-1', 50000), charge('capture-2', 69000)))
+      const briqpaySession = createMockBriqpaySession({ sessionId: 'test-session-id' })
+      briqpaySession.data!.refunds = [
+        {
+          refundId: 'refund-a',
+          parentCaptureId: 'capture-1',
+          status: TRANSACTION_STATUS.APPROVED,
+          amountIncVat: 40000,
+          currency: 'EUR',
+        },
+      ] as NonNullable<MediumBriqpayResponse['data']>['refunds']
+      jest.spyOn(Briqpay, 'getSession').mockResolvedValue(briqpaySession)
+      const refundSpy = jest.spyOn(Briqpay, 'refund').mockResolvedValue({
+        refundId: 'refund-b',
+        status: PaymentOutcome.APPROVED,
+      })
+
+      await refund({ amount: { centAmount: 30000, currencyCode: 'EUR' } })
+
+      expect(refundSpy).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        'test-session-id',
+        'capture-2',
+        expect.anything(),
+      )
+    })
+
+    test('rejects a refund that does not fit within any single capture', async () => {
+      jest
+        .spyOn(paymentSDK.ctPaymentService, 'getPayment')
+        .mockResolvedValue(capturedPayment(charge('capture-1', 50000), charge('capture-2', 69000)))
+      jest.spyOn(Briqpay, 'getSession').mockResolvedValue(createMockBriqpaySession({ sessionId: 'test-session-id' }))
+
+      await expect(refund({ amount: { centAmount: 100000, currencyCode: 'EUR' } })).rejects.toThrow(
+        'Refund amount 100000 exceeds the refundable balance of every individual capture',
+      )
+    })
+
+    describe('from order return items', () => {
+      const orderWithReturns = (paymentState: string = 'Initial') => {
+        const cart = mockGetCartResult()
+        const [lineItem] = cart.lineItems
+        return {
+          ...cart,
+          id: 'order-id-1',
+          version: 3,
+          orderState: 'Open',
+          lineItems: [{ ...lineItem, quantity: 4, totalPrice: { ...lineItem.totalPrice, centAmount: 100000 } }],
+          returnInfo: [
+            {
+              items: [
+                {
+                  id: 'return-item-1',
+                  type: 'LineItemReturnItem',
+                  lineItemId: lineItem.id,
+                  quantity: 1,
+                  shipmentState: 'Returned',
+                  paymentState,
+                },
+              ],
+            },
+          ],
+        }
+      }
+
+      let orderUpdateSpy: jest.Mock<any>
+
+      const mockOrder = (order: ReturnType<typeof orderWithReturns> | undefined) => {
+        orderUpdateSpy = jest.fn<any>().mockReturnValue({ execute: jest.fn<any>().mockResolvedValue({ body: {} }) })
+        ;(apiRoot.orders as jest.Mock<any>).mockReturnValue({
+          get: jest.fn<any>().mockReturnValue({
+            execute: jest.fn<any>().mockResolvedValue({ body: { results: order ? [order] : [] } }),
+          }),
+          withId: jest.fn<any>().mockReturnValue({ post: orderUpdateSpy }),
+        })
+      }
+
+      beforeEach(() => {
+        jest
+          .spyOn(paymentSDK.ctPaymentService, 'getPayment')
+          .mockResolvedValue(capturedPayment(charge('capture-1', 119000)))
+      })
+
+      test('sends only the returned lines and marks the return items as refunded', async () => {
+        const order = orderWithReturns()
+        mockOrder(order)
+        const refundSpy = jest.spyOn(Briqpay, 'refund').mockResolvedValue({
+          refundId: 'refund-1',
+          status: PaymentOutcome.APPROVED,
+        })
+
+        await refund({ amount: { centAmount: 25000, currencyCode: 'EUR' }, returnItemIds: ['return-item-1'] })
+
+        expect(refundSpy).toHaveBeenCalledWith(
+          order,
+          { centAmount: 25000, currencyCode: 'EUR' },
+          'test-session-id',
+          'capture-1',
+          expect.objectContaining({ lineItems: [{ id: 'lineitem-id-1', quantity: 1 }] }),
+        )
+        expect(orderUpdateSpy).toHaveBeenCalledWith({
+          body: {
+            version: 3,
+            actions: [{ action: 'setReturnPaymentState', returnItemId: 'return-item-1', paymentState: 'Refunded' }],
+          },
+        })
+      })
+
+      test('rejects an amount that does not match the returned lines', async () => {
+        mockOrder(orderWithReturns())
+        const refundSpy = jest.spyOn(Briqpay, 'refund')
+
+        await expect(
+          refund({ amount: { centAmount: 30000, currencyCode: 'EUR' }, returnItemIds: ['return-item-1'] }),
+        ).rejects.toThrow('Refund amount 30000 does not match the returned items total 25000')
+        expect(refundSpy).not.toHaveBeenCalled()
+      })
+
+      test('rejects unknown and already refunded return items', async () => {
+        mockOrder(orderWithReturns())
+        await expect(
+          refund({ amount: { centAmount: 25000, currencyCode: 'EUR' }, returnItemIds: ['unknown'] }),
+        ).rejects.toThrow('Return item unknown not found on order order-id-1')
+
+        mockOrder(orderWithReturns('Refunded'))
+        await expect(
+          refund({ amount: { centAmount: 25000, currencyCode: 'EUR' }, returnItemIds: ['return-item-1'] }),
+        ).rejects.toThrow('Return item return-item-1 has already been refunded')
+      })
+    })
+  })
+
+  test('capturePayment replay returns the recorded outcome without calling Briqpay again', async () => {
+    const modifyPaymentOpts: ModifyPayment = {
+      paymentId: 'dummy-paymentId',
+      data: {
+        actions: [
+          {
+            action: 'capturePayment',
+            amount: {
+              centAmount: 119000,
+              currencyCode: 'EUR',
+            },
+            merchantReference: 'shipment-1',
+          },
+        ],
+      },
+    }
+
+    const amount = { type: 'centPrecision' as const, centAmount: 119000, currencyCode: 'EUR', fractionDigits: 2 }
+    const mockPayment = {
+      ...mockGetPaymentResult,
+      transactions: [
+        {
+          id: 'auth-transaction-id',
+          type: 'Authorization',
+          interactionId: 'test-session-id',
+          state: 'Success',
+          amount,
+        },
+        {
+          id: 'charge-transaction-id',
+          type: 'Charge',
+          interactionId: '123',
+          interfaceId: buildIdempotencyKey(
+            mockGetPaymentResult.id,
+            'capture',
+            { centAmount: 119000, currencyCode: 'EUR' },
+            { merchantReference: 'shipment-1' },
+          ),
+          state: 'Success',
+          amount,
+        },
+      ],
+    }
+
+    jest.spyOn(paymentSDK.ctPaymentService, 'getPayment').mockResolvedValue(mockPayment)
+    const updatePaymentSpy = jest.spyOn(paymentSDK.ctPaymentService, 'updatePayment')
+    const captureSpy = jest.spyOn(Briqpay, 'capture')
 
     const result = await paymentService.modifyPayment(modifyPaymentOpts)
+
     expect(result?.outcome).toStrictEqual('approved')
+    expect(captureSpy).not.toHaveBeenCalled()
+    expect(updatePaymentSpy).not.toHaveBeenCalled()
   })
 
   test('capturePayment - pending', async () => {
@@ -2817,6 +3612,158 @@ describe('briqpay-payment.service', () => {
       const result = await paymentService.modifyPayment(modifyPaymentOpts)
       expect(result?.outcome).toStrictEqual('approved')
     })
+    test('refunds the captured amount and cancels the open remainder after a partial capture', async () => {
+      const money = (centAmount: number) => ({
+        type: 'centPrecision' as const,
+        centAmount,
+        currencyCode: 'EUR',
+        fractionDigits: 2,
+      })
+      jest.spyOn(paymentSDK.ctPaymentService, 'getPayment').mockResolvedValue({
+        ...mockGetPaymentResult,
+        amountPlanned: money(119000),
+        transactions: [
+          {
+            id: 'auth-1',
+            type: 'Authorization',
+            interactionId: 'test-session-id',
+            state: 'Success',
+            amount: money(119000),
+          },
+          { id: 'charge-1', type: 'Charge', interactionId: 'capture-1', state: 'Success', amount: money(40000) },
+          { id: 'refund-1', type: 'Refund', interactionId: 'refund-1', state: 'Success', amount: money(10000) },
+        ],
+      })
+      const updatePaymentSpy = jest
+        .spyOn(paymentSDK.ctPaymentService, 'updatePayment')
+        .mockResolvedValue(mockUpdatePaymentResult)
+      jest.spyOn(paymentSDK.ctCartService, 'getCartByPaymentId').mockResolvedValue(mockGetCartResult())
+      const briqpaySession = createMockBriqpaySession({ sessionId: 'test-session-id' })
+      briqpaySession.data!.transactions = [
+        { transactionId: 'tx-1', status: TRANSACTION_STATUS.APPROVED, amountIncVat: 119000, currency: 'EUR' },
+      ] as NonNullable<MediumBriqpayResponse['data']>['transactions']
+      jest.spyOn(Briqpay, 'getSession').mockResolvedValue(briqpaySession)
+      const refundSpy = jest
+        .spyOn(Briqpay, 'refund')
+        .mockResolvedValue({ refundId: 'refund-2', status: PaymentOutcome.APPROVED })
+      const cancelSpy = jest.spyOn(Briqpay, 'cancel').mockResolvedValue({ status: PaymentOutcome.APPROVED })
+
+      const result = await paymentService.modifyPayment({
+        paymentId: 'dummy-paymentId',
+        data: { actions: [{ action: 'reversePayment' }] },
+      })
+
+      expect(result.outcome).toBe('approved')
+      expect(refundSpy).toHaveBeenCalledWith(
+        expect.anything(),
+        { centAmount: 30000, currencyCode: 'EUR' },
+        'test-session-id',
+        'capture-1',
+        expect.anything(),
+      )
+      expect(cancelSpy).toHaveBeenCalledWith('test-session-id', expect.any(String))
+      expect(updatePaymentSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          transaction: expect.objectContaining({
+            type: 'CancelAuthorization',
+            amount: { centAmount: 79000, currencyCode: 'EUR' },
+          }),
+        }),
+      )
+    })
+    test('does not cancel when the Briqpay authorization was captured in full but amountPlanned is higher', async () => {
+      const money = (centAmount: number) => ({
+        type: 'centPrecision' as const,
+        centAmount,
+        currencyCode: 'EUR',
+        fractionDigits: 2,
+      })
+      jest.spyOn(paymentSDK.ctPaymentService, 'getPayment').mockResolvedValue({
+        ...mockGetPaymentResult,
+        amountPlanned: money(119000),
+        transactions: [
+          {
+            id: 'auth-1',
+            type: 'Authorization',
+            interactionId: 'test-session-id',
+            state: 'Success',
+            amount: money(119000),
+          },
+          { id: 'charge-1', type: 'Charge', interactionId: 'capture-1', state: 'Success', amount: money(100000) },
+        ],
+      })
+      jest.spyOn(paymentSDK.ctPaymentService, 'updatePayment').mockResolvedValue(mockUpdatePaymentResult)
+      jest.spyOn(paymentSDK.ctCartService, 'getCartByPaymentId').mockResolvedValue(mockGetCartResult())
+      const briqpaySession = createMockBriqpaySession({ sessionId: 'test-session-id' })
+      briqpaySession.data!.transactions = [
+        { transactionId: 'tx-1', status: TRANSACTION_STATUS.APPROVED, amountIncVat: 100000, currency: 'EUR' },
+      ] as NonNullable<MediumBriqpayResponse['data']>['transactions']
+      jest.spyOn(Briqpay, 'getSession').mockResolvedValue(briqpaySession)
+      const refundSpy = jest
+        .spyOn(Briqpay, 'refund')
+        .mockResolvedValue({ refundId: 'refund-1', status: PaymentOutcome.APPROVED })
+      const cancelSpy = jest.spyOn(Briqpay, 'cancel').mockResolvedValue({ status: PaymentOutcome.APPROVED })
+
+      const result = await paymentService.modifyPayment({
+        paymentId: 'dummy-paymentId',
+        data: { actions: [{ action: 'reversePayment' }] },
+      })
+
+      expect(result.outcome).toBe('approved')
+      expect(refundSpy).toHaveBeenCalledWith(
+        expect.anything(),
+        { centAmount: 100000, currencyCode: 'EUR' },
+        'test-session-id',
+        'capture-1',
+        expect.anything(),
+      )
+      expect(cancelSpy).not.toHaveBeenCalled()
+    })
+    test('refunds each capture it found even when the Briqpay refund history lags behind', async () => {
+      const money = (centAmount: number) => ({
+        type: 'centPrecision' as const,
+        centAmount,
+        currencyCode: 'EUR',
+        fractionDigits: 2,
+      })
+      jest.spyOn(paymentSDK.ctPaymentService, 'getPayment').mockResolvedValue({
+        ...mockGetPaymentResult,
+        amountPlanned: money(100000),
+        transactions: [
+          {
+            id: 'auth-1',
+            type: 'Authorization',
+            interactionId: 'test-session-id',
+            state: 'Success',
+            amount: money(100000),
+          },
+          { id: 'charge-1', type: 'Charge', interactionId: 'capture-1', state: 'Success', amount: money(50000) },
+          { id: 'charge-2', type: 'Charge', interactionId: 'capture-2', state: 'Success', amount: money(50000) },
+        ],
+      })
+      jest.spyOn(paymentSDK.ctPaymentService, 'updatePayment').mockResolvedValue(mockUpdatePaymentResult)
+      jest.spyOn(paymentSDK.ctCartService, 'getCartByPaymentId').mockResolvedValue(mockGetCartResult())
+      // The session never shows the refunds made during the reverse
+      const briqpaySession = createMockBriqpaySession({ sessionId: 'test-session-id' })
+      briqpaySession.data!.transactions = [
+        { transactionId: 'tx-1', status: TRANSACTION_STATUS.APPROVED, amountIncVat: 100000, currency: 'EUR' },
+      ] as NonNullable<MediumBriqpayResponse['data']>['transactions']
+      jest.spyOn(Briqpay, 'getSession').mockResolvedValue(briqpaySession)
+      const refundSpy = jest
+        .spyOn(Briqpay, 'refund')
+        .mockResolvedValueOnce({ refundId: 'refund-1', status: PaymentOutcome.APPROVED })
+        .mockResolvedValueOnce({ refundId: 'refund-2', status: PaymentOutcome.APPROVED })
+
+      await paymentService.modifyPayment({
+        paymentId: 'dummy-paymentId',
+        data: { actions: [{ action: 'reversePayment' }] },
+      })
+
+      expect(refundSpy).toHaveBeenCalledTimes(2)
+      expect(refundSpy.mock.calls.map(([, , , captureId]) => captureId)).toEqual(['capture-1', 'capture-2'])
+      const [firstKey, secondKey] = refundSpy.mock.calls.map(([, , , , options]) => options?.idempotencyKey)
+      expect(firstKey).not.toBe(secondKey)
+    })
   })
 
   test('calls handleOrderPending on ORDER_PENDING event', async () => {
@@ -3127,6 +4074,133 @@ describe('briqpay-payment.service', () => {
     expect(updateSpy).toHaveBeenCalledTimes(1)
   })
 
+  test('stores the authorization expiry from the approved webhook on the payment', async () => {
+    const updateSpy = jest.spyOn(paymentSDK.ctPaymentService, 'updatePayment').mockResolvedValue({} as any)
+    jest.spyOn(paymentSDK.ctPaymentService, 'findPaymentsByInterfaceId').mockResolvedValue([
+      {
+        ...mockGetPaymentResult,
+        id: 'payment-id-1',
+        transactions: [],
+        custom: undefined,
+      },
+    ])
+
+    const data: NotificationRequestSchemaDTO = {
+      sessionId: 'abc123',
+      event: BRIQPAY_WEBHOOK_EVENT.ORDER_STATUS,
+      status: BRIQPAY_WEBHOOK_STATUS.ORDER_APPROVED_NOT_CAPTURED,
+      transaction: {
+        transactionId: 'tx-1',
+        status: TRANSACTION_STATUS.APPROVED,
+        amountIncVat: 119000,
+        currency: 'EUR',
+        expiresAt: '2026-11-18T10:00:00.000Z',
+      },
+    }
+    const { rawBody, signatureHeader } = createSignedWebhookRequest(data)
+    await briqpayPaymentService.processNotification({ data, rawBody, signatureHeader })
+
+    expect(updateSpy).toHaveBeenCalledWith({
+      id: 'payment-id-1',
+      customFields: {
+        type: { key: 'briqpay-payment', typeId: 'type' },
+        fields: { 'briqpay-authorization-expires-at': '2026-11-18T10:00:00.000Z' },
+      },
+    })
+  })
+
+  test('sets only the expiry field when the payment already has a custom type', async () => {
+    const updateSpy = jest.spyOn(paymentSDK.ctPaymentService, 'updatePayment').mockResolvedValue({} as any)
+    jest.spyOn(paymentSDK.ctPaymentService, 'findPaymentsByInterfaceId').mockResolvedValue([
+      {
+        ...mockGetPaymentResult,
+        id: 'payment-id-1',
+        transactions: [
+          {
+            id: 'transaction-id-1',
+            type: 'Authorization',
+            interactionId: 'abc123',
+            state: 'Success',
+            amount: { centAmount: 119000, currencyCode: 'EUR', type: 'centPrecision', fractionDigits: 2 },
+          },
+        ],
+        custom: { type: { typeId: 'type', id: 'merchant-type' }, fields: { merchantField: 'keep' } },
+      },
+    ])
+    const post = jest.fn().mockReturnValue({ execute: jest.fn().mockResolvedValue({ body: { version: 8 } } as never) })
+    const get = jest.fn().mockReturnValue({ execute: jest.fn().mockResolvedValue({ body: { version: 7 } } as never) })
+    ;(apiRoot.payments as jest.Mock<any>).mockReturnValue({ withId: jest.fn().mockReturnValue({ get, post }) })
+
+    const data: NotificationRequestSchemaDTO = {
+      sessionId: 'abc123',
+      event: BRIQPAY_WEBHOOK_EVENT.ORDER_STATUS,
+      status: BRIQPAY_WEBHOOK_STATUS.ORDER_APPROVED_NOT_CAPTURED,
+      transaction: {
+        transactionId: 'tx-1',
+        status: TRANSACTION_STATUS.APPROVED,
+        amountIncVat: 119000,
+        currency: 'EUR',
+        expiresAt: '2026-11-18T10:00:00.000Z',
+      },
+    }
+    const { rawBody, signatureHeader } = createSignedWebhookRequest(data)
+    await briqpayPaymentService.processNotification({ data, rawBody, signatureHeader })
+
+    expect(post).toHaveBeenCalledWith({
+      body: {
+        version: 7,
+        actions: [
+          { action: 'setCustomField', name: 'briqpay-authorization-expires-at', value: '2026-11-18T10:00:00.000Z' },
+        ],
+      },
+    })
+    expect(updateSpy).not.toHaveBeenCalledWith(expect.objectContaining({ customFields: expect.anything() }))
+  })
+
+  test('stores the authorization expiry even when the approval itself is ignored', async () => {
+    const updateSpy = jest.spyOn(paymentSDK.ctPaymentService, 'updatePayment').mockResolvedValue({} as any)
+    jest.spyOn(paymentSDK.ctPaymentService, 'findPaymentsByInterfaceId').mockResolvedValue([
+      {
+        ...mockGetPaymentResult,
+        id: 'payment-id-1',
+        transactions: [
+          {
+            id: 'transaction-id-1',
+            type: 'Authorization',
+            interactionId: 'abc123',
+            state: 'Failure',
+            amount: { centAmount: 119000, currencyCode: 'EUR', type: 'centPrecision', fractionDigits: 2 },
+          },
+        ],
+        custom: undefined,
+      },
+    ])
+
+    const data: NotificationRequestSchemaDTO = {
+      sessionId: 'abc123',
+      event: BRIQPAY_WEBHOOK_EVENT.ORDER_STATUS,
+      status: BRIQPAY_WEBHOOK_STATUS.ORDER_APPROVED_NOT_CAPTURED,
+      transaction: {
+        transactionId: 'tx-1',
+        status: TRANSACTION_STATUS.APPROVED,
+        amountIncVat: 119000,
+        currency: 'EUR',
+        expiresAt: '2026-11-18T10:00:00.000Z',
+      },
+    }
+    const { rawBody, signatureHeader } = createSignedWebhookRequest(data)
+    await briqpayPaymentService.processNotification({ data, rawBody, signatureHeader })
+
+    expect(updateSpy).not.toHaveBeenCalledWith(expect.objectContaining({ transaction: expect.anything() }))
+    expect(updateSpy).toHaveBeenCalledWith({
+      id: 'payment-id-1',
+      customFields: {
+        type: { key: 'briqpay-payment', typeId: 'type' },
+        fields: { 'briqpay-authorization-expires-at': '2026-11-18T10:00:00.000Z' },
+      },
+    })
+  })
+
   test('calls handleOrderApproved on ORDER_APPROVED_NOT_CAPTURED event with an authorization already pending', async () => {
     const updateSpy = jest.spyOn(paymentSDK.ctPaymentService, 'updatePayment').mockResolvedValueOnce({} as any)
 
@@ -4201,6 +5275,52 @@ describe('briqpay-payment.service', () => {
     expect(updateSpy).toHaveBeenCalledTimes(1)
   })
 
+  test('matches a partial refund webhook to its CT Refund transaction by refund ID', async () => {
+    const updateSpy = jest.spyOn(paymentSDK.ctPaymentService, 'updatePayment').mockResolvedValueOnce({} as any)
+
+    const amount = (centAmount: number) => ({
+      type: 'centPrecision' as const,
+      centAmount,
+      currencyCode: 'EUR',
+      fractionDigits: 2,
+    })
+    jest.spyOn(paymentSDK.ctPaymentService, 'findPaymentsByInterfaceId').mockResolvedValueOnce([
+      {
+        ...mockGetPaymentResult,
+        id: 'payment-id-1',
+        transactions: [
+          { id: 'tx-1', type: 'Refund', interactionId: 'refund-1', state: 'Success', amount: amount(30000) },
+          { id: 'tx-2', type: 'Refund', interactionId: 'refund-2', state: 'Pending', amount: amount(20000) },
+        ],
+      },
+    ])
+
+    const data: NotificationRequestSchemaDTO = {
+      sessionId: 'abc123',
+      event: BRIQPAY_WEBHOOK_EVENT.REFUND_STATUS,
+      status: BRIQPAY_WEBHOOK_STATUS.APPROVED,
+      refundId: 'refund-2',
+      // No amount on the webhook; the CT Refund recorded for the same ID is the next best source
+      transaction: {
+        transactionId: 'tx-2',
+        status: TRANSACTION_STATUS.APPROVED,
+        currency: 'EUR',
+      },
+    }
+    const { rawBody, signatureHeader } = createSignedWebhookRequest(data)
+    await briqpayPaymentService.processNotification({ data, rawBody, signatureHeader })
+
+    expect(updateSpy).toHaveBeenCalledWith({
+      id: 'payment-id-1',
+      transaction: expect.objectContaining({
+        type: 'Refund',
+        interactionId: 'refund-2',
+        state: 'Success',
+        amount: { centAmount: 20000, currencyCode: 'EUR' },
+      }),
+    })
+  })
+
   test('calls refundPayment() with no transaction', async () => {
     await expect(
       briqpayPaymentService.refundPayment({
@@ -4229,6 +5349,10 @@ describe('briqpay-payment.service', () => {
   test('calls refundPayment() with refund already done', async () => {
     await expect(
       briqpayPaymentService.refundPayment({
+        amount: {
+          centAmount: 123123,
+          currencyCode: 'EUR',
+        },
         payment: {
           transactions: [
             {
@@ -4239,28 +5363,27 @@ describe('briqpay-payment.service', () => {
               type: 'Charge',
               state: 'Success',
               interactionId: 'bcd123',
+              amount: { centAmount: 123123, currencyCode: 'EUR' },
             },
             {
               type: 'Refund',
+              state: 'Success',
               interactionId: 'cde123',
+              amount: { centAmount: 123123, currencyCode: 'EUR' },
             },
           ],
         },
       } as any),
-    ).rejects.toThrow('Already refunded')
+    ).rejects.toThrow('Refund amount 123123 must be greater than 0 and at most the refundable balance 0')
   })
 
   test('calls refundPayment() with incorrect amounts', async () => {
-    jest.spyOn(paymentSDK.ctCartService, 'getCartByPaymentId').mockResolvedValueOnce({
-      taxedPrice: {
-        totalGross: {
-          centAmount: 452243,
-        },
-      },
-    } as any)
-
     await expect(
       briqpayPaymentService.refundPayment({
+        amount: {
+          centAmount: 452243,
+          currencyCode: 'EUR',
+        },
         payment: {
           transactions: [
             {
@@ -4271,6 +5394,7 @@ describe('briqpay-payment.service', () => {
               type: 'Charge',
               state: 'Success',
               interactionId: 'bcd123',
+              amount: { centAmount: 123123, currencyCode: 'EUR' },
             },
           ],
           amountPlanned: {
@@ -4278,7 +5402,7 @@ describe('briqpay-payment.service', () => {
           },
         },
       } as any),
-    ).rejects.toThrow('Commerce Tools does not support partial refunds towards all payment providers')
+    ).rejects.toThrow('Refund amount 452243 must be greater than 0 and at most the refundable balance 123123')
   })
 
   test('calls refundPayment() with pending authorization', async () => {
@@ -4307,6 +5431,7 @@ describe('briqpay-payment.service', () => {
             type: 'Charge',
             state: 'Success',
             interactionId: 'bcd123',
+            amount: { centAmount: 123123, currencyCode: 'EUR' },
           },
         ],
         amountPlanned: {
@@ -4511,6 +5636,87 @@ describe('briqpay-payment.service', () => {
     })
   })
 
+  describe('status checks', () => {
+    // Runs the checks handed to the status handler instead of the handler itself
+    const runChecks = async () => {
+      let checks: StatusHandler.HealthCheck[] = []
+      jest.spyOn(StatusHandler, 'statusHandler').mockImplementation((opts) => {
+        checks = opts.checks
+        return () => Promise.resolve({ status: 200, body: {} as never })
+      })
+      await paymentService.status()
+      return Promise.all(checks.map((check) => check()))
+    }
+
+    beforeEach(() => {
+      jest.spyOn(Briqpay, 'healthCheck').mockResolvedValue({ status: 404 } as Response)
+      jest.mocked(findMissingBriqpayFieldDefinitions).mockResolvedValue({
+        typeKey: 'briqpay-session-id',
+        typeExists: true,
+        missingFields: [],
+      })
+    })
+
+    test('checks every required scope, the Briqpay API, the webhook secret and the custom type', async () => {
+      const permissionsSpy = jest.spyOn(StatusHandler, 'healthCheckCommercetoolsPermissions')
+
+      const results = await runChecks()
+
+      expect(permissionsSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          requiredPermissions: expect.arrayContaining([
+            'manage_checkout_payment_intents',
+            'manage_key_value_documents',
+            'view_order_edits',
+          ]),
+        }),
+      )
+      expect((permissionsSpy.mock.calls[0][0] as { requiredPermissions: string[] }).requiredPermissions).toHaveLength(
+        22,
+      )
+      expect(results.slice(1).map(({ name, status }) => ({ name, status }))).toEqual([
+        { name: 'Briqpay Payment API', status: 'UP' },
+        { name: 'Briqpay Webhook Secret', status: 'UP' },
+        { name: 'Briqpay Custom Type', status: 'UP' },
+      ])
+    })
+
+    test('reports DOWN when the webhook secret is missing', async () => {
+      const originalSecret = process.env.BRIQPAY_WEBHOOK_SECRET
+      process.env.BRIQPAY_WEBHOOK_SECRET = ''
+
+      try {
+        const results = await runChecks()
+        expect(results.find(({ name }) => name === 'Briqpay Webhook Secret')?.status).toBe('DOWN')
+      } finally {
+        process.env.BRIQPAY_WEBHOOK_SECRET = originalSecret
+      }
+    })
+
+    test('reports DOWN with the missing fields when the custom type is incomplete', async () => {
+      jest.mocked(findMissingBriqpayFieldDefinitions).mockResolvedValue({
+        typeKey: 'briqpay-session-id',
+        typeExists: true,
+        missingFields: ['briqpay-module-ui-status'],
+      })
+
+      const results = await runChecks()
+
+      expect(results.find(({ name }) => name === 'Briqpay Custom Type')).toMatchObject({
+        status: 'DOWN',
+        details: { typeKey: 'briqpay-session-id', missingFields: ['briqpay-module-ui-status'] },
+      })
+    })
+
+    test('reports DOWN when Briqpay rejects the credentials', async () => {
+      jest.spyOn(Briqpay, 'healthCheck').mockRejectedValue(new Error('Briqpay rejected the configured credentials'))
+
+      const results = await runChecks()
+
+      expect(results.find(({ name }) => name === 'Briqpay Payment API')?.status).toBe('DOWN')
+    })
+  })
+
   describe('notification webhook validation', () => {
     test('should throw error when BRIQPAY_WEBHOOK_SECRET is missing', async () => {
       process.env.BRIQPAY_WEBHOOK_SECRET = ''
@@ -4958,5 +6164,25 @@ describe('briqpay-payment.service', () => {
         'Webhook processing failed: Missing transaction data in payload',
       )
     })
+
+    test('records a session event on the cart without requiring transaction data', async () => {
+      process.env.BRIQPAY_WEBHOOK_SECRET = 'test-secret'
+      const recordSpy = jest
+        .spyOn(BriqpaySessionStatusService.prototype, 'recordSessionEvent')
+        .mockResolvedValue(undefined)
+      const findSpy = jest.spyOn(paymentSDK.ctPaymentService, 'findPaymentsByInterfaceId')
+
+      const data: NotificationRequestSchemaDTO = {
+        sessionId: 'abc123',
+        event: BRIQPAY_WEBHOOK_EVENT.MODULE_UI_STATUS,
+        status: BRIQPAY_MODULE_UI_WEBHOOK_STATUS.VISIBLE,
+        module: BRIQPAY_WEBHOOK_MODULE.PAYMENT,
+      }
+      const { rawBody, signatureHeader } = createSignedWebhookRequest(data)
+      await briqpayPaymentService.processNotification({ data, rawBody, signatureHeader })
+
+      expect(recordSpy).toHaveBeenCalledWith(data)
+      expect(findSpy).not.toHaveBeenCalled()
+    })
   })
 })
@@ -63,6 +63,101 @@ describe('env-validation', () => {
     })
   })
 
+  describe('authorization expiry job', () => {
+    it('should pass validation with a known policy and a positive window', () => {
+      process.env.BRIQPAY_AUTHORIZATION_EXPIRY_POLICY = 'capture'
+      process.env.BRIQPAY_AUTHORIZATION_EXPIRY_WINDOW_HOURS = '24'
+      expect(() => validateEnvironment()).not.toThrow()
+    })
+
+    it('should fail validation when BRIQPAY_AUTHORIZATION_EXPIRY_POLICY is unknown', () => {
+      process.env.BRIQPAY_AUTHORIZATION_EXPIRY_POLICY = 'void'
+      expect(() => validateEnvironment()).toThrow(EnvValidationError)
+    })
+
+    it('should fail validation when BRIQPAY_AUTHORIZATION_EXPIRY_WINDOW_HOURS is not a positive integer', () => {
+      process.env.BRIQPAY_AUTHORIZATION_EXPIRY_WINDOW_HOURS = '0'
+      expect(() => validateEnvironment()).toThrow(EnvValidationError)
+    })
+  })
+
+  describe('webhook secret rotation', () => {
+    it('should pass validation with current and previous secrets', () => {
+      process.env.BRIQPAY_WEBHOOK_SECRET = 'new-secret,old-secret|2026-11-01T00:00:00Z'
+      expect(() => validateEnvironment()).not.toThrow()
+    })
+
+    it('should fail validation when a secret expiry is not a date', () => {
+      process.env.BRIQPAY_WEBHOOK_SECRET = 'new-secret,old-secret|next-week'
+      expect(() => validateEnvironment()).toThrow(EnvValidationError)
+    })
+  })
+
+  describe('webhook inbox', () => {
+    it('should pass validation with a positive attempt count and a zero delay', () => {
+      process.env.BRIQPAY_WEBHOOK_MAX_ATTEMPTS = '5'
+      process.env.BRIQPAY_WEBHOOK_RETRY_BASE_DELAY = '0'
+      expect(() => validateEnvironment()).not.toThrow()
+    })
+
+    it('should fail validation when BRIQPAY_WEBHOOK_MAX_ATTEMPTS is not a positive integer', () => {
+      process.env.BRIQPAY_WEBHOOK_MAX_ATTEMPTS = '0'
+      expect(() => validateEnvironment()).toThrow(EnvValidationError)
+    })
+  })
+
+  describe('merchant events', () => {
+    it('should pass validation with a list of HTTPS endpoints', () => {
+      process.env.BRIQPAY_MERCHANT_EVENT_URLS = 'https://erp.example.com/events, https://oms.example.com/events'
+      process.env.BRIQPAY_MERCHANT_EVENT_SECRET = 'merchant-secret'
+      expect(() => validateEnvironment()).not.toThrow()
+    })
+
+    it('should fail validation when a BRIQPAY_MERCHANT_EVENT_URLS endpoint is not HTTPS', () => {
+      process.env.BRIQPAY_MERCHANT_EVENT_URLS = 'https://erp.example.com/events,http://oms.example.com/events'
+      expect(() => validateEnvironment()).toThrow(EnvValidationError)
+    })
+  })
+
+  describe('session hooks', () => {
+    it('should pass validation when the session hooks are enabled', () => {
+      process.env.BRIQPAY_SESSION_STATUS_HOOK = 'true'
+      process.env.BRIQPAY_MODULE_UI_STATUS_HOOK = 'false'
+      expect(() => validateEnvironment()).not.toThrow()
+    })
+
+    it('should fail validation when BRIQPAY_MODULE_UI_STATUS_HOOK is not a boolean', () => {
+      process.env.BRIQPAY_MODULE_UI_STATUS_HOOK = 'yes'
+      expect(() => validateEnvironment()).toThrow(EnvValidationError)
+    })
+  })
+
+  describe('line item images', () => {
+    it('should fail validation when BRIQPAY_LINE_ITEM_IMAGES is not a boolean', () => {
+      process.env.BRIQPAY_LINE_ITEM_IMAGES = 'no'
+      expect(() => validateEnvironment()).toThrow(EnvValidationError)
+    })
+  })
+
+  describe('gift card VAT', () => {
+    it('should fail validation when BRIQPAY_GIFT_CARD_VAT is not a known treatment', () => {
+      process.env.BRIQPAY_GIFT_CARD_VAT = 'reduced'
+      expect(() => validateEnvironment()).toThrow(EnvValidationError)
+    })
+  })
+
+  describe('sales-tax mode', () => {
+    it('should fail validation when BRIQPAY_SALES_TAX_COUNTRIES is not a list of country codes', () => {
+      process.env.BRIQPAY_SALES_TAX_COUNTRIES = 'US,Canada'
+      expect(() => validateEnvironment()).toThrow(EnvValidationError)
+    })
+
+    it('should fail validation when BRIQPAY_SALES_TAX_MODES contains an unknown tax mode', () => {
+      process.env.BRIQPAY_SALES_TAX_MODES = 'External,Disabled'
+      expect(() => validateEnvironment()).toThrow(EnvValidationError)
+    })
+  })
+
   describe('missing required variables', () => {
     it('should throw EnvValidationError when a required var is missing', () => {
       delete process.env.CTP_PROJECT_KEY
@@ -17,6 +17,7 @@ const mockTypes = jest.fn(() => ({
 jest.mock('../../src/payment-sdk', () => ({
   appLogger: {
     info: jest.fn(),
+    warn: jest.fn(),
     error: jest.fn(),
   },
   paymentSDK: {
@@ -30,14 +31,28 @@ jest.mock('../../src/payment-sdk', () => ({
 
 // Mock custom types
 jest.mock('../../src/custom-types/custom-types', () => ({
+  briqpayCustomTypeKey: 'briqpay-session-id',
   briqpayFieldDefinitions: [
     { name: 'briqpay-session-id', label: 'Briqpay Session ID', type: 'String', required: false },
     { name: 'briqpay-psp-meta-data-type', label: 'Briqpay PSP Type', type: 'String', required: false },
   ],
+  briqpayPaymentFieldDefinitions: [
+    {
+      name: 'briqpay-authorization-expires-at',
+      label: 'Briqpay Authorization Expires At',
+      type: 'DateTime',
+      required: false,
+    },
+  ],
 }))
 
 // Import after mocking
-import { createBriqpayCustomType } from '../../src/connectors/actions'
+import {
+  clearBriqpayTypeKeyCache,
+  createBriqpayCustomType,
+  createBriqpayPaymentCustomType,
+  findMissingBriqpayFieldDefinitions,
+} from '../../src/connectors/actions'
 
 describe('actions', () => {
   const mockTypeKey = 'briqpay-session-id'
@@ -314,4 +329,98 @@ describe('actions', () => {
       )
     })
   })
+
+  describe('createBriqpayPaymentCustomType', () => {
+    test('should create a payment type with the authorization expiry field', async () => {
+      mockGet.mockReturnValue({
+        execute: jest.fn().mockResolvedValue({
+          body: { results: [] as Type[], count: 0, total: 0 },
+        } as never),
+      } as any)
+
+      const mockCreate = jest.fn((_opts: { body: unknown }) => ({
+        execute: jest.fn().mockResolvedValue({
+          body: createMockType({ key: 'briqpay-payment', resourceTypeIds: ['payment'] }),
+        } as never),
+      }))
+      mockPost.mockImplementation(mockCreate as any)
+
+      const result = await createBriqpayPaymentCustomType('briqpay-payment')
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        body: expect.objectContaining({
+          key: 'briqpay-payment',
+          resourceTypeIds: ['payment'],
+          fieldDefinitions: [
+            expect.objectContaining({ name: 'briqpay-authorization-expires-at', type: { name: 'DateTime' } }),
+          ],
+        }),
+      })
+      expect(result.resourceTypeIds).toEqual(['payment'])
+    })
+
+    test('should reuse an existing Briqpay payment type that has all fields', async () => {
+      const existingPaymentType = createMockType({
+        key: 'briqpay-payment',
+        resourceTypeIds: ['payment'],
+        fieldDefinitions: [
+          {
+            name: 'briqpay-authorization-expires-at',
+            label: { en: 'Briqpay Authorization Expires At' },
+            type: { name: 'DateTime' },
+            required: false,
+          },
+        ],
+      })
+      mockGet.mockReturnValue({
+        execute: jest.fn().mockResolvedValue({
+          body: { results: [existingPaymentType], count: 1, total: 1 },
+        } as never),
+      } as any)
+
+      const result = await createBriqpayPaymentCustomType('briqpay-payment')
+
+      expect(mockGet).toHaveBeenCalledTimes(1)
+      expect(mockWithId).not.toHaveBeenCalled()
+      expect(result).toBe(existingPaymentType)
+    })
+  })
+
+  describe('findMissingBriqpayFieldDefinitions', () => {
+    beforeEach(() => {
+      clearBriqpayTypeKeyCache()
+    })
+
+    const mockTypeQuery = (results: Type[]) =>
+      mockGet.mockReturnValue({
+        execute: jest
+          .fn()
+          .mockResolvedValue({ body: { results, count: results.length, total: results.length } } as never),
+      } as any)
+
+    test('should report no missing fields when the order type has every Briqpay field', async () => {
+      mockTypeQuery([createMockType()])
+
+      const result = await findMissingBriqpayFieldDefinitions()
+
+      expect(result).toEqual({ typeKey: mockTypeKey, typeExists: true, missingFields: [] })
+    })
+
+    test('should list the Briqpay fields missing from the order type', async () => {
+      mockTypeQuery([createMockType({ fieldDefinitions: [createMockType().fieldDefinitions[0]] })])
+
+      const result = await findMissingBriqpayFieldDefinitions()
+
+      expect(result.missingFields).toEqual(['briqpay-psp-meta-data-type'])
+    })
+
+    test('should report every field missing when no order type exists', async () => {
+      mockTypeQuery([])
+
+      const result = await findMissingBriqpayFieldDefinitions()
+
+      expect(result.typeExists).toBe(false)
+      expect(result.missingFields).toEqual(['briqpay-session-id', 'briqpay-psp-meta-data-type'])
+    })
+  })
 })
@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals'
+import {
+  BriqpayCircuitBreaker,
+  BriqpayHttpClient,
+  briqpayCircuitBreaker,
+} from '../../../src/libs/briqpay/briqpay-http-client'
+import { UpstreamError } from '../../../src/libs/errors/briqpay-errors'
+
+const credentials = { username: 'user', secret: 'secret', baseUrl: 'https://mock-briqpay.api/v3' }
+
+const response = (status: number) => ({ ok: status < 400, status }) as Response
+
+describe('BriqpayHttpClient', () => {
+  let mockFetch: jest.MockedFunction<typeof fetch>
+
+  beforeEach(() => {
+    mockFetch = jest.fn() as jest.MockedFunction<typeof fetch>
+    global.fetch = mockFetch
+    briqpayCircuitBreaker.reset()
+    // Skip backoff delays; AbortSignal.timeout does not go through the global timer
+    jest.spyOn(global, 'setTimeout').mockImplementation(((cb: () => void) => {
+      cb()
+      return 0
+    }) as unknown as typeof setTimeout)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('sends Basic auth, JSON body and a timeout signal to the base URL', async () => {
+    mockFetch.mockResolvedValue(response(200))
+    const client = new BriqpayHttpClient(credentials)
+
+    await client.request({ method: 'POST', path: '/session', body: { a: 1 } })
+
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe('https://mock-briqpay.api/v3/session')
+    expect(init?.method).toBe('POST')
+    expect(init?.body).toBe('{"a":1}')
+    expect(init?.signal).toBeInstanceOf(AbortSignal)
+    expect((init?.headers as Record<string, string>).Authorization).toBe(`Basic ${btoa('user:secret')}`)
+  })
+
+  test('retries a GET on 5xx and returns the first successful response', async () => {
+    mockFetch.mockResolvedValueOnce(response(503)).mockResolvedValueOnce(response(200))
+    const client = new BriqpayHttpClient(credentials)
+
+    const result = await client.request({ method: 'GET', path: '/session/abc' })
+
+    expect(result.status).toBe(200)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  test('returns the last 5xx response once retries are exhausted', async () => {
+    mockFetch.mockResolvedValue(response(500))
+    const client = new BriqpayHttpClient(credentials)
+
+    const result = await client.request({ method: 'GET', path: '/session/abc' })
+
+    expect(result.status).toBe(500)
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  test('does not retry 4xx responses', async () => {
+    mockFetch.mockResolvedValue(response(404))
+    const client = new BriqpayHttpClient(credentials)
+
+    const result = await client.request({ method: 'GET', path: '/session/abc' })
+
+    expect(result.status).toBe(404)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  test('does not retry non-idempotent calls unless marked retryable', async () => {
+    mockFetch.mockResolvedValue(response(502))
+    const client = new BriqpayHttpClient(credentials)
+
+    await client.request({ method: 'POST', path: '/session/abc/order/capture' })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+
+    mockFetch.mockClear()
+    await client.request({ method: 'PATCH', path: '/session/abc', retryable: true })
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  test('sends the idempotency key and makes the call retryable', async () => {
+    mockFetch.mockResolvedValueOnce(response(503)).mockResolvedValueOnce(response(200))
+    const client = new BriqpayHttpClient(credentials)
+
+    const result = await client.request({
+      method: 'POST',
+      path: '/session/abc/order/capture',
+      idempotencyKey: 'ct-payment-1-capture-10000-SEK',
+    })
+
+    expect(result.status).toBe(200)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    for (const [, init] of mockFetch.mock.calls) {
+      expect((init?.headers as Record<string, string>)['Idempotency-Key']).toBe('ct-payment-1-capture-10000-SEK')
+    }
+  })
+
+  test('retries network errors and wraps the final one in an UpstreamError', async () => {
+    mockFetch.mockRejectedValue(new TypeError('fetch failed'))
+    const client = new BriqpayHttpClient(credentials)
+
+    await expect(client.request({ method: 'GET', path: '/session/abc' })).rejects.toThrow(
+      'Briqpay request failed: GET /session/abc',
+    )
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  test('reports timeouts with the configured budget', async () => {
+    mockFetch.mockRejectedValue(new DOMException('The operation was aborted due to timeout', 'TimeoutError'))
+    const client = new BriqpayHttpClient(credentials)
+
+    const error = await client.request({ method: 'POST', path: '/session', timeoutMs: 1500 }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(UpstreamError)
+    expect(error.message).toBe('Briqpay request timed out after 1500ms: POST /session')
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  test('keeps the timeout running while the body is read', async () => {
+    mockFetch.mockResolvedValue({ ...response(200), json: () => new Promise(() => undefined) } as Response)
+    const client = new BriqpayHttpClient(credentials)
+
+    const res = await client.request({ method: 'GET', path: '/session/abc', timeoutMs: 10 })
+    const error = await res.json().catch((e) => e)
+
+    expect(error).toBeInstanceOf(UpstreamError)
+    expect(error.message).toBe('Briqpay request timed out after 10ms: GET /session/abc')
+  })
+
+  test('returns the body read within the timeout', async () => {
+    mockFetch.mockResolvedValue({ ...response(200), text: async () => 'ok' } as Response)
+    const client = new BriqpayHttpClient(credentials)
+
+    const res = await client.request({ method: 'GET', path: '/session/abc' })
+
+    await expect(res.text()).resolves.toBe('ok')
+  })
+
+  test('fails fast without calling Briqpay while the circuit is open', async () => {
+    const breaker = new BriqpayCircuitBreaker(2, 60_000)
+    mockFetch.mockResolvedValue(response(500))
+    const client = new BriqpayHttpClient(credentials, breaker)
+
+    await client.request({ method: 'POST', path: '/session' })
+    await client.request({ method: 'POST', path: '/session' })
+    expect(breaker.getState()).toBe('open')
+
+    mockFetch.mockClear()
+    await expect(client.request({ method: 'POST', path: '/session' })).rejects.toThrow(
+      'Briqpay is temporarily unavailable (circuit breaker open)',
+    )
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+})
+
+describe('BriqpayCircuitBreaker', () => {
+  test('counts only consecutive failures', () => {
+    const breaker = new BriqpayCircuitBreaker(2, 1000)
+
+    breaker.recordFailure()
+    breaker.recordSuccess()
+    breaker.recordFailure()
+
+    expect(breaker.getState()).toBe('closed')
+  })
+
+  test('lets a single trial through after the cooldown and closes on success', () => {
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0)
+    const breaker = new BriqpayCircuitBreaker(1, 1000)
+    breaker.recordFailure()
+    expect(breaker.tryAcquire()).toBe(false)
+
+    nowSpy.mockReturnValue(1000)
+    expect(breaker.tryAcquire()).toBe(true)
+    expect(breaker.getState()).toBe('half-open')
+    expect(breaker.tryAcquire()).toBe(false)
+
+    breaker.recordSuccess()
+    expect(breaker.getState()).toBe('closed')
+    nowSpy.mockRestore()
+  })
+
+  test('re-opens when the half-open trial fails', () => {
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0)
+    const breaker = new BriqpayCircuitBreaker(3, 1000)
+    breaker.recordFailure()
+    breaker.recordFailure()
+    breaker.recordFailure()
+
+    nowSpy.mockReturnValue(1000)
+    expect(breaker.tryAcquire()).toBe(true)
+    breaker.recordFailure()
+
+    expect(breaker.getState()).toBe('open')
+    expect(breaker.tryAcquire()).toBe(false)
+    nowSpy.mockRestore()
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, expect, test, jest, beforeEach, afterEach } from '@jest/globals'
+import {
+  CustomObjectWebhookReplayStore,
+  InMemoryWebhookReplayStore,
+} from '../../../src/libs/briqpay/webhook-replay-store'
+import { apiRoot } from '../../../src/libs/commercetools/api-root'
+
+// Mock apiRoot
+jest.mock('../../../src/libs/commercetools/api-root')
+
+// Mock payment SDK
+jest.mock('../../../src/payment-sdk', () => ({
+  appLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const TTL_MS = 5 * 60 * 1000
+
+const conflict = Object.assign(new Error('Conflict'), { statusCode: 409 })
+
+const mockCustomObjects = () => {
+  const created = jest.fn<() => Promise<unknown>>().mockResolvedValue({ body: {} })
+  const lookup = jest.fn<() => Promise<unknown>>()
+  const query = jest.fn<() => Promise<unknown>>().mockResolvedValue({ body: { results: [] } })
+  const deleted = jest.fn<() => Promise<unknown>>().mockResolvedValue({ body: {} })
+
+  const post = jest.fn().mockReturnValue({ execute: created })
+  const remove = jest.fn().mockReturnValue({ execute: deleted })
+  const withContainerAndKey = jest.fn().mockReturnValue({ get: () => ({ execute: lookup }), delete: remove })
+  const get = jest.fn().mockReturnValue({ execute: query })
+  const withContainer = jest.fn().mockReturnValue({ get })
+  ;(apiRoot.customObjects as unknown as jest.Mock).mockReturnValue({ post, withContainerAndKey, withContainer })
+
+  return { created, lookup, query, post, remove, get }
+}
+
+describe('InMemoryWebhookReplayStore', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test('accepts a key once and rejects it while it has not expired', async () => {
+    const store = new InMemoryWebhookReplayStore()
+
+    await expect(store.markSeen('sig-1', TTL_MS)).resolves.toBe(true)
+    await expect(store.markSeen('sig-1', TTL_MS)).resolves.toBe(false)
+    await expect(store.markSeen('sig-2', TTL_MS)).resolves.toBe(true)
+  })
+
+  test('accepts a key again after its TTL', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00.000Z') })
+    const store = new InMemoryWebhookReplayStore()
+
+    await store.markSeen('sig-1', TTL_MS)
+    jest.setSystemTime(new Date('2026-10-19T12:05:01.000Z'))
+
+    await expect(store.markSeen('sig-1', TTL_MS)).resolves.toBe(true)
+  })
+})
+
+describe('CustomObjectWebhookReplayStore', () => {
+  let store: CustomObjectWebhookReplayStore
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00.000Z') })
+    store = new CustomObjectWebhookReplayStore()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test('records a new key with create-only semantics and its expiry', async () => {
+    const { post } = mockCustomObjects()
+
+    await expect(store.markSeen('sig-1', TTL_MS)).resolves.toBe(true)
+
+    expect(post).toHaveBeenCalledWith({
+      body: {
+        container: 'briqpay-webhook-replay',
+        key: 'sig-1',
+        value: { expiresAt: '2026-10-19T12:05:00.000Z' },
+        version: 0,
+      },
+    })
+  })
+
+  test('reports a replay when another instance already recorded the key', async () => {
+    const { created, lookup } = mockCustomObjects()
+    created.mockRejectedValueOnce(conflict)
+    lookup.mockResolvedValue({ body: { version: 1, value: { expiresAt: '2026-10-19T12:04:00.000Z' } } })
+
+    await expect(store.markSeen('sig-1', TTL_MS)).resolves.toBe(false)
+  })
+
+  test('overwrites an expired entry using its version', async () => {
+    const { created, lookup, post } = mockCustomObjects()
+    created.mockRejectedValueOnce(conflict)
+    lookup.mockResolvedValue({ body: { version: 4, value: { expiresAt: '2026-10-19T11:59:00.000Z' } } })
+
+    await expect(store.markSeen('sig-1', TTL_MS)).resolves.toBe(true)
+
+    expect(post).toHaveBeenLastCalledWith({
+      body: {
+        container: 'briqpay-webhook-replay',
+        key: 'sig-1',
+        value: { expiresAt: '2026-10-19T12:05:00.000Z' },
+        version: 4,
+      },
+    })
+  })
+
+  test('purges expired entries at most once per interval', async () => {
+    const { query, get, remove } = mockCustomObjects()
+    query.mockResolvedValue({ body: { results: [{ key: 'old-sig', version: 2 }] } })
+
+    await store.markSeen('sig-1', TTL_MS)
+    await store.markSeen('sig-2', TTL_MS)
+
+    expect(get).toHaveBeenCalledTimes(1)
+    expect(get).toHaveBeenCalledWith({
+      queryArgs: { where: 'value(expiresAt < "2026-10-19T12:00:00.000Z")', limit: 50 },
+    })
+    expect(remove).toHaveBeenCalledWith({ queryArgs: { version: 2 } })
+  })
+
+  test('propagates errors other than a conflict', async () => {
+    const { created } = mockCustomObjects()
+    created.mockRejectedValueOnce(Object.assign(new Error('Service unavailable'), { statusCode: 503 }))
+
+    await expect(store.markSeen('sig-1', TTL_MS)).rejects.toThrow('Service unavailable')
+  })
+})
@@ -1,10 +1,14 @@
-import { describe, expect, test, afterEach } from '@jest/globals'
+import { describe, expect, test, afterEach, jest } from '@jest/globals'
 import crypto from 'crypto'
 import {
   verifyBriqpayWebhook,
   isHmacVerificationEnabled,
   getWebhookSecret,
+  getWebhookSecrets,
+  parseWebhookSecrets,
+  setWebhookReplayStore,
 } from '../../../src/libs/briqpay/webhook-verification'
+import { InMemoryWebhookReplayStore, WebhookReplayStore } from '../../../src/libs/briqpay/webhook-replay-store'
 
 describe('webhook-verification', () => {
   const testSecret = 'test-webhook-secret-12345'
@@ -21,165 +25,211 @@ describe('webhook-verification', () => {
   }
 
   describe('verifyBriqpayWebhook', () => {
-    test('should return valid for correct signature', () => {
+    test('should return valid for correct signature', async () => {
       const signatureHeader = generateValidSignature(testBody, testSecret)
 
-      const result = verifyBriqpayWebhook(testBody, signatureHeader, testSecret)
+      const result = await verifyBriqpayWebhook(testBody, signatureHeader, testSecret)
 
       expect(result.isValid).toBe(true)
       expect(result.error).toBeUndefined()
     })
 
-    test('should return invalid for incorrect signature', () => {
+    test('should return invalid for incorrect signature', async () => {
       const signatureHeader = generateValidSignature(testBody, 'wrong-secret')
 
-      const result = verifyBriqpayWebhook(testBody, signatureHeader, testSecret)
+      const result = await verifyBriqpayWebhook(testBody, signatureHeader, testSecret)
 
       expect(result.isValid).toBe(false)
       expect(result.error).toBe('Signature validation failed')
     })
 
-    test('should return invalid for tampered body', () => {
+    test('should return invalid for tampered body', async () => {
       const signatureHeader = generateValidSignature(testBody, testSecret)
       const tamperedBody = '{"event":"capture_status","status":"rejected","sessionId":"test-session-123"}'
 
-      const result = verifyBriqpayWebhook(tamperedBody, signatureHeader, testSecret)
+      const result = await verifyBriqpayWebhook(tamperedBody, signatureHeader, testSecret)
 
       expect(result.isValid).toBe(false)
       expect(result.error).toBe('Signature validation failed')
     })
 
-    test('should return invalid for malformed signature header - missing parts', () => {
-      const result = verifyBriqpayWebhook(testBody, 't=12345', testSecret)
+    test('should return invalid for malformed signature header - missing parts', async () => {
+      const result = await verifyBriqpayWebhook(testBody, 't=12345', testSecret)
 
       expect(result.isValid).toBe(false)
       expect(result.error).toBe('Invalid signature header format')
     })
 
-    test('should return invalid for malformed signature header - wrong format', () => {
-      const result = verifyBriqpayWebhook(testBody, 'invalid-header-format', testSecret)
+    test('should return invalid for malformed signature header - wrong format', async () => {
+      const result = await verifyBriqpayWebhook(testBody, 'invalid-header-format', testSecret)
 
       expect(result.isValid).toBe(false)
       expect(result.error).toBe('Invalid signature header format')
     })
 
-    test('should return invalid for malformed signature header - missing timestamp prefix', () => {
-      const result = verifyBriqpayWebhook(testBody, 'x=12345,s1=abc', testSecret)
+    test('should return invalid for malformed signature header - missing timestamp prefix', async () => {
+      const result = await verifyBriqpayWebhook(testBody, 'x=12345,s1=abc', testSecret)
 
       expect(result.isValid).toBe(false)
       expect(result.error).toBe('Invalid signature header format')
     })
 
-    test('should return invalid for malformed signature header - missing signature prefix', () => {
-      const result = verifyBriqpayWebhook(testBody, 't=12345,x=abc', testSecret)
+    test('should return invalid for malformed signature header - missing signature prefix', async () => {
+      const result = await verifyBriqpayWebhook(testBody, 't=12345,x=abc', testSecret)
 
       expect(result.isValid).toBe(false)
       expect(result.error).toBe('Invalid signature header format')
     })
 
-    test('should return invalid for non-numeric timestamp', () => {
-      const result = verifyBriqpayWebhook(testBody, 't=not-a-number,s1=abc123', testSecret)
+    test('should return invalid for non-numeric timestamp', async () => {
+      const result = await verifyBriqpayWebhook(testBody, 't=not-a-number,s1=abc123', testSecret)
 
       expect(result.isValid).toBe(false)
       expect(result.error).toBe('Invalid timestamp')
     })
 
-    test('should return invalid for expired timestamp (replay attack prevention)', () => {
+    test('should return invalid for expired timestamp (replay attack prevention)', async () => {
       const sixMinutesAgo = Date.now() - 6 * 60 * 1000
       const signatureHeader = generateValidSignature(testBody, testSecret, sixMinutesAgo)
 
-      const result = verifyBriqpayWebhook(testBody, signatureHeader, testSecret)
+      const result = await verifyBriqpayWebhook(testBody, signatureHeader, testSecret)
 
       expect(result.isValid).toBe(false)
       expect(result.error).toBe('Timestamp validation failed - webhook too old')
     })
 
-    test('should return valid for timestamp within tolerance', () => {
+    test('should return valid for timestamp within tolerance', async () => {
       const fourMinutesAgo = Date.now() - 4 * 60 * 1000
       const signatureHeader = generateValidSignature(testBody, testSecret, fourMinutesAgo)
 
-      const result = verifyBriqpayWebhook(testBody, signatureHeader, testSecret)
+      const result = await verifyBriqpayWebhook(testBody, signatureHeader, testSecret)
 
       expect(result.isValid).toBe(true)
     })
 
-    test('should return invalid for future timestamp (clock skew attack prevention)', () => {
+    test('should return invalid for future timestamp (clock skew attack prevention)', async () => {
       const twoMinutesInFuture = Date.now() + 2 * 60 * 1000
       const signatureHeader = generateValidSignature(testBody, testSecret, twoMinutesInFuture)
 
-      const result = verifyBriqpayWebhook(testBody, signatureHeader, testSecret)
+      const result = await verifyBriqpayWebhook(testBody, signatureHeader, testSecret)
 
       expect(result.isValid).toBe(false)
       expect(result.error).toBe('Timestamp validation failed - webhook from the future')
     })
 
-    test('should accept custom tolerance', () => {
+    test('should accept custom tolerance', async () => {
       const tenMinutesAgo = Date.now() - 10 * 60 * 1000
       const signatureHeader = generateValidSignature(testBody, testSecret, tenMinutesAgo)
 
       // Default 5-minute tolerance should fail
-      const resultDefault = verifyBriqpayWebhook(testBody, signatureHeader, testSecret)
+      const resultDefault = await verifyBriqpayWebhook(testBody, signatureHeader, testSecret)
       expect(resultDefault.isValid).toBe(false)
 
       // Custom 15-minute tolerance should pass
-      const resultCustom = verifyBriqpayWebhook(testBody, signatureHeader, testSecret, 15 * 60 * 1000)
+      const resultCustom = await verifyBriqpayWebhook(testBody, signatureHeader, testSecret, 15 * 60 * 1000)
       expect(resultCustom.isValid).toBe(true)
     })
 
-    test('should handle empty body', () => {
+    test('should handle empty body', async () => {
       const emptyBody = ''
       const signatureHeader = generateValidSignature(emptyBody, testSecret)
 
-      const result = verifyBriqpayWebhook(emptyBody, signatureHeader, testSecret)
+      const result = await verifyBriqpayWebhook(emptyBody, signatureHeader, testSecret)
 
       expect(result.isValid).toBe(true)
     })
 
-    test('should handle special characters in body', () => {
+    test('should handle special characters in body', async () => {
       const specialBody = '{"message":"Hello \\"World\\"","emoji":"🎉","unicode":"日本語"}'
       const signatureHeader = generateValidSignature(specialBody, testSecret)
 
-      const result = verifyBriqpayWebhook(specialBody, signatureHeader, testSecret)
+      const result = await verifyBriqpayWebhook(specialBody, signatureHeader, testSecret)
 
       expect(result.isValid).toBe(true)
     })
 
-    test('should return invalid when timestamp value is empty in header', () => {
+    test('should return invalid when timestamp value is empty in header', async () => {
       // t=,s1=abc → timestamp part is empty string after split
-      const result = verifyBriqpayWebhook(testBody, 't=,s1=abc', testSecret)
+      const result = await verifyBriqpayWebhook(testBody, 't=,s1=abc', testSecret)
 
       expect(result.isValid).toBe(false)
       expect(result.error).toBe('Invalid signature header format')
     })
 
-    test('should return invalid when signature value is empty in header', () => {
+    test('should return invalid when signature value is empty in header', async () => {
       // t=12345,s1= → signature is empty string
-      const result = verifyBriqpayWebhook(testBody, `t=${Date.now()},s1=`, testSecret)
+      const result = await verifyBriqpayWebhook(testBody, `t=${Date.now()},s1=`, testSecret)
 
       expect(result.isValid).toBe(false)
       expect(result.error).toBe('Invalid signature header format')
     })
 
-    test('should return invalid when received signature has different length than expected', () => {
+    test('should return invalid when received signature has different length than expected', async () => {
       // A 3-character base64 signature decodes to 2 bytes; expected HMAC-SHA256 is 32 bytes → length mismatch
       const shortSig = 'abc'
-      const result = verifyBriqpayWebhook(testBody, `t=${Date.now()},s1=${shortSig}`, testSecret)
+      const result = await verifyBriqpayWebhook(testBody, `t=${Date.now()},s1=${shortSig}`, testSecret)
 
       expect(result.isValid).toBe(false)
       expect(result.error).toBe('Signature validation failed')
     })
 
-    test('should detect replay when the same valid webhook is submitted twice', () => {
+    test('should detect replay when the same valid webhook is submitted twice', async () => {
       const uniqueBody = `{"unique":"replay-test-${Date.now()}"}`
       const header = generateValidSignature(uniqueBody, testSecret)
 
-      const first = verifyBriqpayWebhook(uniqueBody, header, testSecret)
+      const first = await verifyBriqpayWebhook(uniqueBody, header, testSecret)
       expect(first.isValid).toBe(true)
 
-      const second = verifyBriqpayWebhook(uniqueBody, header, testSecret)
+      const second = await verifyBriqpayWebhook(uniqueBody, header, testSecret)
       expect(second.isValid).toBe(false)
       expect(second.error).toBe('Replay detected')
     })
+
+    test('should accept a webhook signed with a previous secret during a rotation', async () => {
+      const signatureHeader = generateValidSignature(testBody, 'previous-secret')
+
+      const result = await verifyBriqpayWebhook(testBody, signatureHeader, [
+        { secret: testSecret },
+        { secret: 'previous-secret', expiresAt: new Date(Date.now() + 60 * 60 * 1000) },
+      ])
+
+      expect(result).toEqual({ isValid: true, secretIndex: 1 })
+    })
+
+    test('should reject a webhook signed with none of the active secrets', async () => {
+      const signatureHeader = generateValidSignature(testBody, 'unknown-secret')
+
+      const result = await verifyBriqpayWebhook(testBody, signatureHeader, [
+        { secret: testSecret },
+        { secret: 'previous-secret' },
+      ])
+
+      expect(result).toEqual({ isValid: false, error: 'Signature validation failed' })
+    })
+
+    describe('with a custom replay store', () => {
+      afterEach(() => {
+        setWebhookReplayStore(new InMemoryWebhookReplayStore())
+      })
+
+      test('should record the signature in the configured store', async () => {
+        const markSeen = jest.fn<WebhookReplayStore['markSeen']>().mockResolvedValue(false)
+        setWebhookReplayStore({ markSeen })
+
+        const result = await verifyBriqpayWebhook(testBody, generateValidSignature(testBody, testSecret), testSecret)
+
+        expect(markSeen).toHaveBeenCalledWith(expect.stringMatching(/^[0-9a-f]{64}$/), 5 * 60 * 1000)
+        expect(result).toEqual({ isValid: false, error: 'Replay detected' })
+      })
+
+      test('should reject the webhook when the store is unavailable', async () => {
+        setWebhookReplayStore({ markSeen: () => Promise.reject(new Error('CT unavailable')) })
+
+        const result = await verifyBriqpayWebhook(testBody, generateValidSignature(testBody, testSecret), testSecret)
+
+        expect(result).toEqual({ isValid: false, error: 'Replay check failed' })
+      })
+    })
   })
 
   describe('isHmacVerificationEnabled', () => {
@@ -193,25 +243,67 @@ describe('webhook-verification', () => {
       }
     })
 
-    test('should return true when BRIQPAY_WEBHOOK_SECRET is set', () => {
+    test('should return true when BRIQPAY_WEBHOOK_SECRET is set', async () => {
       process.env.BRIQPAY_WEBHOOK_SECRET = 'some-secret'
 
       expect(isHmacVerificationEnabled()).toBe(true)
     })
 
-    test('should return false when BRIQPAY_WEBHOOK_SECRET is not set', () => {
+    test('should return false when BRIQPAY_WEBHOOK_SECRET is not set', async () => {
       delete process.env.BRIQPAY_WEBHOOK_SECRET
 
       expect(isHmacVerificationEnabled()).toBe(false)
     })
 
-    test('should return false when BRIQPAY_WEBHOOK_SECRET is empty string', () => {
+    test('should return false when BRIQPAY_WEBHOOK_SECRET is empty string', async () => {
       process.env.BRIQPAY_WEBHOOK_SECRET = ''
 
       expect(isHmacVerificationEnabled()).toBe(false)
     })
   })
 
+  describe('parseWebhookSecrets', () => {
+    test('should parse a single secret', () => {
+      expect(parseWebhookSecrets('only-secret')).toEqual([{ secret: 'only-secret' }])
+    })
+
+    test('should parse current and previous secrets with an expiry', () => {
+      expect(parseWebhookSecrets('new-secret, old-secret|2026-11-01T00:00:00Z')).toEqual([
+        { secret: 'new-secret' },
+        { secret: 'old-secret', expiresAt: new Date('2026-11-01T00:00:00Z') },
+      ])
+    })
+
+    test.each(['new-secret,', 'old-secret|not-a-date', 'old-secret|2026-11-01|extra'])('should reject %s', (value) => {
+      expect(parseWebhookSecrets(value)).toBeUndefined()
+    })
+  })
+
+  describe('getWebhookSecrets', () => {
+    const originalEnv = process.env.BRIQPAY_WEBHOOK_SECRET
+
+    afterEach(() => {
+      if (originalEnv !== undefined) {
+        process.env.BRIQPAY_WEBHOOK_SECRET = originalEnv
+      } else {
+        delete process.env.BRIQPAY_WEBHOOK_SECRET
+      }
+    })
+
+    test('should leave out expired secrets', () => {
+      process.env.BRIQPAY_WEBHOOK_SECRET = 'new-secret,old-secret|2026-11-01T00:00:00Z'
+
+      expect(getWebhookSecrets(new Date('2026-10-31T00:00:00Z'))).toHaveLength(2)
+      expect(getWebhookSecrets(new Date('2026-11-02T00:00:00Z'))).toEqual([{ secret: 'new-secret' }])
+    })
+
+    test('should return no secrets when not set', () => {
+      delete process.env.BRIQPAY_WEBHOOK_SECRET
+
+      expect(getWebhookSecrets()).toEqual([])
+    })
+  })
+
   describe('getWebhookSecret', () => {
     const originalEnv = process.env.BRIQPAY_WEBHOOK_SECRET
 
@@ -223,13 +315,13 @@ describe('webhook-verification', () => {
       }
     })
 
-    test('should return the secret when set', () => {
+    test('should return the secret when set', async () => {
       process.env.BRIQPAY_WEBHOOK_SECRET = 'my-secret-value'
 
       expect(getWebhookSecret()).toBe('my-secret-value')
     })
 
-    test('should return undefined when not set', () => {
+    test('should return undefined when not set', async () => {
       delete process.env.BRIQPAY_WEBHOOK_SECRET
 
       expect(getWebhookSecret()).toBeUndefined()
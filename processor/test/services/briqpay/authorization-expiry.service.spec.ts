@@ -0,0 +1,273 @@
+import { describe, expect, test, jest, beforeEach, afterEach } from '@jest/globals'
+import type { Payment } from '@commercetools/connect-payments-sdk'
+import { BriqpayAuthorizationExpiryService } from '../../../src/services/briqpay/authorization-expiry.service'
+import type { BriqpayOperationService } from '../../../src/services/briqpay/operation.service'
+import type { BriqpayMerchantEventService } from '../../../src/services/briqpay/merchant-event.service'
+import { apiRoot } from '../../../src/libs/commercetools/api-root'
+import { AuthorizationExpiryAction } from '../../../src/dtos/briqpay-payment.dto'
+import * as Config from '../../../src/config/config'
+import { appLogger } from '../../../src/payment-sdk'
+
+// Mock apiRoot
+jest.mock('../../../src/libs/commercetools/api-root')
+
+// Mock payment SDK
+jest.mock('../../../src/payment-sdk', () => ({
+  appLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const money = (centAmount: number) => ({
+  type: 'centPrecision' as const,
+  centAmount,
+  currencyCode: 'EUR',
+  fractionDigits: 2,
+})
+
+const buildPayment = (id: string, transactions: Array<{ type: string; state: string; amount: number }>): Payment =>
+  ({
+    id,
+    amountPlanned: money(10000),
+    transactions: transactions.map((tx, index) => ({
+      id: `${id}-tx-${index}`,
+      type: tx.type,
+      state: tx.state,
+      amount: money(tx.amount),
+    })),
+    custom: {
+      type: { typeId: 'type', id: 'briqpay-payment-type' },
+      fields: { 'briqpay-authorization-expires-at': '2026-10-20T12:00:00.000Z' },
+    },
+  }) as unknown as Payment
+
+// Serves the expiry query one page per call, and the reads and updates recording an alert
+const mockPaymentQuery = (...pages: Payment[][]) => {
+  const execute = jest.fn<() => Promise<{ body: { results: Payment[] } }>>()
+  for (const results of pages.length ? pages : [[]]) {
+    execute.mockResolvedValueOnce({ body: { results } })
+  }
+  const get = jest.fn().mockReturnValue({ execute })
+  const post = jest.fn().mockReturnValue({ execute: jest.fn<() => Promise<unknown>>().mockResolvedValue({}) })
+  const withId = jest.fn().mockReturnValue({
+    get: () => ({ execute: jest.fn<() => Promise<unknown>>().mockResolvedValue({ body: { version: 3 } }) }),
+    post,
+  })
+  ;(apiRoot.payments as unknown as jest.Mock).mockReturnValue({ get, withId })
+  return { get, withId, post }
+}
+
+describe('BriqpayAuthorizationExpiryService', () => {
+  const now = new Date('2026-10-19T12:00:00.000Z')
+  const capturePayment = jest.fn<BriqpayOperationService['capturePayment']>()
+  const getRemainingAuthorizedAmount = jest.fn<BriqpayOperationService['getRemainingAuthorizedAmount']>()
+  const publishAuthorizationExpiring = jest.fn<BriqpayMerchantEventService['publishAuthorizationExpiring']>()
+  let expiryService: BriqpayAuthorizationExpiryService
+
+  const setPolicy = (authorizationExpiryPolicy: 'alert' | 'capture') => {
+    jest.spyOn(Config, 'getConfig').mockReturnValue({
+      ...Config.config,
+      authorizationExpiryWindowHours: 48,
+      authorizationExpiryPolicy,
+    })
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    getRemainingAuthorizedAmount.mockResolvedValue(10000)
+    expiryService = new BriqpayAuthorizationExpiryService(
+      { capturePayment, getRemainingAuthorizedAmount } as unknown as BriqpayOperationService,
+      { publishAuthorizationExpiring } as unknown as BriqpayMerchantEventService,
+    )
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('queries payments whose authorization expires within the window', async () => {
+    setPolicy('alert')
+    const { get } = mockPaymentQuery([])
+
+    const result = await expiryService.processExpiringAuthorizations(now)
+
+    expect(get).toHaveBeenCalledWith({
+      queryArgs: {
+        where: [
+          'paymentMethodInfo(paymentInterface="Briqpay") and custom(fields(briqpay-authorization-expires-at > "2026-10-19T12:00:00.000Z" and briqpay-authorization-expires-at <= "2026-10-21T12:00:00.000Z"))',
+        ],
+        sort: 'id asc',
+        limit: 500,
+        withTotal: false,
+      },
+    })
+    expect(result).toEqual({ windowEnd: '2026-10-21T12:00:00.000Z', payments: [] })
+  })
+
+  test('pages past payments with nothing left to capture', async () => {
+    setPolicy('capture')
+    const captured = Array.from({ length: 500 }, (_, index) =>
+      buildPayment(`captured-${String(index).padStart(3, '0')}`, [
+        { type: 'Authorization', state: 'Success', amount: 10000 },
+        { type: 'Charge', state: 'Success', amount: 10000 },
+      ]),
+    )
+    const open = buildPayment('open', [{ type: 'Authorization', state: 'Success', amount: 10000 }])
+    const { get } = mockPaymentQuery(captured, [open])
+    getRemainingAuthorizedAmount.mockImplementation(async (payment) => (payment.id === 'open' ? 10000 : 0))
+    capturePayment.mockResolvedValue({ outcome: 'approved', pspReference: 'session-1' } as never)
+
+    const result = await expiryService.processExpiringAuthorizations(now)
+
+    expect(get).toHaveBeenCalledTimes(2)
+    expect(get).toHaveBeenLastCalledWith({
+      queryArgs: expect.objectContaining({ where: [expect.any(String), 'id > "captured-499"'] }),
+    })
+    expect(result.payments.map((p) => p.paymentId)).toEqual(['open'])
+  })
+
+  test('alerts on the uncaptured remainder without capturing', async () => {
+    setPolicy('alert')
+    const payment = buildPayment('payment-1', [
+      { type: 'Authorization', state: 'Success', amount: 10000 },
+      { type: 'Charge', state: 'Success', amount: 4000 },
+    ])
+    mockPaymentQuery([payment])
+    getRemainingAuthorizedAmount.mockResolvedValue(6000)
+
+    const result = await expiryService.processExpiringAuthorizations(now)
+
+    expect(capturePayment).not.toHaveBeenCalled()
+    expect(publishAuthorizationExpiring).toHaveBeenCalledWith(payment, 6000, '2026-10-20T12:00:00.000Z')
+    expect(appLogger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: 'briqpay.authorization.expiring',
+        paymentId: 'payment-1',
+        remainingAmount: 6000,
+      }),
+      expect.any(String),
+    )
+    expect(result.payments).toEqual([
+      {
+        paymentId: 'payment-1',
+        expiresAt: '2026-10-20T12:00:00.000Z',
+        remainingAmount: 6000,
+        action: AuthorizationExpiryAction.ALERTED,
+      },
+    ])
+  })
+
+  test('records the alerted expiry and alerts each expiry once', async () => {
+    setPolicy('alert')
+    const payment = buildPayment('payment-1', [{ type: 'Authorization', state: 'Success', amount: 10000 }])
+    const { withId, post } = mockPaymentQuery([payment])
+
+    await expiryService.processExpiringAuthorizations(now)
+
+    expect(withId).toHaveBeenCalledWith({ ID: 'payment-1' })
+    expect(post).toHaveBeenCalledWith({
+      body: {
+        version: 3,
+        actions: [
+          {
+            action: 'setCustomField',
+            name: 'briqpay-authorization-expiry-alerted',
+            value: '2026-10-20T12:00:00.000Z',
+          },
+        ],
+      },
+    })
+
+    const alerted = {
+      ...payment,
+      custom: {
+        ...payment.custom!,
+        fields: { ...payment.custom!.fields, 'briqpay-authorization-expiry-alerted': '2026-10-20T12:00:00.000Z' },
+      },
+    } as Payment
+    mockPaymentQuery([alerted])
+    publishAuthorizationExpiring.mockClear()
+
+    const result = await expiryService.processExpiringAuthorizations(now)
+
+    expect(publishAuthorizationExpiring).not.toHaveBeenCalled()
+    expect(result.payments).toEqual([])
+  })
+
+  test('captures the remaining amount the capture validates against when the policy is capture', async () => {
+    setPolicy('capture')
+    const payment = buildPayment('payment-1', [
+      { type: 'Authorization', state: 'Success', amount: 10000 },
+      { type: 'Charge', state: 'Success', amount: 4000 },
+    ])
+    mockPaymentQuery([payment])
+    // Briqpay authorized less than the CT authorization amount
+    getRemainingAuthorizedAmount.mockResolvedValue(6000)
+    capturePayment.mockResolvedValue({ outcome: 'approved', pspReference: 'session-1' } as never)
+
+    const result = await expiryService.processExpiringAuthorizations(now)
+
+    expect(capturePayment).toHaveBeenCalledWith({
+      payment,
+      amount: { centAmount: 6000, currencyCode: 'EUR' },
+      merchantReference: 'authorization-expiry-2026-10-20T12:00:00.000Z',
+    })
+    expect(result.payments[0].action).toBe(AuthorizationExpiryAction.CAPTURED)
+  })
+
+  test('reports a failed auto-capture and continues with the next payment', async () => {
+    setPolicy('capture')
+    mockPaymentQuery([
+      buildPayment('payment-1', [{ type: 'Authorization', state: 'Success', amount: 10000 }]),
+      buildPayment('payment-2', [{ type: 'Authorization', state: 'Success', amount: 10000 }]),
+    ])
+    capturePayment
+      .mockRejectedValueOnce(new Error('Briqpay unavailable'))
+      .mockResolvedValueOnce({ outcome: 'approved', pspReference: 'session-2' } as never)
+
+    const result = await expiryService.processExpiringAuthorizations(now)
+
+    expect(result.payments.map((p) => p.action)).toEqual([
+      AuthorizationExpiryAction.FAILED,
+      AuthorizationExpiryAction.CAPTURED,
+    ])
+  })
+
+  test('skips authorizations that are fully captured or released', async () => {
+    setPolicy('capture')
+    getRemainingAuthorizedAmount.mockResolvedValue(0)
+    mockPaymentQuery([
+      buildPayment('captured', [
+        { type: 'Authorization', state: 'Success', amount: 10000 },
+        { type: 'Charge', state: 'Success', amount: 10000 },
+      ]),
+      buildPayment('released', [
+        { type: 'Authorization', state: 'Success', amount: 10000 },
+        { type: 'Charge', state: 'Success', amount: 4000 },
+        { type: 'CancelAuthorization', state: 'Success', amount: 6000 },
+      ]),
+    ])
+
+    const result = await expiryService.processExpiringAuthorizations(now)
+
+    expect(capturePayment).not.toHaveBeenCalled()
+    expect(result.payments).toEqual([])
+  })
+
+  test('skips payments without a successful authorization or whose remainder cannot be determined', async () => {
+    setPolicy('capture')
+    mockPaymentQuery([
+      buildPayment('pending', [{ type: 'Authorization', state: 'Pending', amount: 10000 }]),
+      buildPayment('no-session', [{ type: 'Authorization', state: 'Success', amount: 10000 }]),
+    ])
+    getRemainingAuthorizedAmount.mockRejectedValue(new Error('Cannot find briqpay session for capture'))
+
+    const result = await expiryService.processExpiringAuthorizations(now)
+
+    expect(getRemainingAuthorizedAmount).toHaveBeenCalledTimes(1)
+    expect(capturePayment).not.toHaveBeenCalled()
+    expect(result.payments).toEqual([])
+  })
+})
@@ -0,0 +1,271 @@
+import { describe, expect, test, jest, beforeEach, afterEach } from '@jest/globals'
+import { createHmac } from 'crypto'
+import { ErrorInvalidOperation, ErrorResourceNotFound, Payment, Transaction } from '@commercetools/connect-payments-sdk'
+import {
+  BriqpayMerchantEventService,
+  MERCHANT_EVENT_SIGNATURE_HEADER,
+} from '../../../src/services/briqpay/merchant-event.service'
+import { apiRoot } from '../../../src/libs/commercetools/api-root'
+import {
+  MerchantEventDeliveryDTO,
+  MerchantEventDeliveryStatus,
+  MerchantEventType,
+} from '../../../src/dtos/briqpay-payment.dto'
+import * as Config from '../../../src/config/config'
+import { appLogger } from '../../../src/payment-sdk'
+
+// Mock apiRoot
+jest.mock('../../../src/libs/commercetools/api-root')
+
+// Mock payment SDK
+jest.mock('../../../src/payment-sdk', () => ({
+  appLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const amount = { centAmount: 10000, currencyCode: 'EUR' }
+
+const paymentWith = (transactions: Partial<Transaction>[]): Payment =>
+  ({
+    id: 'payment-123',
+    transactions: transactions.map((tx, index) => ({ id: `tx-${index}`, amount, ...tx })),
+  }) as unknown as Payment
+
+const authorizedPayment = paymentWith([{ type: 'Authorization', interactionId: 'session-123', state: 'Success' }])
+
+const failedDelivery = (overrides: Partial<MerchantEventDeliveryDTO> = {}): MerchantEventDeliveryDTO => ({
+  key: 'event-1-abcd1234',
+  url: 'https://merchant.example.com/events',
+  status: MerchantEventDeliveryStatus.FAILED,
+  attempts: 3,
+  lastError: 'Endpoint responded with HTTP 500',
+  createdAt: '2026-10-19T12:00:00.000Z',
+  updatedAt: '2026-10-19T12:00:00.000Z',
+  event: {
+    id: 'event-1',
+    type: MerchantEventType.PAYMENT_CAPTURED,
+    createdAt: '2026-10-19T12:00:00.000Z',
+    data: { paymentId: 'payment-123', briqpaySessionId: 'session-123', briqpayCaptureId: 'capture-1', amount },
+  },
+  ...overrides,
+})
+
+const notFound = Object.assign(new Error('Not found'), { statusCode: 404 })
+
+const mockApiRoot = () => {
+  const lookup = jest.fn<() => Promise<unknown>>().mockRejectedValue(notFound)
+  const query = jest.fn<() => Promise<unknown>>().mockResolvedValue({ body: { results: [] } })
+  const saved = jest.fn<() => Promise<unknown>>().mockResolvedValue({ body: {} })
+  const orderQuery = jest.fn<() => Promise<unknown>>().mockResolvedValue({ body: { results: [{ id: 'order-123' }] } })
+  const deleted = jest.fn<() => Promise<unknown>>().mockResolvedValue({ body: {} })
+
+  const post = jest.fn().mockReturnValue({ execute: saved })
+  const remove = jest.fn().mockReturnValue({ execute: deleted })
+  const withContainerAndKey = jest.fn().mockReturnValue({ get: () => ({ execute: lookup }), delete: remove })
+  const get = jest.fn().mockReturnValue({ execute: query })
+  const withContainer = jest.fn().mockReturnValue({ get })
+  ;(apiRoot.customObjects as unknown as jest.Mock).mockReturnValue({ post, withContainerAndKey, withContainer })
+  ;(apiRoot.orders as unknown as jest.Mock).mockReturnValue({ get: () => ({ execute: orderQuery }) })
+
+  return { lookup, query, post, get, remove, orderQuery }
+}
+
+const savedValues = (post: jest.Mock) =>
+  post.mock.calls.map(([arg]) => (arg as { body: { value: Omit<MerchantEventDeliveryDTO, 'key'> } }).body.value)
+
+describe('BriqpayMerchantEventService', () => {
+  const fetchMock = jest.fn<typeof fetch>()
+  let service: BriqpayMerchantEventService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(Config, 'getConfig').mockReturnValue({
+      ...Config.config,
+      merchantEventUrls: ['https://merchant.example.com/events'],
+      merchantEventSecret: 'merchant-secret',
+      merchantEventMaxAttempts: 3,
+      merchantEventRetryBaseDelay: 0,
+    })
+    global.fetch = fetchMock as unknown as typeof fetch
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }))
+    service = new BriqpayMerchantEventService()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('posts a signed payment.captured event once a capture succeeds', async () => {
+    const { post } = mockApiRoot()
+    const payment = paymentWith([
+      { type: 'Authorization', interactionId: 'session-123', state: 'Success' },
+      { type: 'Charge', interactionId: 'capture-1', state: 'Pending' },
+    ])
+
+    await service.publishTransaction(payment, { type: 'Charge', interactionId: 'capture-1', amount, state: 'Success' })
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit]
+    expect(url).toBe('https://merchant.example.com/events')
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      type: 'payment.captured',
+      data: {
+        paymentId: 'payment-123',
+        orderId: 'order-123',
+        briqpaySessionId: 'session-123',
+        briqpayCaptureId: 'capture-1',
+        amount,
+      },
+    })
+
+    const header = (init.headers as Record<string, string>)[MERCHANT_EVENT_SIGNATURE_HEADER]
+    const [, timestamp, signature] = /^t=(\d+),s1=(.+)$/.exec(header) ?? []
+    expect(signature).toBe(
+      createHmac('sha256', 'merchant-secret')
+        .update(`${timestamp}.${init.body as string}`)
+        .digest('base64'),
+    )
+
+    expect(savedValues(post).map((value) => value.status)).toEqual([
+      MerchantEventDeliveryStatus.PENDING,
+      MerchantEventDeliveryStatus.DELIVERED,
+    ])
+  })
+
+  test('does not emit for pending transactions or transactions that were already successful', async () => {
+    mockApiRoot()
+
+    await service.publishTransaction(authorizedPayment, {
+      type: 'Refund',
+      interactionId: 'refund-1',
+      amount,
+      state: 'Pending',
+    })
+    await service.publishTransaction(authorizedPayment, {
+      type: 'Authorization',
+      interactionId: 'session-123',
+      amount,
+      state: 'Success',
+    })
+
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  test('posts a payment.authorization_expiring event with the uncaptured remainder', async () => {
+    mockApiRoot()
+    const payment = { ...authorizedPayment, amountPlanned: { ...amount, type: 'centPrecision', fractionDigits: 2 } }
+
+    await service.publishAuthorizationExpiring(payment as Payment, 6000, '2026-10-20T12:00:00.000Z')
+
+    const [, init] = fetchMock.mock.calls[0] as [string, RequestInit]
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      type: 'payment.authorization_expiring',
+      data: {
+        paymentId: 'payment-123',
+        orderId: 'order-123',
+        briqpaySessionId: 'session-123',
+        expiresAt: '2026-10-20T12:00:00.000Z',
+        amount: { centAmount: 6000, currencyCode: 'EUR' },
+      },
+    })
+  })
+
+  test('does not emit when no merchant endpoint is configured', async () => {
+    mockApiRoot()
+    jest.spyOn(Config, 'getConfig').mockReturnValue({ ...Config.config, merchantEventUrls: [] })
+
+    await service.publishTransaction(authorizedPayment, {
+      type: 'Refund',
+      interactionId: 'refund-1',
+      amount,
+      state: 'Success',
+    })
+
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  test('retries a failing endpoint and logs the delivery as failed once attempts run out', async () => {
+    const { post } = mockApiRoot()
+    fetchMock.mockResolvedValue(new Response(null, { status: 500 }))
+
+    await service.publishTransaction(authorizedPayment, {
+      type: 'CancelAuthorization',
+      interfaceId: 'cancel-key',
+      amount,
+      state: 'Success',
+    })
+
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(savedValues(post).at(-1)).toMatchObject({
+      status: MerchantEventDeliveryStatus.FAILED,
+      attempts: 3,
+      responseStatus: 500,
+      lastError: 'Endpoint responded with HTTP 500',
+    })
+    expect(appLogger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'briqpay.merchant_event.failed', type: 'payment.cancelled' }),
+      'Merchant event delivery failed',
+    )
+  })
+
+  test('purges delivered log entries past their retention after publishing', async () => {
+    const { get, query, remove } = mockApiRoot()
+    query.mockResolvedValue({ body: { results: [{ key: 'old-delivery', version: 2 }] } })
+
+    await service.publishTransaction(authorizedPayment, {
+      type: 'Refund',
+      interactionId: 'refund-1',
+      amount,
+      state: 'Success',
+    })
+
+    expect(get).toHaveBeenCalledWith({
+      queryArgs: { where: expect.stringMatching(/^value\(status="delivered" and updatedAt < "/), limit: 50 },
+    })
+    expect(remove).toHaveBeenCalledWith({ queryArgs: { version: 2 } })
+  })
+
+  test('lists failed deliveries by default', async () => {
+    const { get, query } = mockApiRoot()
+    const { key, ...value } = failedDelivery()
+    query.mockResolvedValue({ body: { results: [{ key, value }] } })
+
+    const deliveries = await service.list()
+
+    expect(get).toHaveBeenCalledWith({
+      queryArgs: { where: 'value(status="failed")', sort: 'createdAt asc', limit: 100 },
+    })
+    expect(deliveries).toEqual([failedDelivery()])
+  })
+
+  test('redelivers a failed delivery with its attempts reset', async () => {
+    const { lookup, post } = mockApiRoot()
+    const { key: _key, ...value } = failedDelivery()
+    lookup.mockResolvedValue({ body: { value } })
+
+    const result = await service.redeliver('event-1-abcd1234')
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(result).toMatchObject({ status: MerchantEventDeliveryStatus.DELIVERED, attempts: 1 })
+    expect(savedValues(post)[0]).toMatchObject({ status: MerchantEventDeliveryStatus.PENDING, attempts: 0 })
+  })
+
+  test('refuses to redeliver when merchant events are not configured', async () => {
+    const { lookup } = mockApiRoot()
+    const { key: _key, ...value } = failedDelivery()
+    lookup.mockResolvedValue({ body: { value } })
+    jest.spyOn(Config, 'getConfig').mockReturnValue({ ...Config.config, merchantEventUrls: [] })
+
+    await expect(service.redeliver('event-1-abcd1234')).rejects.toThrow(ErrorInvalidOperation)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  test('throws when redelivering an unknown delivery', async () => {
+    mockApiRoot()
+
+    await expect(service.redeliver('missing')).rejects.toThrow(ErrorResourceNotFound)
+  })
+})
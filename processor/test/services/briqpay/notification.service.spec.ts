@@ -21,6 +21,9 @@ jest.mock('../../../src/services/briqpay/session-data.service', () => ({
   })),
 }))
 
+// Mock Briqpay service
+jest.mock('../../../src/libs/briqpay/BriqpayService')
+
 jest.mock('../../../src/payment-sdk', () => ({
   appLogger: {
     info: jest.fn(),
@@ -29,7 +32,12 @@ jest.mock('../../../src/payment-sdk', () => ({
   },
 }))
 
+import type { Payment } from '@commercetools/connect-payments-sdk'
 import { BriqpayNotificationService } from '../../../src/services/briqpay/notification.service'
+import type { BriqpayMerchantEventService } from '../../../src/services/briqpay/merchant-event.service'
+import Briqpay from '../../../src/libs/briqpay/BriqpayService'
+import { ValidationError } from '../../../src/libs/errors/briqpay-errors'
+import { TRANSACTION_STATUS } from '../../../src/services/types/briqpay-payment.type'
 import { appLogger } from '../../../src/payment-sdk'
 
 // The selector is a private arrow on the instance; reach it directly to test routing.
@@ -91,3 +99,125 @@ describe('BriqpayNotificationService selector (order vs cart staging)', () => {
     expect(appLogger.error).toHaveBeenCalled()
   })
 })
+
+describe('BriqpayNotificationService resyncPayment', () => {
+  const money = (centAmount: number) => ({ type: 'centPrecision', centAmount, currencyCode: 'EUR', fractionDigits: 2 })
+  const getPayment = jest.fn<(opts: { id: string }) => Promise<Payment>>()
+  const updatePayment = jest.fn<(opts: unknown) => Promise<Payment>>()
+  let service: BriqpayNotificationService
+
+  const buildPayment = (transactions: Array<{ type: string; state: string; interactionId: string; amount: number }>) =>
+    ({
+      id: 'pay-1',
+      interfaceId: 'sess-1',
+      amountPlanned: money(10000),
+      transactions: transactions.map((tx, index) => ({ id: `tx-${index}`, ...tx, amount: money(tx.amount) })),
+    }) as unknown as Payment
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockOrdersGet.mockResolvedValue({ body: { results: [{ id: 'order-1', version: 3 }] } })
+    mockIngestToOrder.mockResolvedValue(undefined)
+
+    service = new BriqpayNotificationService(
+      { getPayment, updatePayment } as never,
+      {} as never,
+      { publishTransaction: jest.fn() } as unknown as BriqpayMerchantEventService,
+    )
+
+    jest.mocked(Briqpay.getSession).mockResolvedValue({
+      sessionId: 'sess-1',
+      htmlSnippet: '',
+      data: {
+        transactions: [
+          { transactionId: 'bq-tx-1', status: TRANSACTION_STATUS.APPROVED, amountIncVat: 10000, currency: 'EUR' },
+        ],
+        captures: [
+          { captureId: 'capture-1', status: TRANSACTION_STATUS.APPROVED, amountIncVat: 10000, currency: 'EUR' },
+        ],
+      },
+    })
+  })
+
+  test('replays the authorization and captures from the Briqpay session and re-ingests the order', async () => {
+    const stuck = buildPayment([{ type: 'Authorization', state: 'Pending', interactionId: 'sess-1', amount: 10000 }])
+    const resynced = buildPayment([
+      { type: 'Authorization', state: 'Success', interactionId: 'sess-1', amount: 10000 },
+      { type: 'Charge', state: 'Success', interactionId: 'capture-1', amount: 10000 },
+    ])
+    getPayment.mockResolvedValueOnce(stuck).mockResolvedValueOnce(stuck).mockResolvedValue(resynced)
+    updatePayment.mockResolvedValue(resynced)
+
+    const result = await service.resyncPayment('pay-1')
+
+    expect(Briqpay.getSession).toHaveBeenCalledWith('sess-1')
+    expect(updatePayment).toHaveBeenCalledWith({
+      id: 'pay-1',
+      transaction: { type: 'Authorization', interactionId: 'sess-1', amount: expect.anything(), state: 'Success' },
+    })
+    expect(updatePayment).toHaveBeenCalledWith({
+      id: 'pay-1',
+      transaction: { type: 'Charge', interactionId: 'capture-1', amount: expect.anything(), state: 'Success' },
+    })
+    expect(mockIngestToOrder).toHaveBeenCalledWith('sess-1', 'order-1')
+    expect(result.replayed).toEqual([
+      { event: 'order_status', status: TRANSACTION_STATUS.APPROVED },
+      { event: 'capture_status', status: TRANSACTION_STATUS.APPROVED, captureId: 'capture-1' },
+    ])
+    expect(result.transactions.map(({ type, state }) => ({ type, state }))).toEqual([
+      { type: 'Authorization', state: 'Success' },
+      { type: 'Charge', state: 'Success' },
+    ])
+  })
+
+  test('does not fail an authorized payment when Briqpay reports the authorization rejected', async () => {
+    const authorized = buildPayment([
+      { type: 'Authorization', state: 'Success', interactionId: 'sess-1', amount: 10000 },
+    ])
+    getPayment.mockResolvedValue(authorized)
+    jest.mocked(Briqpay.getSession).mockResolvedValue({
+      sessionId: 'sess-1',
+      htmlSnippet: '',
+      data: {
+        transactions: [
+          { transactionId: 'bq-tx-1', status: TRANSACTION_STATUS.REJECTED, amountIncVat: 10000, currency: 'EUR' },
+        ],
+      },
+    })
+
+    await service.resyncPayment('pay-1')
+
+    expect(updatePayment).not.toHaveBeenCalled()
+  })
+
+  test('fails an authorized payment when Briqpay reports the authorization cancelled', async () => {
+    const authorized = buildPayment([
+      { type: 'Authorization', state: 'Success', interactionId: 'sess-1', amount: 10000 },
+    ])
+    getPayment.mockResolvedValue(authorized)
+    updatePayment.mockResolvedValue(authorized)
+    jest.mocked(Briqpay.getSession).mockResolvedValue({
+      sessionId: 'sess-1',
+      htmlSnippet: '',
+      data: {
+        transactions: [
+          { transactionId: 'bq-tx-1', status: TRANSACTION_STATUS.CANCELLED, amountIncVat: 10000, currency: 'EUR' },
+        ],
+      },
+    })
+
+    await service.resyncPayment('pay-1')
+
+    expect(updatePayment).toHaveBeenCalledWith({
+      id: 'pay-1',
+      transaction: { type: 'Authorization', interactionId: 'sess-1', amount: expect.anything(), state: 'Failure' },
+    })
+  })
+
+  test('rejects a payment without a Briqpay session', async () => {
+    getPayment.mockResolvedValue({ id: 'pay-1', transactions: [] } as unknown as Payment)
+
+    await expect(service.resyncPayment('pay-1')).rejects.toThrow(ValidationError)
+    expect(Briqpay.getSession).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, expect, test, jest, beforeEach } from '@jest/globals'
+import type { CommercetoolsPaymentService } from '@commercetools/connect-payments-sdk'
+import type { Order } from '@commercetools/platform-sdk'
+import { BriqpayOrderSyncService } from '../../../src/services/briqpay/order-sync.service'
+import Briqpay from '../../../src/libs/briqpay/BriqpayService'
+import { apiRoot } from '../../../src/libs/commercetools/api-root'
+import { OrderSyncOutcome } from '../../../src/dtos/briqpay-payment.dto'
+import { ValidationError } from '../../../src/libs/errors/briqpay-errors'
+
+// Mock apiRoot
+jest.mock('../../../src/libs/commercetools/api-root')
+
+// Mock payment SDK
+jest.mock('../../../src/payment-sdk', () => ({
+  appLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+// Mock Briqpay service
+jest.mock('../../../src/libs/briqpay/BriqpayService')
+
+const mockedBriqpay = jest.mocked(Briqpay)
+
+const buildOrder = (overrides: Partial<Order> = {}): Order =>
+  ({
+    id: 'order-123',
+    version: 3,
+    orderState: 'Open',
+    lineItems: [],
+    customLineItems: [],
+    totalPrice: { type: 'centPrecision', centAmount: 8000, currencyCode: 'EUR', fractionDigits: 2 },
+    taxedPrice: {
+      totalNet: { type: 'centPrecision', centAmount: 6400, currencyCode: 'EUR', fractionDigits: 2 },
+      totalGross: { type: 'centPrecision', centAmount: 8000, currencyCode: 'EUR', fractionDigits: 2 },
+    },
+    custom: { type: { typeId: 'type', id: 'briqpay-type' }, fields: { 'briqpay-session-id': 'session-123' } },
+    ...overrides,
+  }) as unknown as Order
+
+const mockOrderLookup = (order: Order) => {
+  const execute = jest.fn<() => Promise<{ body: Order }>>().mockResolvedValue({ body: order })
+  const get = jest.fn().mockReturnValue({ execute })
+  const withId = jest.fn().mockReturnValue({ get })
+  ;(apiRoot.orders as unknown as jest.Mock).mockReturnValue({ withId })
+  return { withId }
+}
+
+describe('BriqpayOrderSyncService', () => {
+  let orderSyncService: BriqpayOrderSyncService
+  const mockCtPaymentService = {
+    getPayment: jest.fn(),
+  } as unknown as CommercetoolsPaymentService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    orderSyncService = new BriqpayOrderSyncService(mockCtPaymentService)
+
+    mockedBriqpay.getSession.mockResolvedValue({
+      sessionId: 'session-123',
+      data: { transactions: [{ transactionId: 'tx-1', status: 'approved', amountIncVat: 10000, currency: 'EUR' }] },
+    } as never)
+    mockedBriqpay.updateSession.mockResolvedValue({ sessionId: 'session-123' } as never)
+  })
+
+  test('updates the Briqpay order with the edited order', async () => {
+    const order = buildOrder()
+    const { withId } = mockOrderLookup(order)
+
+    const result = await orderSyncService.syncOrder('order-123')
+
+    expect(withId).toHaveBeenCalledWith({ ID: 'order-123' })
+    expect(mockedBriqpay.updateSession).toHaveBeenCalledWith('session-123', order, {
+      centAmount: 8000,
+      currencyCode: 'EUR',
+    })
+    expect(result).toEqual({
+      outcome: OrderSyncOutcome.UPDATED,
+      orderId: 'order-123',
+      sessionId: 'session-123',
+      orderAmount: 8000,
+      authorizedAmount: 10000,
+    })
+  })
+
+  test('does not update Briqpay when the edited order exceeds the authorization', async () => {
+    mockOrderLookup(
+      buildOrder({
+        taxedPrice: {
+          totalNet: { type: 'centPrecision', centAmount: 9600, currencyCode: 'EUR', fractionDigits: 2 },
+          totalGross: { type: 'centPrecision', centAmount: 12000, currencyCode: 'EUR', fractionDigits: 2 },
+        },
+      } as Partial<Order>),
+    )
+
+    const result = await orderSyncService.syncOrder('order-123')
+
+    expect(mockedBriqpay.updateSession).not.toHaveBeenCalled()
+    expect(result.outcome).toBe(OrderSyncOutcome.EXCEEDS_AUTHORIZATION)
+    expect(result.orderAmount).toBe(12000)
+    expect(result.authorizedAmount).toBe(10000)
+  })
+
+  test('resolves the session from the payment authorization when the order has no session field', async () => {
+    mockOrderLookup(
+      buildOrder({
+        custom: undefined,
+        paymentInfo: { payments: [{ typeId: 'payment', id: 'payment-123' }] },
+      }),
+    )
+    ;(mockCtPaymentService.getPayment as jest.Mock).mockReturnValue(
+      Promise.resolve({
+        id: 'payment-123',
+        transactions: [{ type: 'Authorization', state: 'Success', interactionId: 'session-from-payment' }],
+      }),
+    )
+
+    const result = await orderSyncService.syncOrder('order-123')
+
+    expect(mockCtPaymentService.getPayment).toHaveBeenCalledWith({ id: 'payment-123' })
+    expect(mockedBriqpay.getSession).toHaveBeenCalledWith('session-from-payment')
+    expect(result.sessionId).toBe('session-from-payment')
+  })
+
+  test('rejects orders without a Briqpay session', async () => {
+    mockOrderLookup(buildOrder({ custom: undefined }))
+
+    await expect(orderSyncService.syncOrder('order-123')).rejects.toThrow(ValidationError)
+    expect(mockedBriqpay.updateSession).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, expect, test, jest, beforeEach } from '@jest/globals'
+import type { CommercetoolsPaymentService, Payment } from '@commercetools/connect-payments-sdk'
+import {
+  BriqpayPaymentInspectionService,
+  maskEmail,
+  maskPhoneNumber,
+} from '../../../src/services/briqpay/payment-inspection.service'
+import Briqpay from '../../../src/libs/briqpay/BriqpayService'
+import { ValidationError } from '../../../src/libs/errors/briqpay-errors'
+import { ORDER_STATUS, TRANSACTION_STATUS } from '../../../src/services/types/briqpay-payment.type'
+
+// Mock payment SDK
+jest.mock('../../../src/payment-sdk', () => ({
+  appLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+// Mock Briqpay service
+jest.mock('../../../src/libs/briqpay/BriqpayService')
+
+const mockedBriqpay = jest.mocked(Briqpay)
+
+const money = (centAmount: number) => ({
+  type: 'centPrecision' as const,
+  centAmount,
+  currencyCode: 'EUR',
+  fractionDigits: 2,
+})
+
+const buildPayment = (transactions: Array<{ type: string; state: string; interactionId: string; amount: number }>) =>
+  ({
+    id: 'payment-123',
+    interfaceId: 'session-123',
+    amountPlanned: money(10000),
+    transactions: transactions.map((tx, index) => ({ id: `tx-${index}`, ...tx, amount: money(tx.amount) })),
+  }) as unknown as Payment
+
+describe('BriqpayPaymentInspectionService', () => {
+  const getPayment = jest.fn<CommercetoolsPaymentService['getPayment']>()
+  let inspectionService: BriqpayPaymentInspectionService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    inspectionService = new BriqpayPaymentInspectionService({ getPayment } as unknown as CommercetoolsPaymentService)
+
+    mockedBriqpay.getSession.mockResolvedValue({
+      sessionId: 'session-123',
+      htmlSnippet: '<div>snippet</div>',
+      data: {
+        transactions: [
+          {
+            transactionId: 'tx-1',
+            status: TRANSACTION_STATUS.APPROVED,
+            amountIncVat: 10000,
+            currency: 'EUR',
+            email: 'jane.doe@example.com',
+            phoneNumber: '+46701234567',
+            cart: [],
+          },
+        ],
+        captures: [
+          { captureId: 'capture-1', status: TRANSACTION_STATUS.APPROVED, amountIncVat: 6000, currency: 'EUR' },
+        ],
+        refunds: [],
+      },
+      moduleStatus: { payment: { orderStatus: ORDER_STATUS.ORDER_APPROVED_NOT_CAPTURED } },
+    })
+  })
+
+  test('returns the Briqpay session with email and phone number masked', async () => {
+    getPayment.mockResolvedValue(
+      buildPayment([{ type: 'Authorization', state: 'Success', interactionId: 'session-123', amount: 10000 }]),
+    )
+
+    const result = await inspectionService.inspect('payment-123')
+
+    expect(mockedBriqpay.getSession).toHaveBeenCalledWith('session-123')
+    expect(result.briqpaySessionId).toBe('session-123')
+    expect(result.session.transactions).toEqual([
+      {
+        transactionId: 'tx-1',
+        status: TRANSACTION_STATUS.APPROVED,
+        amountIncVat: 10000,
+        currency: 'EUR',
+        email: 'j***@example.com',
+        phoneNumber: '***67',
+      },
+    ])
+    expect(result.session.moduleStatus).toEqual({
+      payment: { orderStatus: ORDER_STATUS.ORDER_APPROVED_NOT_CAPTURED },
+    })
+  })
+
+  test('diffs the Briqpay authorization, captures and refunds against the CT transactions', async () => {
+    getPayment.mockResolvedValue(
+      buildPayment([
+        { type: 'Authorization', state: 'Success', interactionId: 'session-123', amount: 10000 },
+        { type: 'Charge', state: 'Pending', interactionId: 'capture-1', amount: 6000 },
+        { type: 'Refund', state: 'Pending', interactionId: 'refund-1', amount: 1000 },
+      ]),
+    )
+
+    const { diff } = await inspectionService.inspect('payment-123')
+
+    expect(diff.map(({ type, interactionId, inSync }) => ({ type, interactionId, inSync }))).toEqual([
+      { type: 'Authorization', interactionId: 'session-123', inSync: true },
+      { type: 'Charge', interactionId: 'capture-1', inSync: false },
+      { type: 'Refund', interactionId: 'refund-1', inSync: false },
+    ])
+    expect(diff[1]).toMatchObject({
+      briqpay: { status: TRANSACTION_STATUS.APPROVED, state: 'Success' },
+      commercetools: { id: 'tx-1', state: 'Pending' },
+    })
+    expect(diff[2].briqpay).toBeUndefined()
+  })
+
+  test('reports a Briqpay capture missing in CT', async () => {
+    getPayment.mockResolvedValue(
+      buildPayment([{ type: 'Authorization', state: 'Success', interactionId: 'session-123', amount: 10000 }]),
+    )
+
+    const { diff } = await inspectionService.inspect('payment-123')
+
+    expect(diff[1]).toEqual({
+      type: 'Charge',
+      interactionId: 'capture-1',
+      briqpay: {
+        status: TRANSACTION_STATUS.APPROVED,
+        state: 'Success',
+        amount: { centAmount: 6000, currencyCode: 'EUR' },
+      },
+      commercetools: undefined,
+      inSync: false,
+    })
+  })
+
+  test('rejects a payment without a Briqpay session', async () => {
+    getPayment.mockResolvedValue({ id: 'payment-123', transactions: [] } as unknown as Payment)
+
+    await expect(inspectionService.inspect('payment-123')).rejects.toThrow(ValidationError)
+    expect(mockedBriqpay.getSession).not.toHaveBeenCalled()
+  })
+
+  test('masks emails and phone numbers', () => {
+    expect(maskEmail('jane.doe@example.com')).toBe('j***@example.com')
+    expect(maskEmail('not-an-email')).toBe('***')
+    expect(maskEmail(undefined)).toBeUndefined()
+    expect(maskPhoneNumber('+46701234567')).toBe('***67')
+  })
+})
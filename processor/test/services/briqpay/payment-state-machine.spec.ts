@@ -0,0 +1,134 @@
+import { describe, expect, test, jest, beforeEach } from '@jest/globals'
+import { Payment, Transaction } from '@commercetools/connect-payments-sdk'
+import { canTransition, checkTransition, guardTransition } from '../../../src/services/briqpay/payment-state-machine'
+import { appLogger } from '../../../src/payment-sdk'
+
+// Mock payment SDK
+jest.mock('../../../src/payment-sdk', () => ({
+  appLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const amount = { centAmount: 10000, currencyCode: 'EUR' }
+
+const paymentWith = (transactions: Partial<Transaction>[]): Payment =>
+  ({
+    id: 'payment-123',
+    transactions: transactions.map((tx, index) => ({ id: `tx-${index}`, amount, ...tx })),
+  }) as unknown as Payment
+
+describe('payment state machine', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('canTransition', () => {
+    test('allows creating a transaction in any state and repeating the current state', () => {
+      expect(canTransition('Charge', undefined, 'Failure')).toBe(true)
+      expect(canTransition('Charge', 'Success', 'Success')).toBe(true)
+    })
+
+    test('moves pending transactions forward but never back', () => {
+      expect(canTransition('Charge', 'Pending', 'Success')).toBe(true)
+      expect(canTransition('Refund', 'Pending', 'Failure')).toBe(true)
+      expect(canTransition('Authorization', 'Success', 'Pending')).toBe(false)
+    })
+
+    test('treats Success and Failure as final for captures and refunds', () => {
+      expect(canTransition('Charge', 'Success', 'Failure')).toBe(false)
+      expect(canTransition('Refund', 'Failure', 'Success')).toBe(false)
+    })
+
+    test('treats an authorization as final unless it is released on purpose', () => {
+      expect(canTransition('Authorization', 'Success', 'Failure')).toBe(false)
+      expect(canTransition('Authorization', 'Failure', 'Success')).toBe(false)
+      expect(canTransition('Authorization', 'Success', 'Failure', { release: true })).toBe(true)
+      expect(canTransition('Authorization', 'Failure', 'Success', { release: true })).toBe(false)
+      expect(canTransition('Charge', 'Success', 'Failure', { release: true })).toBe(false)
+    })
+  })
+
+  describe('checkTransition', () => {
+    test('ignores order_pending arriving after order_approved_not_captured', () => {
+      const payment = paymentWith([{ type: 'Authorization', interactionId: 'session-123', state: 'Success' }])
+
+      expect(
+        checkTransition(payment, { type: 'Authorization', interactionId: 'session-123', amount, state: 'Pending' }),
+      ).toBe('Authorization cannot move from Success to Pending')
+    })
+
+    test('matches the transaction by interfaceId when there is no interactionId', () => {
+      const payment = paymentWith([{ type: 'CancelAuthorization', interfaceId: 'key-1', state: 'Success' }])
+
+      expect(
+        checkTransition(payment, { type: 'CancelAuthorization', interfaceId: 'key-1', amount, state: 'Failure' }),
+      ).toBeDefined()
+      expect(
+        checkTransition(payment, { type: 'CancelAuthorization', interfaceId: 'key-2', amount, state: 'Failure' }),
+      ).toBeUndefined()
+    })
+
+    test('does not fail an authorization once it has been captured', () => {
+      const payment = paymentWith([
+        { type: 'Authorization', interactionId: 'session-123', state: 'Success' },
+        { type: 'Charge', interactionId: 'capture-1', state: 'Pending' },
+      ])
+
+      expect(
+        checkTransition(
+          payment,
+          { type: 'Authorization', interactionId: 'session-123', amount, state: 'Failure' },
+          { release: true },
+        ),
+      ).toBe('Authorization cannot move to Failure after a capture')
+    })
+
+    test('does not fail an authorized payment on a late rejection', () => {
+      const payment = paymentWith([{ type: 'Authorization', interactionId: 'session-123', state: 'Success' }])
+
+      expect(
+        checkTransition(payment, { type: 'Authorization', interactionId: 'session-123', amount, state: 'Failure' }),
+      ).toBe('Authorization cannot move from Success to Failure')
+    })
+
+    test('allows releasing an authorization whose captures all failed', () => {
+      const payment = paymentWith([
+        { type: 'Authorization', interactionId: 'session-123', state: 'Success' },
+        { type: 'Charge', interactionId: 'capture-1', state: 'Failure' },
+      ])
+
+      expect(
+        checkTransition(
+          payment,
+          { type: 'Authorization', interactionId: 'session-123', amount, state: 'Failure' },
+          { release: true },
+        ),
+      ).toBeUndefined()
+    })
+  })
+
+  describe('guardTransition', () => {
+    test('returns a legal transaction unchanged', () => {
+      const payment = paymentWith([{ type: 'Charge', interactionId: 'capture-1', state: 'Pending' }])
+      const transaction = { type: 'Charge', interactionId: 'capture-1', amount, state: 'Success' } as const
+
+      expect(guardTransition(payment, transaction)).toBe(transaction)
+      expect(appLogger.warn).not.toHaveBeenCalled()
+    })
+
+    test('drops and logs an illegal transaction', () => {
+      const payment = paymentWith([{ type: 'Charge', interactionId: 'capture-1', state: 'Success' }])
+
+      expect(
+        guardTransition(payment, { type: 'Charge', interactionId: 'capture-1', amount, state: 'Failure' }),
+      ).toBeUndefined()
+      expect(appLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ paymentId: 'payment-123', type: 'Charge', from: 'Success', to: 'Failure' }),
+        'Ignoring illegal Briqpay payment transition',
+      )
+    })
+  })
+})
@@ -0,0 +1,257 @@
+import { describe, expect, test, jest, beforeEach } from '@jest/globals'
+import type { CommercetoolsPaymentService, Payment } from '@commercetools/connect-payments-sdk'
+import { BriqpayReconciliationService } from '../../../src/services/briqpay/reconciliation.service'
+import { BriqpayMerchantEventService } from '../../../src/services/briqpay/merchant-event.service'
+import Briqpay from '../../../src/libs/briqpay/BriqpayService'
+import { apiRoot } from '../../../src/libs/commercetools/api-root'
+import { TRANSACTION_STATUS } from '../../../src/services/types/briqpay-payment.type'
+
+// Mock apiRoot
+jest.mock('../../../src/libs/commercetools/api-root')
+
+// Mock payment SDK
+jest.mock('../../../src/payment-sdk', () => ({
+  appLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+// Mock Briqpay service
+jest.mock('../../../src/libs/briqpay/BriqpayService')
+
+const mockedBriqpay = jest.mocked(Briqpay)
+
+const money = (centAmount: number) => ({
+  type: 'centPrecision' as const,
+  centAmount,
+  currencyCode: 'EUR',
+  fractionDigits: 2,
+})
+
+const buildPayment = (transactions: Array<{ type: string; state: string; interactionId: string; amount: number }>) =>
+  ({
+    id: 'payment-123',
+    interfaceId: 'session-123',
+    amountPlanned: money(10000),
+    transactions: transactions.map((tx, index) => ({ id: `tx-${index}`, ...tx, amount: money(tx.amount) })),
+  }) as unknown as Payment
+
+const mockPaymentQuery = (...pages: Payment[][]) => {
+  const execute = jest.fn<() => Promise<{ body: { results: Payment[] } }>>()
+  for (const results of pages) {
+    execute.mockResolvedValueOnce({ body: { results } })
+  }
+  execute.mockResolvedValue({ body: { results: [] } })
+  const get = jest.fn().mockReturnValue({ execute })
+  ;(apiRoot.payments as unknown as jest.Mock).mockReturnValue({ get })
+  return { get }
+}
+
+describe('BriqpayReconciliationService', () => {
+  const updatePayment = jest.fn()
+  const mockCtPaymentService = { updatePayment } as unknown as CommercetoolsPaymentService
+  const publishTransaction = jest.fn()
+  const mockMerchantEventService = { publishTransaction } as unknown as BriqpayMerchantEventService
+  let reconciliationService: BriqpayReconciliationService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    reconciliationService = new BriqpayReconciliationService(mockCtPaymentService, mockMerchantEventService)
+
+    mockedBriqpay.getSession.mockResolvedValue({
+      sessionId: 'session-123',
+      htmlSnippet: '',
+      data: {
+        transactions: [
+          { transactionId: 'tx-1', status: TRANSACTION_STATUS.APPROVED, amountIncVat: 10000, currency: 'EUR' },
+        ],
+        captures: [
+          { captureId: 'capture-1', status: TRANSACTION_STATUS.APPROVED, amountIncVat: 6000, currency: 'EUR' },
+        ],
+        refunds: [{ refundId: 'refund-1', status: TRANSACTION_STATUS.REJECTED, amountIncVat: 1000, currency: 'EUR' }],
+      },
+    })
+  })
+
+  test('queries Briqpay payments with non-final transactions', async () => {
+    const { get } = mockPaymentQuery([])
+
+    await reconciliationService.reconcile()
+
+    expect(get).toHaveBeenCalledWith({
+      queryArgs: {
+        where: ['paymentMethodInfo(paymentInterface="Briqpay") and transactions(state in ("Initial", "Pending"))'],
+        sort: 'id asc',
+        limit: 500,
+        withTotal: false,
+      },
+    })
+  })
+
+  test('pages past a full page of payments by id', async () => {
+    const firstPage = Array.from(
+      { length: 500 },
+      (_, index) =>
+        ({
+          ...buildPayment([{ type: 'Authorization', state: 'Pending', interactionId: 'session-123', amount: 10000 }]),
+          id: `payment-${String(index).padStart(3, '0')}`,
+        }) as Payment,
+    )
+    const secondPage = [
+      buildPayment([{ type: 'Authorization', state: 'Pending', interactionId: 'session-123', amount: 10000 }]),
+    ]
+    const { get } = mockPaymentQuery(firstPage, secondPage)
+
+    const result = await reconciliationService.reconcile(true)
+
+    expect(get).toHaveBeenCalledTimes(2)
+    expect(get).toHaveBeenLastCalledWith({
+      queryArgs: expect.objectContaining({
+        where: [
+          'paymentMethodInfo(paymentInterface="Briqpay") and transactions(state in ("Initial", "Pending"))',
+          'id > "payment-499"',
+        ],
+      }),
+    })
+    expect(result.payments).toHaveLength(501)
+  })
+
+  test('reports stuck and missing transactions without applying them in dry-run mode', async () => {
+    mockPaymentQuery([
+      buildPayment([{ type: 'Authorization', state: 'Pending', interactionId: 'session-123', amount: 10000 }]),
+    ])
+
+    const result = await reconciliationService.reconcile(true)
+
+    expect(updatePayment).not.toHaveBeenCalled()
+    expect(result).toEqual({
+      dryRun: true,
+      payments: [
+        {
+          paymentId: 'payment-123',
+          sessionId: 'session-123',
+          changes: [
+            {
+              type: 'Authorization',
+              interactionId: 'session-123',
+              amount: { centAmount: 10000, currencyCode: 'EUR' },
+              state: 'Success',
+              previousState: 'Pending',
+            },
+            {
+              type: 'Charge',
+              interactionId: 'capture-1',
+              amount: { centAmount: 6000, currencyCode: 'EUR' },
+              state: 'Success',
+              previousState: undefined,
+            },
+            {
+              type: 'Refund',
+              interactionId: 'refund-1',
+              amount: { centAmount: 1000, currencyCode: 'EUR' },
+              state: 'Failure',
+              previousState: undefined,
+            },
+          ],
+        },
+      ],
+    })
+  })
+
+  test('applies the changes in apply mode', async () => {
+    mockPaymentQuery([
+      buildPayment([
+        { type: 'Authorization', state: 'Success', interactionId: 'session-123', amount: 10000 },
+        { type: 'Charge', state: 'Pending', interactionId: 'capture-1', amount: 6000 },
+        { type: 'Refund', state: 'Failure', interactionId: 'refund-1', amount: 1000 },
+      ]),
+    ])
+
+    const result = await reconciliationService.reconcile(false)
+
+    expect(updatePayment).toHaveBeenCalledTimes(1)
+    expect(updatePayment).toHaveBeenCalledWith({
+      id: 'payment-123',
+      transaction: {
+        type: 'Charge',
+        interactionId: 'capture-1',
+        amount: { centAmount: 6000, currencyCode: 'EUR' },
+        state: 'Success',
+      },
+    })
+    expect(result.payments[0].changes).toHaveLength(1)
+    expect(publishTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'payment-123' }),
+      expect.objectContaining({ type: 'Charge', state: 'Success' }),
+    )
+  })
+
+  test('skips changes the payment state machine rejects', async () => {
+    mockedBriqpay.getSession.mockResolvedValue({
+      sessionId: 'session-123',
+      htmlSnippet: '',
+      data: {
+        transactions: [
+          { transactionId: 'tx-1', status: TRANSACTION_STATUS.REJECTED, amountIncVat: 10000, currency: 'EUR' },
+        ],
+        captures: [
+          { captureId: 'capture-1', status: TRANSACTION_STATUS.APPROVED, amountIncVat: 6000, currency: 'EUR' },
+        ],
+      },
+    })
+    mockPaymentQuery([
+      buildPayment([
+        { type: 'Authorization', state: 'Pending', interactionId: 'session-123', amount: 10000 },
+        { type: 'Charge', state: 'Pending', interactionId: 'capture-1', amount: 6000 },
+      ]),
+    ])
+
+    const result = await reconciliationService.reconcile(false)
+
+    // The authorization cannot fail once money was captured against it
+    expect(updatePayment).toHaveBeenCalledTimes(1)
+    expect(updatePayment).toHaveBeenCalledWith({
+      id: 'payment-123',
+      transaction: expect.objectContaining({ type: 'Charge', state: 'Success' }),
+    })
+    expect(result.payments[0].changes).toHaveLength(2)
+  })
+
+  test('never overwrites final CT transaction states', async () => {
+    mockedBriqpay.getSession.mockResolvedValue({
+      sessionId: 'session-123',
+      htmlSnippet: '',
+      data: {
+        transactions: [
+          { transactionId: 'tx-1', status: TRANSACTION_STATUS.PENDING, amountIncVat: 10000, currency: 'EUR' },
+        ],
+      },
+    })
+    mockPaymentQuery([
+      buildPayment([
+        { type: 'Authorization', state: 'Success', interactionId: 'session-123', amount: 10000 },
+        { type: 'Charge', state: 'Pending', interactionId: 'capture-unknown', amount: 6000 },
+      ]),
+    ])
+
+    const result = await reconciliationService.reconcile(false)
+
+    expect(updatePayment).not.toHaveBeenCalled()
+    expect(result.payments[0].changes).toEqual([])
+  })
+
+  test('reports a failed session lookup and continues', async () => {
+    mockedBriqpay.getSession.mockRejectedValueOnce(new Error('Briqpay unavailable'))
+    mockPaymentQuery([
+      buildPayment([{ type: 'Authorization', state: 'Pending', interactionId: 'session-123', amount: 10000 }]),
+      buildPayment([{ type: 'Authorization', state: 'Pending', interactionId: 'session-123', amount: 10000 }]),
+    ])
+
+    const result = await reconciliationService.reconcile(true)
+
+    expect(result.payments[0].error).toBe('Briqpay unavailable')
+    expect(result.payments[1].changes).toHaveLength(3)
+  })
+})
@@ -79,6 +79,7 @@ jest.mock('../../../src/libs/commercetools/api-root', () => ({
 jest.mock('../../../src/payment-sdk', () => ({
   appLogger: {
     info: jest.fn(),
+    warn: jest.fn(),
     error: jest.fn(),
   },
 }))
@@ -95,6 +96,7 @@ describe('BriqpaySessionDataService', () => {
 
   beforeEach(() => {
     jest.clearAllMocks()
+    mockFetch.mockReset()
 
     // Reset mocks to default behavior
     mockOrderGet.mockResolvedValue({
@@ -531,7 +533,8 @@ describe('BriqpaySessionDataService', () => {
     })
 
     test('should propagate errors from fetchFullSession', async () => {
-      mockFetch.mockResolvedValueOnce({
+      // 5xx on a GET is retried, so every attempt must see the failure
+      mockFetch.mockResolvedValue({
         ok: false,
         status: 500,
         statusText: 'Internal Server Error',
@@ -704,7 +707,8 @@ describe('BriqpaySessionDataService', () => {
     })
 
     test('propagates errors from fetchFullSession', async () => {
-      mockFetch.mockResolvedValueOnce({
+      // 5xx on a GET is retried, so every attempt must see the failure
+      mockFetch.mockResolvedValue({
         ok: false,
         status: 500,
         statusText: 'Internal Server Error',
@@ -0,0 +1,127 @@
+import { describe, expect, test, jest, beforeEach, afterEach } from '@jest/globals'
+import { BriqpaySessionStatusService } from '../../../src/services/briqpay/session-status.service'
+import type { BriqpaySessionDataService } from '../../../src/services/briqpay/session-data.service'
+import { apiRoot } from '../../../src/libs/commercetools/api-root'
+import {
+  BRIQPAY_MODULE_UI_WEBHOOK_STATUS,
+  BRIQPAY_SESSION_WEBHOOK_STATUS,
+  BRIQPAY_WEBHOOK_EVENT,
+  BRIQPAY_WEBHOOK_MODULE,
+  NotificationRequestSchemaDTO,
+} from '../../../src/dtos/briqpay-payment.dto'
+
+// Mock apiRoot
+jest.mock('../../../src/libs/commercetools/api-root')
+
+// Mock payment SDK
+jest.mock('../../../src/payment-sdk', () => ({
+  appLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const sessionCompleted: NotificationRequestSchemaDTO = {
+  event: BRIQPAY_WEBHOOK_EVENT.SESSION_STATUS,
+  status: BRIQPAY_SESSION_WEBHOOK_STATUS.COMPLETED,
+  sessionId: 'session-123',
+  cartId: 'cart-123',
+}
+
+const paymentModuleVisible: NotificationRequestSchemaDTO = {
+  event: BRIQPAY_WEBHOOK_EVENT.MODULE_UI_STATUS,
+  status: BRIQPAY_MODULE_UI_WEBHOOK_STATUS.VISIBLE,
+  module: BRIQPAY_WEBHOOK_MODULE.PAYMENT,
+  sessionId: 'session-123',
+  cartId: 'cart-123',
+}
+
+const notFound = Object.assign(new Error('Not found'), { statusCode: 404 })
+
+const mockCarts = (fields: Record<string, unknown> = {}) => {
+  const lookup = jest.fn<() => Promise<unknown>>().mockResolvedValue({
+    body: { id: 'cart-123', custom: { fields } },
+  })
+  const query = jest.fn<() => Promise<unknown>>().mockResolvedValue({ body: { results: [] } })
+
+  const withId = jest.fn().mockReturnValue({ get: () => ({ execute: lookup }) })
+  const get = jest.fn().mockReturnValue({ execute: query })
+  ;(apiRoot.carts as unknown as jest.Mock).mockReturnValue({ withId, get })
+
+  return { lookup, query, get }
+}
+
+describe('BriqpaySessionStatusService', () => {
+  const updateResourceCustomFields = jest.fn<BriqpaySessionDataService['updateResourceCustomFields']>()
+  let service: BriqpaySessionStatusService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00.000Z') })
+    service = new BriqpaySessionStatusService({ updateResourceCustomFields } as unknown as BriqpaySessionDataService)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test('stamps the session completion time on the cart', async () => {
+    mockCarts()
+
+    await service.recordSessionEvent(sessionCompleted)
+
+    expect(updateResourceCustomFields).toHaveBeenCalledWith(
+      { resource: 'cart', id: 'cart-123' },
+      { 'briqpay-session-completed-at': '2026-10-19T12:00:00.000Z' },
+    )
+  })
+
+  test('keeps the first completion time when the event is delivered again', async () => {
+    mockCarts({ 'briqpay-session-completed-at': '2026-10-19T11:00:00.000Z' })
+
+    await service.recordSessionEvent(sessionCompleted)
+
+    expect(updateResourceCustomFields).not.toHaveBeenCalled()
+  })
+
+  test('merges the module UI status into the statuses already on the cart', async () => {
+    mockCarts({ 'briqpay-module-ui-status': '{"billing":"completed"}' })
+
+    await service.recordSessionEvent(paymentModuleVisible)
+
+    expect(updateResourceCustomFields).toHaveBeenCalledWith(
+      { resource: 'cart', id: 'cart-123' },
+      { 'briqpay-module-ui-status': '{"billing":"completed","payment":"visible"}' },
+    )
+  })
+
+  test('skips a module UI status the cart already has', async () => {
+    mockCarts({ 'briqpay-module-ui-status': '{"payment":"visible"}' })
+
+    await service.recordSessionEvent(paymentModuleVisible)
+
+    expect(updateResourceCustomFields).not.toHaveBeenCalled()
+  })
+
+  test('finds the cart by its Briqpay session ID when the webhook has no cartId', async () => {
+    const { get, query } = mockCarts()
+    query.mockResolvedValue({ body: { results: [{ id: 'cart-456', custom: { fields: {} } }] } })
+
+    await service.recordSessionEvent({ ...sessionCompleted, cartId: undefined })
+
+    expect(get).toHaveBeenCalledWith({
+      queryArgs: { where: 'custom(fields(briqpay-session-id="session-123"))', limit: 1 },
+    })
+    expect(updateResourceCustomFields).toHaveBeenCalledWith({ resource: 'cart', id: 'cart-456' }, expect.any(Object))
+  })
+
+  test('skips the event when the cart no longer exists', async () => {
+    const { lookup } = mockCarts()
+    lookup.mockRejectedValue(notFound)
+
+    await service.recordSessionEvent(sessionCompleted)
+
+    expect(updateResourceCustomFields).not.toHaveBeenCalled()
+  })
+})
@@ -398,5 +398,63 @@ describe('BriqpaySessionService', () => {
 
       expect(result.sessionId).toBeDefined()
     })
+
+    describe('custom line items', () => {
+      const giftWrapping = {
+        id: 'custom-line-item-1',
+        name: { en: 'Gift wrapping' },
+        slug: 'gift-wrapping',
+        quantity: 1,
+        money: { centAmount: 500, currencyCode: 'EUR', type: 'centPrecision' as const, fractionDigits: 2 },
+        taxRate: { name: 'VAT', amount: 0.25, includedInPrice: true, country: 'SE' },
+      }
+
+      const cartWithGiftWrapping = () =>
+        ({
+          ...getCart(),
+          locale: 'en',
+          lineItems: [],
+          customLineItems: [giftWrapping],
+          custom: {
+            type: { typeId: 'type' as const, id: 'briqpay-session-id' },
+            fields: { 'briqpay-session-id': 'existing-session-id' },
+          },
+        }) as unknown as Cart
+
+      const sessionWithCart = (cart: unknown[]) =>
+        mockedBriqpay.getSession.mockResolvedValue({
+          sessionId: 'existing-session-id',
+          htmlSnippet: '<div>Briqpay</div>',
+          data: { order: { amountIncVat: 119000, currency: 'EUR', cart } },
+        } as never)
+
+      const amountPlanned = { centAmount: 119000, currencyCode: 'EUR', fractionDigits: 2 }
+
+      test('should reuse the session when its lines match the custom line items', async () => {
+        sessionWithCart([
+          {
+            productType: 'surcharge',
+            reference: 'gift-wrapping',
+            name: 'Gift wrapping',
+            quantity: 1,
+            unitPrice: 400,
+            unitPriceIncVat: 500,
+            taxRate: 2500,
+          },
+        ])
+
+        await sessionService.createOrUpdateBriqpaySession(cartWithGiftWrapping(), amountPlanned, 'localhost')
+
+        expect(mockedBriqpay.updateSession).not.toHaveBeenCalled()
+      })
+
+      test('should trigger update when a custom line item is missing from the session', async () => {
+        sessionWithCart([])
+
+        await sessionService.createOrUpdateBriqpaySession(cartWithGiftWrapping(), amountPlanned, 'localhost')
+
+        expect(mockedBriqpay.updateSession).toHaveBeenCalled()
+      })
+    })
   })
 })
@@ -9,8 +9,10 @@ import {
   getTransaction,
   getActualAuthorizationStatus,
   getCapture,
+  getCaptures,
   getActualCaptureStatus,
   getRefund,
+  getRefunds,
   getActualRefundStatus,
 } from '../../../src/services/briqpay/utils'
 import { BRIQPAY_WEBHOOK_STATUS, PaymentOutcome } from '../../../src/dtos/briqpay-payment.dto'
@@ -234,6 +236,30 @@ describe('briqpay utils', () => {
     })
   })
 
+  describe('getCaptures and getRefunds', () => {
+    test('should prefer data arrays over the top-level arrays', () => {
+      const session: MediumBriqpayResponse = {
+        htmlSnippet: '',
+        sessionId: 'sess-1',
+        data: {
+          captures: [{ captureId: 'cap-1', status: TRANSACTION_STATUS.APPROVED, amountIncVat: 1000, currency: 'EUR' }],
+          refunds: [{ refundId: 'ref-1', status: TRANSACTION_STATUS.PENDING, amountIncVat: 500, currency: 'EUR' }],
+        },
+        captures: [
+          { captureId: 'cap-legacy', status: TRANSACTION_STATUS.APPROVED, amountIncVat: 800, currency: 'EUR' },
+        ],
+      }
+      expect(getCaptures(session).map((c) => c.captureId)).toEqual(['cap-1'])
+      expect(getRefunds(session).map((r) => r.refundId)).toEqual(['ref-1'])
+    })
+
+    test('should return empty arrays when the session has none', () => {
+      const session: MediumBriqpayResponse = { htmlSnippet: '', sessionId: 'sess-1' }
+      expect(getCaptures(session)).toEqual([])
+      expect(getRefunds(session)).toEqual([])
+    })
+  })
+
   describe('getActualCaptureStatus', () => {
     test('should return the status of a found capture', () => {
       const session: MediumBriqpayResponse = {
@@ -0,0 +1,288 @@
+import { describe, expect, test, jest, beforeEach, afterEach } from '@jest/globals'
+import { ErrorResourceNotFound } from '@commercetools/connect-payments-sdk'
+import { BriqpayWebhookInboxService } from '../../../src/services/briqpay/webhook-inbox.service'
+import type { BriqpayNotificationService } from '../../../src/services/briqpay/notification.service'
+import { apiRoot } from '../../../src/libs/commercetools/api-root'
+import {
+  BRIQPAY_WEBHOOK_EVENT,
+  BRIQPAY_WEBHOOK_STATUS,
+  NotificationRequestSchemaDTO,
+  WebhookInboxEntryDTO,
+  WebhookInboxStatus,
+} from '../../../src/dtos/briqpay-payment.dto'
+import * as Config from '../../../src/config/config'
+import { appLogger } from '../../../src/payment-sdk'
+
+// Mock apiRoot
+jest.mock('../../../src/libs/commercetools/api-root')
+
+// Mock payment SDK
+jest.mock('../../../src/payment-sdk', () => ({
+  appLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const data: NotificationRequestSchemaDTO = {
+  event: BRIQPAY_WEBHOOK_EVENT.ORDER_STATUS,
+  status: BRIQPAY_WEBHOOK_STATUS.ORDER_APPROVED_NOT_CAPTURED,
+  sessionId: 'session-123',
+  transaction: { transactionId: 'tx-1', status: 'approved', amountIncVat: 10000, currency: 'EUR' },
+}
+
+const pendingEntry = (overrides: Partial<WebhookInboxEntryDTO> = {}): WebhookInboxEntryDTO => ({
+  key: 'session-123-abc',
+  status: WebhookInboxStatus.PENDING,
+  attempts: 0,
+  receivedAt: '2026-10-19T12:00:00.000Z',
+  updatedAt: '2026-10-19T12:00:00.000Z',
+  data,
+  ...overrides,
+})
+
+const notFound = Object.assign(new Error('Not found'), { statusCode: 404 })
+
+const conflict = Object.assign(new Error('Conflict'), { statusCode: 409 })
+
+const mockCustomObjects = () => {
+  const lookup = jest.fn<() => Promise<unknown>>().mockRejectedValue(notFound)
+  const query = jest.fn<() => Promise<unknown>>().mockResolvedValue({ body: { results: [] } })
+  const saved = jest.fn<() => Promise<unknown>>().mockResolvedValue({ body: {} })
+  const deleted = jest.fn<() => Promise<unknown>>().mockResolvedValue({ body: {} })
+
+  const post = jest.fn().mockReturnValue({ execute: saved })
+  const remove = jest.fn().mockReturnValue({ execute: deleted })
+  const withContainerAndKey = jest.fn().mockReturnValue({ get: () => ({ execute: lookup }), delete: remove })
+  const get = jest.fn().mockReturnValue({ execute: query })
+  const withContainer = jest.fn().mockReturnValue({ get })
+  ;(apiRoot.customObjects as unknown as jest.Mock).mockReturnValue({ post, withContainerAndKey, withContainer })
+
+  return { lookup, query, saved, post, remove, get, withContainerAndKey }
+}
+
+// The stored form of an entry as the claim reads it
+const stored = (entry: WebhookInboxEntryDTO, version = 1) => {
+  const { key: _key, ...value } = entry
+  return { body: { version, value } }
+}
+
+const savedValues = (post: jest.Mock) =>
+  post.mock.calls.map(([arg]) => (arg as { body: { value: Omit<WebhookInboxEntryDTO, 'key'> } }).body.value)
+
+describe('BriqpayWebhookInboxService', () => {
+  const verifyNotification = jest.fn<BriqpayNotificationService['verifyNotification']>()
+  const processVerifiedNotification = jest.fn<BriqpayNotificationService['processVerifiedNotification']>()
+  let inboxService: BriqpayWebhookInboxService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(Config, 'getConfig').mockReturnValue({
+      ...Config.config,
+      webhookMaxAttempts: 3,
+      webhookRetryBaseDelay: 0,
+    })
+    inboxService = new BriqpayWebhookInboxService({
+      verifyNotification,
+      processVerifiedNotification,
+    } as unknown as BriqpayNotificationService)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('stores a verified webhook as pending, keyed by session and body hash', async () => {
+    const { post } = mockCustomObjects()
+
+    const entry = await inboxService.receive({ data, rawBody: '{"sessionId":"session-123"}', signatureHeader: 'sig' })
+
+    expect(verifyNotification).toHaveBeenCalled()
+    expect(entry.key).toMatch(/^session-123-[0-9a-f]{16}$/)
+    expect(entry.status).toBe(WebhookInboxStatus.PENDING)
+    expect(post).toHaveBeenCalledWith({
+      body: {
+        container: 'briqpay-webhook-inbox',
+        key: entry.key,
+        value: expect.objectContaining({ status: WebhookInboxStatus.PENDING, attempts: 0, data }),
+      },
+    })
+  })
+
+  test('does not store a webhook that fails verification', async () => {
+    const { post } = mockCustomObjects()
+    verifyNotification.mockImplementationOnce(() => {
+      throw new Error('Webhook verification failed: Invalid signature')
+    })
+
+    await expect(inboxService.receive({ data, rawBody: '{}', signatureHeader: 'sig' })).rejects.toThrow(
+      'Webhook verification failed',
+    )
+    expect(post).not.toHaveBeenCalled()
+  })
+
+  test('returns the existing entry when Briqpay delivers the same webhook again', async () => {
+    const { lookup, post } = mockCustomObjects()
+    const { key: _key, ...value } = pendingEntry({ status: WebhookInboxStatus.PROCESSED, attempts: 1 })
+    lookup.mockResolvedValue({ body: { value } })
+
+    const entry = await inboxService.receive({ data, rawBody: '{}', signatureHeader: 'sig' })
+
+    expect(entry.status).toBe(WebhookInboxStatus.PROCESSED)
+    expect(post).not.toHaveBeenCalled()
+  })
+
+  test('claims the entry and marks it processed after a successful attempt', async () => {
+    const { lookup, saved, post } = mockCustomObjects()
+    lookup.mockResolvedValue(stored(pendingEntry(), 4))
+    saved.mockResolvedValueOnce({ body: { version: 5 } }).mockResolvedValueOnce({ body: { version: 6 } })
+    processVerifiedNotification.mockResolvedValue(undefined)
+
+    const entry = await inboxService.deliver(pendingEntry())
+
+    expect(processVerifiedNotification).toHaveBeenCalledWith(data)
+    expect(entry).toMatchObject({ status: WebhookInboxStatus.PROCESSED, attempts: 1 })
+    expect(entry.claimedAt).toBeUndefined()
+    const versions = post.mock.calls.map(([arg]) => (arg as { body: { version?: number } }).body.version)
+    expect(versions).toEqual([4, 5])
+    expect(savedValues(post as jest.Mock)).toEqual([
+      expect.objectContaining({ status: WebhookInboxStatus.PENDING, attempts: 0, claimedAt: expect.any(String) }),
+      expect.objectContaining({ status: WebhookInboxStatus.PROCESSED, attempts: 1 }),
+    ])
+  })
+
+  test('does not process an entry another instance claimed first', async () => {
+    const { lookup, saved } = mockCustomObjects()
+    lookup.mockResolvedValue(stored(pendingEntry()))
+    saved.mockRejectedValueOnce(conflict)
+
+    const entry = await inboxService.deliver(pendingEntry())
+
+    expect(processVerifiedNotification).not.toHaveBeenCalled()
+    expect(entry.status).toBe(WebhookInboxStatus.PENDING)
+  })
+
+  test('does not process an entry while another instance holds a live claim', async () => {
+    const { lookup, post } = mockCustomObjects()
+    lookup.mockResolvedValue(stored(pendingEntry({ claimedAt: new Date().toISOString() })))
+
+    await inboxService.deliver(pendingEntry())
+
+    expect(processVerifiedNotification).not.toHaveBeenCalled()
+    expect(post).not.toHaveBeenCalled()
+  })
+
+  test('does not process an entry that was processed in the meantime', async () => {
+    const { lookup } = mockCustomObjects()
+    lookup.mockResolvedValue(stored(pendingEntry({ status: WebhookInboxStatus.PROCESSED, attempts: 1 })))
+
+    await inboxService.deliver(pendingEntry())
+
+    expect(processVerifiedNotification).not.toHaveBeenCalled()
+  })
+
+  test('retries a failing webhook and succeeds within the attempt budget', async () => {
+    const { lookup, post } = mockCustomObjects()
+    lookup.mockResolvedValue(stored(pendingEntry()))
+    processVerifiedNotification.mockRejectedValueOnce(new Error('CT unavailable')).mockResolvedValueOnce(undefined)
+
+    const entry = await inboxService.deliver(pendingEntry())
+
+    expect(processVerifiedNotification).toHaveBeenCalledTimes(2)
+    expect(entry).toMatchObject({ status: WebhookInboxStatus.PROCESSED, attempts: 2 })
+    expect(savedValues(post as jest.Mock).slice(1)).toEqual([
+      expect.objectContaining({ status: WebhookInboxStatus.PENDING, attempts: 1, lastError: 'CT unavailable' }),
+      expect.objectContaining({ status: WebhookInboxStatus.PROCESSED, attempts: 2 }),
+    ])
+  })
+
+  test('stops retrying once another instance took the entry over', async () => {
+    const { lookup, saved } = mockCustomObjects()
+    lookup.mockResolvedValue(stored(pendingEntry()))
+    saved.mockResolvedValueOnce({ body: { version: 2 } }).mockRejectedValueOnce(conflict)
+    processVerifiedNotification.mockRejectedValue(new Error('CT unavailable'))
+
+    await inboxService.deliver(pendingEntry())
+
+    expect(processVerifiedNotification).toHaveBeenCalledTimes(1)
+  })
+
+  test('moves a webhook that keeps failing to the dead letter state', async () => {
+    const { lookup } = mockCustomObjects()
+    lookup.mockResolvedValue(stored(pendingEntry()))
+    processVerifiedNotification.mockRejectedValue(new Error('CT unavailable'))
+
+    const entry = await inboxService.deliver(pendingEntry())
+
+    expect(processVerifiedNotification).toHaveBeenCalledTimes(3)
+    expect(entry).toMatchObject({ status: WebhookInboxStatus.DEAD_LETTER, attempts: 3, lastError: 'CT unavailable' })
+    expect(appLogger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'briqpay.webhook.dead_letter', key: 'session-123-abc', attempts: 3 }),
+      expect.any(String),
+    )
+  })
+
+  test('sweeps pending entries that have not been updated within the claim TTL', async () => {
+    const { get, query, lookup } = mockCustomObjects()
+    const { key, ...value } = pendingEntry()
+    query.mockResolvedValue({ body: { results: [{ key, value }] } })
+    lookup.mockResolvedValue(stored(pendingEntry()))
+    processVerifiedNotification.mockResolvedValue(undefined)
+
+    const entries = await inboxService.sweepPending(new Date('2026-10-19T12:30:00.000Z'))
+
+    expect(get).toHaveBeenCalledWith({
+      queryArgs: {
+        where: 'value(status="pending" and updatedAt < "2026-10-19T12:25:00.000Z")',
+        sort: 'createdAt asc',
+        limit: 100,
+      },
+    })
+    expect(entries).toEqual([expect.objectContaining({ key, status: WebhookInboxStatus.PROCESSED })])
+  })
+
+  test('purges processed entries past their retention when storing a webhook', async () => {
+    const { get, query, remove } = mockCustomObjects()
+    query.mockResolvedValue({ body: { results: [{ key: 'old-entry', version: 3 }] } })
+
+    await inboxService.receive({ data, rawBody: '{}', signatureHeader: 'sig' })
+
+    expect(get).toHaveBeenCalledWith({
+      queryArgs: { where: expect.stringMatching(/^value\(status="processed" and updatedAt < "/), limit: 50 },
+    })
+    expect(remove).toHaveBeenCalledWith({ queryArgs: { version: 3 } })
+  })
+
+  test('lists dead letters by default', async () => {
+    const { get, query } = mockCustomObjects()
+    const { key, ...value } = pendingEntry({ status: WebhookInboxStatus.DEAD_LETTER, attempts: 3 })
+    query.mockResolvedValue({ body: { results: [{ key, value }] } })
+
+    const entries = await inboxService.list()
+
+    expect(get).toHaveBeenCalledWith({
+      queryArgs: { where: 'value(status="dead_letter")', sort: 'createdAt asc', limit: 100 },
+    })
+    expect(entries).toEqual([{ key, ...value }])
+  })
+
+  test('replays a dead letter with a fresh attempt budget', async () => {
+    const { lookup } = mockCustomObjects()
+    lookup
+      .mockResolvedValueOnce(stored(pendingEntry({ status: WebhookInboxStatus.DEAD_LETTER, attempts: 3 })))
+      .mockResolvedValue(stored(pendingEntry()))
+    processVerifiedNotification.mockResolvedValue(undefined)
+
+    const entry = await inboxService.replay('session-123-abc')
+
+    expect(entry).toMatchObject({ key: 'session-123-abc', status: WebhookInboxStatus.PROCESSED, attempts: 1 })
+  })
+
+  test('rejects a replay of an unknown entry', async () => {
+    mockCustomObjects()
+
+    await expect(inboxService.replay('missing')).rejects.toThrow(ErrorResourceNotFound)
+    expect(processVerifiedNotification).not.toHaveBeenCalled()
+  })
+})